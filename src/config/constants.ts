@@ -2,6 +2,8 @@
  * Global constants for the crawler
  */
 
+import type { LinkSourceType } from '../types/navigation.types';
+
 /**
  * URL tracking parameters to strip during normalization
  * These don't affect content but create duplicate URLs
@@ -51,6 +53,12 @@ export const SOFT_404_BODY_PATTERNS = [
   /404.*error/i,
 ];
 
+/**
+ * Pages with a soft-404 title/body pattern are only classified as SOFT_404
+ * when their main content is this short (real articles can mention "404")
+ */
+export const SOFT_404_MAX_WORDS = 150;
+
 /**
  * Known CMS content selectors (fallback extraction)
  */
@@ -97,12 +105,155 @@ export const DEFAULT_CONCURRENCY = 10;
 export const DEFAULT_REQUEST_TIMEOUT_SECS = 60;
 export const DEFAULT_MAX_PAGES = 10000;
 export const DEFAULT_FETCH_MODE = 'cheerio' as const;
+export const DEFAULT_DISCOVERY_MAX_DEPTH = 3;
+
+/**
+ * Playwright (headless browser) defaults
+ * Browsers are far heavier than HTTP requests, so concurrency is kept low
+ */
+export const PLAYWRIGHT_CONCURRENCY = 3;
+export const PLAYWRIGHT_NAVIGATION_TIMEOUT_SECS = 60;
+export const PLAYWRIGHT_HEADLESS = process.env.PLAYWRIGHT_HEADLESS !== 'false';
+export const PLAYWRIGHT_BROWSER = process.env.PLAYWRIGHT_BROWSER || 'chromium';
+
+/**
+ * Per-domain politeness defaults
+ * Overridable per domain via domain_overrides.max_concurrency / max_requests_per_minute
+ */
+export const DEFAULT_DOMAIN_MAX_CONCURRENCY = 4;
+export const DEFAULT_DOMAIN_MAX_REQUESTS_PER_MINUTE = 0; // 0 = unlimited
+export const DOMAIN_SLOT_RETRY_MS = 250;                 // Re-check interval when a domain is at its concurrency cap
+
+/**
+ * Backoff after 429/503 responses
+ * Delay doubles per consecutive throttled response (capped); Retry-After wins when longer
+ */
+export const THROTTLE_BACKOFF_BASE_MS = 5000;
+export const THROTTLE_BACKOFF_MAX_MS = 5 * 60 * 1000;
+export const MAX_RETRY_AFTER_SECS = 600;
+
+/**
+ * JS-rendered pages seen on a domain before the rest of that domain
+ * skips Cheerio and goes straight to the browser
+ */
+export const BROWSER_FALLBACK_DOMAIN_THRESHOLD = 3;
+
+/**
+ * Link checking (--check-links): link targets the crawl never fetched get a
+ * HEAD request, through the same per-domain throttle as the crawl.
+ * External hosts have no domain_overrides row, so they get their own rate cap.
+ */
+export const LINK_CHECK_CONCURRENCY = 8;
+export const LINK_CHECK_TIMEOUT_SECS = 15;
+export const LINK_CHECK_CACHE_HOURS = 24;               // Targets checked more recently are not requested again
+export const LINK_CHECK_EXTERNAL_MAX_REQUESTS_PER_MINUTE = 30;
+export const LINK_CHECK_MAX_ATTEMPTS = 3;               // Per target, when the host answers 429/503
+
+/**
+ * Internal PageRank (linkMetrics): share of link equity a link passes by where
+ * it sits, relative to an editorial in-content link
+ */
+export const LINK_EQUITY_WEIGHTS: Record<LinkSourceType, number> = {
+  contextual_body: 1.0,
+  faq_module: 0.8,
+  related_posts: 0.6,
+  template_cta: 0.5,
+  breadcrumb: 0.5,
+  primary_nav: 0.5,
+  author_bio: 0.4,
+  testimonial: 0.4,
+  toc_or_jump: 0.3,
+  repeated_block: 0.3,
+  footer: 0.2,
+};
+export const PAGERANK_DAMPING = 0.85;
+export const PAGERANK_MAX_ITERATIONS = 100;
+export const PAGERANK_TOLERANCE = 1e-8;                 // Stop once ranks move less than this in total
+
+/**
+ * Content language detection (languageDetector): pages with fewer words are
+ * not classified, and only the first LANGUAGE_DETECTION_MAX_WORDS are scored
+ */
+export const LANGUAGE_DETECTION_MIN_WORDS = 20;
+export const LANGUAGE_DETECTION_MAX_WORDS = 2000;
+
+/**
+ * Detections below this confidence never count as a declared/detected mismatch
+ */
+export const LANGUAGE_MISMATCH_MIN_CONFIDENCE = 0.4;
+
+/**
+ * Maximum hops followed in one redirect chain, HTTP and client-side together
+ * (same limit as the HTTP client's own redirect cap)
+ */
+export const MAX_REDIRECT_HOPS = 10;
+
+/**
+ * Sitemap protocol limits per sitemap file (uncompressed); search engines
+ * ignore whatever comes after them, so the parser stops reading there too
+ */
+export const SITEMAP_MAX_URLS = 50000;
+export const SITEMAP_MAX_BYTES = 50 * 1024 * 1024;
+export const SITEMAP_TIMEOUT_SECS = 30;
 
 /**
  * User agent string
  */
 export const USER_AGENT = 'Mozilla/5.0 (compatible; ACrawler/1.0; +https://github.com/your-repo)';
 
+/**
+ * Response headers stored per page (crawler_pages.response_headers)
+ * `link` carries rel=canonical / rel=alternate hreflang sent as HTTP headers
+ */
+export const STORED_RESPONSE_HEADERS = [
+  'content-type',
+  'content-length',
+  'cache-control',
+  'expires',
+  'etag',
+  'last-modified',
+  'x-robots-tag',
+  'link',
+  'server',
+];
+
+/**
+ * Product token matched against robots.txt User-agent lines
+ */
+export const ROBOTS_USER_AGENT = 'ACrawler';
+
+/**
+ * Upper bound for robots.txt Crawl-delay (seconds)
+ * Protects against misconfigured values that would stall a crawl
+ */
+export const MAX_CRAWL_DELAY_SECS = 30;
+
+/**
+ * robots.txt that could not be fetched (5xx, 429, network error) means complete
+ * disallow (RFC 9309 section 2.3.1.4); it is fetched again after this long
+ */
+export const ROBOTS_UNAVAILABLE_RETRY_SECS = 300;
+
+/**
+ * Search-engine bots whose own robots meta tags / X-Robots-Tag lines are parsed
+ * (<meta name="googlebot">, X-Robots-Tag: bingbot: noindex); `robots` applies to all
+ */
+export const ROBOTS_META_USER_AGENTS = [
+  'googlebot',
+  'googlebot-news',
+  'googlebot-image',
+  'bingbot',
+  'msnbot',
+  'slurp',
+  'yandex',
+  'baiduspider',
+];
+
+/**
+ * Bot whose directives count, on top of the generic ones, when classifying indexability
+ */
+export const INDEXABILITY_USER_AGENT = 'googlebot';
+
 /**
  * Markdown generation options
  */
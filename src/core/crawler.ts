@@ -1,21 +1,64 @@
 /**
  * Main crawler using Crawlee
- * Phase 1: Basic HTTP crawling with deduplication and redirect handling
+ * HTTP crawling (Cheerio) with headless browser rendering (Playwright)
+ * for JS-heavy sites, plus deduplication and redirect handling
  */
 
-import { CheerioCrawler, RequestQueue } from 'crawlee';
-import { normalizeUrl } from './urlNormalizer';
-import { upsertPage, upsertUrlAlias, pageExists, getDomainOverride } from '../db/queries';
-import { CrawlOptions, CrawlStats } from '../types/crawl.types';
-import { CrawlerPageInsert, UrlAliasInsert } from '../types/database.types';
+import {
+  CheerioCrawler,
+  CheerioCrawlerOptions,
+  CheerioCrawlingContext,
+  GotScrapingHttpClient,
+  HttpRequest,
+  IRequestList,
+  IRequestManager,
+  PlaywrightCrawler,
+  PlaywrightCrawlerOptions,
+  PlaywrightCrawlingContext,
+  RedirectHandler,
+  Request,
+  RequestProvider,
+  RequestQueue,
+  StreamingHttpResponse,
+} from 'crawlee';
+import { chromium, firefox, webkit, Response as PlaywrightResponse } from 'playwright';
+import { normalizeUrl, extractDomain } from './urlNormalizer';
+import { createUrlScope } from './urlScope';
+import {
+  DomainThrottle,
+  createDomainThrottle,
+  delayForDomain,
+  recordDomainResponse,
+  releaseDomainSlot,
+  setDomainLimits,
+} from './politeness';
+import {
+  CrawlSession,
+  getSessionDomainOverride,
+  isBlockedByRobots,
+  isBrowserDomain,
+  planFetch,
+  processPage,
+  processFailedRequest,
+} from './pageProcessor';
+import { buildTranslationGroups } from './translationGroups';
+import { runLinkCheck } from './linkChecker';
+import { computeLinkMetrics } from './linkMetrics';
+import { getCrawlRunProgress, resolveCanonicalTargets, resolveLinkTargets } from '../db/queries';
+import { CrawlOptions, CrawlStats, ResponseMetrics } from '../types/crawl.types';
+import { FetchMode, RedirectHop } from '../types/database.types';
+import { detectClientRedirect } from '../extraction/redirectDetector';
 import { logger } from '../utils/logger';
-import { DEFAULT_CONCURRENCY, DEFAULT_REQUEST_TIMEOUT_SECS, USER_AGENT } from '../config/constants';
-import { extractContent, calculateJunkScore } from '../extraction/contentExtractor';
-import { htmlToEnhancedMarkdown } from '../extraction/enhancedMarkdownConverter';
-import { extractNavStructure } from '../extraction/navExtractor';
-import { extractMetadata } from '../parsers/metadataExtractor';
-import { extractDomain } from './urlNormalizer';
-import { hashHtmlContent } from '../utils/hash';
+import {
+  DEFAULT_CONCURRENCY,
+  DEFAULT_REQUEST_TIMEOUT_SECS,
+  DEFAULT_FETCH_MODE,
+  PLAYWRIGHT_CONCURRENCY,
+  PLAYWRIGHT_NAVIGATION_TIMEOUT_SECS,
+  PLAYWRIGHT_HEADLESS,
+  PLAYWRIGHT_BROWSER,
+  USER_AGENT,
+} from '../config/constants';
 import { SitemapUrl } from '../parsers/sitemapParser';
 
 /**
@@ -28,20 +71,28 @@ import { SitemapUrl } from '../parsers/sitemapParser';
 export async function runCrawl(urls: SitemapUrl[], options: CrawlOptions): Promise<CrawlStats> {
   const stats: CrawlStats = {
     urlsDiscovered: urls.length,
+    linksDiscovered: 0,
     pagesCrawled: 0,
     pagesSkipped: 0,
+    pagesUnchanged: 0,
     redirects: 0,
+    redirectLoops: 0,
+    canonicalAliases: 0,
     errors: 0,
+    browserFallbacks: 0,
+    soft404s: 0,
+    blockedByRobots: 0,
+    throttledResponses: 0,
+    domainWaitMs: {},
     startTime: new Date(),
   };
 
   logger.info({ runId: options.runId, totalUrls: urls.length }, 'Starting crawl');
 
-  // Create request queue
-  const requestQueue = await RequestQueue.open();
-
-  // Track processed URLs to avoid duplicates in queue
-  const queuedUrls = new Set<string>();
+  // One named request queue per fetch mode and run: named queues persist on disk,
+  // so an interrupted run can pick up where it stopped and runs never share a queue
+  const cheerioQueue = await RequestQueue.open(`cheerio-${options.runId}`);
+  const playwrightQueue = await RequestQueue.open(`playwright-${options.runId}`);
 
   // Create sitemap typeHint lookup map for redirect validation
   // Maps normalized URL -> typeHint from sitemap
@@ -51,6 +102,45 @@ export async function runCrawl(urls: SitemapUrl[], options: CrawlOptions): Promi
     sitemapTypeHintLookup.set(normalized, urlEntry.typeHint || null);
   }
 
+  const session: CrawlSession = {
+    options,
+    stats,
+    sitemapTypeHintLookup,
+    // Track processed URLs to avoid duplicates in queue
+    queuedUrls: new Set<string>(),
+    urlScope: options.discover ? createUrlScope(urls.map(entry => entry.normalizedUrl), options) : null,
+    domainOverrides: new Map(),
+    jsRenderedDomains: new Map(),
+    robots: new Map(),
+    throttle: createDomainThrottle(),
+    missingPageProbes: new Map(),
+    enqueue: async (request, fetchMode) => {
+      const domain = extractDomain(request.url);
+      setDomainLimits(session.throttle, domain, await getSessionDomainOverride(session, domain));
+
+      // Per-domain override wins over the run default
+      const mode = fetchMode || (await resolveFetchMode(request.url, session));
+      const requestQueue = mode === 'playwright' ? playwrightQueue : cheerioQueue;
+      await requestQueue.addRequest(request);
+    },
+  };
+  const { queuedUrls } = session;
+
+  // Resuming: count what the run already stored and never queue those URLs again
+  if (options.resume) {
+    const progress = await getCrawlRunProgress(options.runId);
+    stats.pagesCrawled = progress.pagesCrawled;
+    stats.redirects = progress.redirects;
+    stats.errors = progress.errors;
+    stats.blockedByRobots = progress.blockedByRobots;
+    progress.urls.forEach(url => queuedUrls.add(url));
+
+    logger.info(
+      { runId: options.runId, storedUrls: progress.urls.length, pagesCrawled: progress.pagesCrawled },
+      'Resuming crawl run'
+    );
+  }
+
   // Enqueue all URLs with normalization and type hints
   for (const urlEntry of urls) {
     try {
@@ -61,250 +151,494 @@ export async function runCrawl(urls: SitemapUrl[], options: CrawlOptions): Promi
         continue;
       }
 
-      // Check if already crawled (deduplication)
-      if (!options.recrawl && (await pageExists(normalized))) {
-        logger.debug({ url: normalized }, 'Skipping already crawled page');
-        stats.pagesSkipped++;
-        continue;
-      }
-
-      await requestQueue.addRequest({
-        url: normalized,
-        userData: {
-          originalUrl: urlEntry.url,
-          sitemapTypeHint: urlEntry.typeHint,
-        },
-      });
+      // Skip already crawled / unchanged pages (deduplication, incremental mode)
+      const fetchPlan = await planFetch(normalized, urlEntry.lastmod, session);
+      if (!fetchPlan) continue;
+
+      const userData = {
+        originalUrl: urlEntry.url,
+        sitemapTypeHint: urlEntry.typeHint,
+        sitemapHreflang: urlEntry.hreflang,
+        discoveredVia: 'sitemap',
+        depth: 0,
+        ...fetchPlan,
+      };
 
       queuedUrls.add(normalized);
+
+      if (await isBlockedByRobots(normalized, userData, session)) continue;
+
+      await session.enqueue({ url: normalized, userData });
     } catch (error) {
       logger.warn({ url: urlEntry.normalizedUrl, error: (error as Error).message }, 'Failed to enqueue URL');
     }
   }
 
-  // Create Cheerio crawler
-  const crawler = new CheerioCrawler({
-    requestQueue,
-    maxConcurrency: DEFAULT_CONCURRENCY,
-    requestHandlerTimeoutSecs: DEFAULT_REQUEST_TIMEOUT_SECS,
-    maxRequestsPerCrawl: options.maxPages,
+  // Run the HTTP crawler first, then render whatever needs a browser
+  // (forced domains plus pages that looked JS-rendered to Cheerio).
+  // Repeat until both queues drain: rendered pages can discover new HTTP pages
+  while (remainingBudget(session) !== 0) {
+    const cheerioPending = !(await cheerioQueue.isEmpty());
+    const playwrightPending = !(await playwrightQueue.isEmpty());
+    if (!cheerioPending && !playwrightPending) break;
 
-    requestHandler: async ({ request, response, body }) => {
-      const requestedUrl = request.userData.originalUrl || request.loadedUrl || request.url;
-      const finalUrl = normalizeUrl(request.loadedUrl || request.url);
-      const statusCode = response?.statusCode || 0;
-      let sitemapTypeHint = request.userData.sitemapTypeHint as string | null | undefined;
-
-      logger.info({ url: finalUrl, statusCode }, 'Page crawled');
-
-      // Build redirect chain
-      const redirectChain: string[] = [];
-      if (requestedUrl !== finalUrl) {
-        redirectChain.push(requestedUrl);
-        redirectChain.push(finalUrl);
-
-        // CRITICAL FIX: Re-check typeHint for final_url after redirect
-        // If final_url exists in sitemap with different typeHint, use that instead
-        // Example: /old-url (post) → /new-url (page) should use 'page', not 'post'
-        if (sitemapTypeHintLookup.has(finalUrl)) {
-          const finalUrlTypeHint = sitemapTypeHintLookup.get(finalUrl);
-          if (finalUrlTypeHint && finalUrlTypeHint !== sitemapTypeHint) {
-            logger.info(
-              {
-                finalUrl,
-                requestedUrl,
-                originalTypeHint: sitemapTypeHint,
-                finalTypeHint: finalUrlTypeHint,
-              },
-              'Redirect detected - using final URL typeHint from sitemap'
-            );
-            sitemapTypeHint = finalUrlTypeHint;
-          }
-        }
-      }
+    const handledBefore = (await cheerioQueue.handledCount()) + (await playwrightQueue.handledCount());
 
-      // Determine crawl status
-      let crawlStatus: 'OK' | 'NOT_FOUND' | 'ERROR' = 'OK';
-      if (statusCode === 404 || statusCode === 410) {
-        crawlStatus = 'NOT_FOUND';
-      } else if (statusCode >= 400) {
-        crawlStatus = 'ERROR';
-      }
+    if (cheerioPending) {
+      logger.info('Starting Crawlee crawler (cheerio)');
+      const maxRequests = await crawlRequestLimit(cheerioQueue, remainingBudget(session));
+      await createCheerioCrawler(cheerioQueue, session, maxRequests).run();
+    }
 
-      // Convert body to string if it's a Buffer
-      const htmlContent = typeof body === 'string' ? body : body.toString('utf-8');
+    if (remainingBudget(session) !== 0 && !(await playwrightQueue.isEmpty())) {
+      logger.info({ browser: PLAYWRIGHT_BROWSER }, 'Starting Crawlee crawler (playwright)');
+      const maxRequests = await crawlRequestLimit(playwrightQueue, remainingBudget(session));
+      await createPlaywrightCrawler(playwrightQueue, session, maxRequests).run();
+    }
 
-      // Extract metadata
-      const metadata = extractMetadata(htmlContent, finalUrl);
+    // Requests left in a queue that no crawler would take: another pass would spin forever
+    const handledAfter = (await cheerioQueue.handledCount()) + (await playwrightQueue.handledCount());
+    if (handledAfter === handledBefore) {
+      logger.warn({ runId: options.runId }, 'Crawl pass handled no requests - stopping with requests still queued');
+      break;
+    }
+  }
 
-      // Get domain-specific overrides
-      const domain = extractDomain(finalUrl);
-      const domainOverride = await getDomainOverride(domain);
+  // Canonical targets are crawled by now: flag canonicals that redirect or are missing
+  try {
+    const canonicals = await resolveCanonicalTargets(options.runId);
+    logger.info(canonicals, 'Canonical targets resolved');
+  } catch (error) {
+    logger.error({ error: (error as Error).message }, 'Failed to resolve canonical targets');
+  }
 
-      // Extract content
-      const extraction = extractContent(
-        htmlContent,
-        finalUrl,
-        domainOverride?.main_content_selectors || undefined,
-        domainOverride?.remove_selectors || undefined
-      );
+  // Every page is stored by now: link hreflang translations and validate them
+  const hosts = [...new Set([...queuedUrls].map(url => new URL(url).hostname))];
+  try {
+    const translations = await buildTranslationGroups(hosts, options.runId);
+    logger.info(translations, 'Translation groups built');
+  } catch (error) {
+    logger.error({ error: (error as Error).message }, 'Failed to build translation groups');
+  }
 
-      // Convert to Enhanced Markdown with structural markers
-      const enhancedResult = extraction.success
-        ? htmlToEnhancedMarkdown(extraction.cleanHtml, finalUrl, metadata.h1, true)
-        : null;
+  // Link targets outside the crawl get a HEAD request of their own
+  if (options.checkLinks || options.checkExternalLinks) {
+    try {
+      const linkCheck = await runLinkCheck(hosts, {
+        external: !!options.checkExternalLinks,
+        ignoreRobots: !!options.ignoreRobots,
+      });
+      logger.info(linkCheck, 'Link targets checked');
+    } catch (error) {
+      logger.error({ error: (error as Error).message }, 'Failed to check link targets');
+    }
+  }
 
-      // plainMarkdown = clean markdown for LLM/RAG use (existing `markdown` field)
-      // markdown = enhanced markdown with STRUCT markers for link classification
-      const markdown = enhancedResult?.plainMarkdown || '';
-      const markdownEnhanced = enhancedResult?.markdown || '';
-      const structuralStats = enhancedResult?.detection.stats || null;
+  // Resolve where links lead (final URL and status of each target)
+  try {
+    const resolvedLinks = await resolveLinkTargets(hosts);
+    logger.info({ resolvedLinks }, 'Link targets resolved');
+  } catch (error) {
+    logger.error({ error: (error as Error).message }, 'Failed to resolve link targets');
+  }
 
-      // Calculate content hash
-      const contentHash = hashHtmlContent(extraction.cleanHtml || htmlContent);
+  // ...which the internal PageRank and click depths of this run are computed from
+  try {
+    const linkMetrics = await computeLinkMetrics(hosts, options.runId);
+    logger.info(linkMetrics, 'Link metrics computed');
+  } catch (error) {
+    logger.error({ error: (error as Error).message }, 'Failed to compute link metrics');
+  }
 
-      // Calculate junk score
-      const junkScore = calculateJunkScore(extraction.cleanHtml || htmlContent);
+  // Finished: the queues are no longer needed for --resume
+  await cheerioQueue.drop();
+  await playwrightQueue.drop();
 
-      // Extract navigation structure from raw HTML (before cleaning)
-      const navStructure = extractNavStructure(htmlContent, finalUrl);
+  // Calculate final stats
+  stats.domainWaitMs = Object.fromEntries(session.throttle.waitMs);
+  stats.endTime = new Date();
+  stats.durationMs = stats.endTime.getTime() - stats.startTime.getTime();
 
-      logger.debug(
-        {
-          url: finalUrl,
-          extractionMethod: extraction.extractionMethod,
-          wordCount: extraction.wordCount,
-          markdownLength: markdown.length,
-          markdownEnhancedLength: markdownEnhanced.length,
-          structuralStats: structuralStats,
-          navItems: navStructure.primary_nav.length,
-        },
-        'Content extracted'
-      );
+  logger.info(
+    {
+      runId: options.runId,
+      stats,
+      durationSec: Math.round(stats.durationMs / 1000),
+    },
+    'Crawl completed'
+  );
 
-      // Store page data
-      const pageData: CrawlerPageInsert = {
-        final_url: finalUrl,
-        requested_url_original: requestedUrl,
-        status_code: statusCode,
-        crawl_status: crawlStatus,
-        redirect_chain: redirectChain.length > 0 ? redirectChain : undefined,
-        html_content: htmlContent,
-        clean_html: extraction.cleanHtml,
-        markdown: markdown,
-        markdown_enhanced: markdownEnhanced,
-        structural_stats: structuralStats || undefined,
-        nav_structure: navStructure,
-        title: metadata.title || undefined,
-        h1: metadata.h1 || undefined,
-        meta_description: metadata.metaDescription || undefined,
-        word_count: extraction.wordCount,
-        content_hash: contentHash,
-        fetch_mode: 'cheerio',
-        extraction_method: extraction.extractionMethod,
-        junk_score: junkScore,
-        sitemap_type_hint: sitemapTypeHint || undefined,
-        run_id: options.runId,
-      };
+  return stats;
+}
 
-      try {
-        await upsertPage(pageData);
-        stats.pagesCrawled++;
-      } catch (error) {
-        logger.error(
-          { url: finalUrl, error: (error as Error).message },
-          'Failed to save page'
-        );
-        stats.errors++;
-      }
+/**
+ * Decide which crawler fetches a URL
+ * Priority: domain_overrides.force_fetch_mode > learned browser domain > run default
+ */
+async function resolveFetchMode(url: string, session: CrawlSession): Promise<FetchMode> {
+  const domain = extractDomain(url);
+  const domainOverride = await getSessionDomainOverride(session, domain);
+  if (domainOverride?.force_fetch_mode) return domainOverride.force_fetch_mode;
+  if (isBrowserDomain(session, domain)) return 'playwright';
+  return session.options.fetchMode || DEFAULT_FETCH_MODE;
+}
 
-      // Store URL alias if redirect occurred
-      if (redirectChain.length > 0) {
-        const aliasData: UrlAliasInsert = {
-          requested_url: requestedUrl,
-          final_url: finalUrl,
-          status_code: statusCode,
-          redirect_chain: redirectChain,
-          run_id: options.runId,
-        };
+/**
+ * Flatten Node response headers (repeated headers joined with ", ")
+ */
+function flattenHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    flat[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return flat;
+}
 
-        try {
-          await upsertUrlAlias(aliasData);
-          stats.redirects++;
-        } catch (error) {
-          logger.error(
-            { url: requestedUrl, error: (error as Error).message },
-            'Failed to save URL alias'
-          );
-        }
+/**
+ * Timings got records on its request stream (the Cheerio crawler's response)
+ */
+interface GotTimings {
+  start: number;
+  response?: number;
+  end?: number;
+}
+
+/**
+ * TTFB and download time of a Cheerio response
+ */
+function httpTimings(response: object | undefined): { ttfbMs: number | null; downloadMs: number | null } {
+  const timings = (response as { timings?: GotTimings } | undefined)?.timings;
+  if (!timings) return { ttfbMs: null, downloadMs: null };
+
+  return {
+    ttfbMs: timings.response !== undefined ? Math.round(timings.response - timings.start) : null,
+    downloadMs: timings.end !== undefined ? Math.round(timings.end - timings.start) : null,
+  };
+}
+
+/**
+ * TTFB, download time and size of the browser's navigation response
+ * (Resource Timing values are relative to the request start; -1 = not available)
+ */
+async function browserMetrics(response: PlaywrightResponse | null | undefined): Promise<ResponseMetrics> {
+  if (!response) return { ttfbMs: null, downloadMs: null, contentBytes: null };
+
+  const timing = response.request().timing();
+  const body = await response.body().catch(() => null);
+
+  return {
+    ttfbMs: timing.responseStart >= 0 ? Math.round(timing.responseStart) : null,
+    downloadMs: timing.responseEnd >= 0 ? Math.round(timing.responseEnd) : null,
+    contentBytes: body ? body.length : null,
+  };
+}
+
+/**
+ * Number of requests still allowed by --max-pages
+ */
+function remainingBudget(session: CrawlSession): number | undefined {
+  const { maxPages } = session.options;
+  if (!maxPages) return undefined;
+  return Math.max(maxPages - session.stats.pagesCrawled - session.stats.errors, 0);
+}
+
+/**
+ * maxRequestsPerCrawl for a crawler on this queue: Crawlee counts every request
+ * the queue has handled so far (earlier passes, the interrupted run being resumed)
+ * against the limit, so the budget goes on top of that count
+ */
+export async function crawlRequestLimit(
+  requestQueue: RequestQueue,
+  budget: number | undefined
+): Promise<number | undefined> {
+  if (budget === undefined) return undefined;
+  return budget + (await requestQueue.handledCount());
+}
+
+/**
+ * HTTP redirects followed by the Cheerio crawler, keyed by the response stream
+ * handed to the request handler (or by the error when the request failed)
+ */
+const redirectHopsByResponse = new WeakMap<object, RedirectHop[]>();
+
+/**
+ * got-scraping client that records every HTTP redirect it follows
+ */
+class RedirectRecordingHttpClient extends GotScrapingHttpClient {
+  override async stream(request: HttpRequest, onRedirect?: RedirectHandler): Promise<StreamingHttpResponse> {
+    const hops: RedirectHop[] = [];
+
+    try {
+      const response = await super.stream(request, (redirectResponse, updatedRequest) => {
+        hops.push({
+          url: redirectResponse.url,
+          status_code: redirectResponse.statusCode,
+          redirect_type: 'http',
+          target: updatedRequest.url ? String(updatedRequest.url) : null,
+        });
+        onRedirect?.(redirectResponse, updatedRequest);
+      });
+      redirectHopsByResponse.set(response.stream, hops);
+      return response;
+    } catch (error) {
+      // Too many redirects (e.g. a loop): keep the hops for the failed request
+      if (error && typeof error === 'object') {
+        redirectHopsByResponse.set(error, hops);
       }
+      throw error;
+    }
+  }
+}
 
-      // Progress logging
-      if (stats.pagesCrawled % 10 === 0) {
-        logger.info(
-          {
-            crawled: stats.pagesCrawled,
-            skipped: stats.pagesSkipped,
-            redirects: stats.redirects,
-            errors: stats.errors,
-          },
-          'Crawl progress'
-        );
+/**
+ * Redirects the browser followed before the final page: HTTP redirects of the
+ * navigation, then a client-side redirect (meta refresh / JavaScript) if the
+ * page moved on after loading. Several client-side redirects in a row show up
+ * as one hop from the first document to the final URL.
+ *
+ * @param response - Navigation response
+ * @param finalUrl - URL the page ended on
+ * @returns Redirect hops in order
+ */
+async function browserRedirectHops(
+  response: PlaywrightResponse | null | undefined,
+  finalUrl: string
+): Promise<RedirectHop[]> {
+  if (!response) return [];
+
+  const hops: RedirectHop[] = [];
+  let request = response.request().redirectedFrom();
+  while (request) {
+    const redirectResponse = await request.response();
+    hops.unshift({
+      url: request.url(),
+      status_code: redirectResponse?.status() || 0,
+      redirect_type: 'http',
+      target: request.redirectedTo()?.url() || null,
+    });
+    request = request.redirectedFrom();
+  }
+
+  if (response.url() !== finalUrl) {
+    // The first document's body tells meta refresh from JavaScript (when still available)
+    const body = await response.text().catch(() => '');
+    hops.push({
+      url: response.url(),
+      status_code: response.status(),
+      redirect_type: detectClientRedirect(body, response.url(), 0)?.type || 'javascript',
+      target: finalUrl,
+    });
+  }
+
+  return hops;
+}
+
+/**
+ * Cheerio crawler with per-domain politeness (spacing, concurrency caps, backoff)
+ * Requests whose domain is not ready are parked and reclaimed to the queue;
+ * the domain slot is released once the request has finished
+ */
+class PoliteCheerioCrawler extends CheerioCrawler {
+  constructor(options: CheerioCrawlerOptions, private readonly throttle: DomainThrottle) {
+    super(options);
+
+    // 304 Not Modified carries no Content-Type, which Crawlee would reject as
+    // non-HTML before the request handler sees it
+    this.postNavigationHooks.unshift(async ({ response }) => {
+      if (response?.statusCode === 304 && !response.headers['content-type']) {
+        response.headers['content-type'] = 'text/html';
       }
-    },
+    });
+  }
 
-    failedRequestHandler: async ({ request }, error) => {
-      const url = request.url;
-      logger.error({ url, error: error.message }, 'Request failed');
-
-      // Store failed request
-      const pageData: CrawlerPageInsert = {
-        final_url: normalizeUrl(url),
-        requested_url_original: url,
-        crawl_status: 'ERROR',
-        last_error: error.message,
-        run_id: options.runId,
-      };
+  protected override delayRequest(
+    request: Request,
+    source: IRequestList | RequestProvider | IRequestManager
+  ): boolean {
+    return delayForDomain(this.throttle, request, source) || super.delayRequest(request, source);
+  }
+
+  protected override async _cleanupContext(context: CheerioCrawlingContext): Promise<void> {
+    releaseDomainSlot(this.throttle, extractDomain(context.request.url));
+    await super._cleanupContext(context);
+  }
+}
+
+/**
+ * Playwright crawler with per-domain politeness (see PoliteCheerioCrawler)
+ */
+class PolitePlaywrightCrawler extends PlaywrightCrawler {
+  constructor(options: PlaywrightCrawlerOptions, private readonly throttle: DomainThrottle) {
+    super(options);
+  }
+
+  protected override delayRequest(
+    request: Request,
+    source: IRequestList | RequestProvider | IRequestManager
+  ): boolean {
+    return delayForDomain(this.throttle, request, source) || super.delayRequest(request, source);
+  }
 
-      try {
-        await upsertPage(pageData);
-      } catch (saveError) {
-        logger.error(
-          { url, error: (saveError as Error).message },
-          'Failed to save error page'
-        );
+  protected override async _cleanupContext(context: PlaywrightCrawlingContext): Promise<void> {
+    releaseDomainSlot(this.throttle, extractDomain(context.request.url));
+    await super._cleanupContext(context);
+  }
+}
+
+/**
+ * Back off the domain on 429/503 and fail the attempt so Crawlee retries it
+ * (the retry is parked until the backoff expires)
+ */
+function checkThrottledResponse(
+  session: CrawlSession,
+  url: string,
+  statusCode: number | undefined,
+  retryAfter: string | null | undefined
+): void {
+  if (!statusCode) return;
+
+  const backoffMs = recordDomainResponse(session.throttle, url, statusCode, retryAfter);
+  if (backoffMs > 0) {
+    session.stats.throttledResponses++;
+    throw new Error(`HTTP ${statusCode} - domain throttled, retrying after ${Math.round(backoffMs / 1000)}s`);
+  }
+}
+
+/**
+ * Create the HTTP crawler (fast, no JavaScript execution)
+ */
+function createCheerioCrawler(
+  requestQueue: RequestQueue,
+  session: CrawlSession,
+  maxRequestsPerCrawl: number | undefined
+): CheerioCrawler {
+  return new PoliteCheerioCrawler({
+    requestQueue,
+    maxConcurrency: DEFAULT_CONCURRENCY,
+    requestHandlerTimeoutSecs: DEFAULT_REQUEST_TIMEOUT_SECS,
+    maxRequestsPerCrawl,
+    httpClient: new RedirectRecordingHttpClient(),
+
+    requestHandler: async ({ request, response, body }) => {
+      // Domain was learned to be JS-rendered after this request was queued:
+      // hand it to the browser without processing the HTTP response
+      if (isBrowserDomain(session, extractDomain(request.url))) {
+        await session.enqueue({ url: request.url, userData: request.userData }, 'playwright');
+        return;
       }
 
-      stats.errors++;
+      await processPage(
+        {
+          url: request.url,
+          requestedUrl: request.userData.originalUrl || request.loadedUrl || request.url,
+          loadedUrl: request.loadedUrl || request.url,
+          statusCode: response?.statusCode || 0,
+          redirectHops: (response && redirectHopsByResponse.get(response)) || [],
+          headers: flattenHeaders(response?.headers || {}),
+          metrics: {
+            ...httpTimings(response),
+            contentBytes: Buffer.byteLength(body),
+          },
+          // Convert body to string if it's a Buffer
+          html: typeof body === 'string' ? body : body.toString('utf-8'),
+          fetchMode: 'cheerio',
+          userData: request.userData,
+        },
+        session
+      );
+    },
+
+    failedRequestHandler: async ({ request }, error) => {
+      const redirectHops = redirectHopsByResponse.get(error) || [];
+      await processFailedRequest(request.url, request.userData, error, 'cheerio', session, redirectHops);
     },
 
-    // Use custom user agent
+    // Use custom user agent; conditional request when validators are stored (incremental mode)
     preNavigationHooks: [
-      async (_, req) => {
+      async ({ request }, req) => {
+        const previous = request.userData.previous;
         req.headers = {
           ...req.headers,
           'User-Agent': USER_AGENT,
+          ...(previous?.etag ? { 'If-None-Match': previous.etag } : {}),
+          ...(previous?.lastModified ? { 'If-Modified-Since': previous.lastModified } : {}),
         };
       },
     ],
-  });
 
-  // Run the crawler
-  logger.info('Starting Crawlee crawler');
-  await crawler.run();
+    postNavigationHooks: [
+      async ({ request, response }) => {
+        const retryAfter = response?.headers['retry-after'];
+        checkThrottledResponse(session, request.url, response?.statusCode, retryAfter);
+      },
+    ],
+  }, session.throttle);
+}
 
-  // Calculate final stats
-  stats.endTime = new Date();
-  stats.durationMs = stats.endTime.getTime() - stats.startTime.getTime();
+/**
+ * Create the headless browser crawler (executes JavaScript before extraction)
+ */
+function createPlaywrightCrawler(
+  requestQueue: RequestQueue,
+  session: CrawlSession,
+  maxRequestsPerCrawl: number | undefined
+): PlaywrightCrawler {
+  const launchers = { chromium, firefox, webkit };
+  const launcher = launchers[PLAYWRIGHT_BROWSER as keyof typeof launchers] || chromium;
+
+  return new PolitePlaywrightCrawler({
+    requestQueue,
+    maxConcurrency: PLAYWRIGHT_CONCURRENCY,
+    requestHandlerTimeoutSecs: DEFAULT_REQUEST_TIMEOUT_SECS,
+    navigationTimeoutSecs: PLAYWRIGHT_NAVIGATION_TIMEOUT_SECS,
+    maxRequestsPerCrawl,
+    headless: PLAYWRIGHT_HEADLESS,
+    launchContext: {
+      launcher,
+      userAgent: USER_AGENT,
+    },
 
-  logger.info(
-    {
-      runId: options.runId,
-      stats,
-      durationSec: Math.round(stats.durationMs / 1000),
+    requestHandler: async ({ request, response, page }) => {
+      // Rendered DOM after client-side scripts have run
+      const html = await page.content();
+      const loadedUrl = request.loadedUrl || page.url();
+
+      await processPage(
+        {
+          url: request.url,
+          requestedUrl: request.userData.originalUrl || request.loadedUrl || request.url,
+          loadedUrl,
+          statusCode: response?.status() || 0,
+          redirectHops: await browserRedirectHops(response, loadedUrl),
+          headers: response?.headers() || {},
+          metrics: await browserMetrics(response),
+          html,
+          fetchMode: 'playwright',
+          userData: request.userData,
+        },
+        session
+      );
     },
-    'Crawl completed'
-  );
 
-  return stats;
+    failedRequestHandler: async ({ request }, error) => {
+      await processFailedRequest(request.url, request.userData, error, 'playwright', session);
+    },
+
+    // Wait for client-side rendering to settle before reading the DOM
+    preNavigationHooks: [
+      async (_, gotoOptions) => {
+        if (gotoOptions) {
+          gotoOptions.waitUntil = 'networkidle';
+        }
+      },
+    ],
+
+    postNavigationHooks: [
+      async ({ request, response }) => {
+        const retryAfter = response?.headers()['retry-after'];
+        checkThrottledResponse(session, request.url, response?.status(), retryAfter);
+      },
+    ],
+  }, session.throttle);
 }
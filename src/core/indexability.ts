@@ -0,0 +1,78 @@
+/**
+ * Indexability classification
+ * Combines crawl status (robots.txt, HTTP status, soft 404), robots directives
+ * and canonical into one stored verdict, so consumers do not have to guess
+ */
+
+import type {
+  CanonicalStatus,
+  CrawlStatus,
+  Indexability,
+  IndexabilityReason,
+  RobotsDirectives,
+} from '../types/database.types';
+
+/**
+ * Non-OK crawl statuses and the reason they make a page non-indexable
+ */
+const CRAWL_STATUS_REASONS: Partial<Record<CrawlStatus, IndexabilityReason>> = {
+  BLOCKED_ROBOTS: 'blocked_robots_txt',
+  REDIRECT_ALIAS: 'redirect',
+  NOT_FOUND: 'not_found',
+  SOFT_404: 'soft_404',
+  REDIRECT_LOOP: 'redirect_loop',
+  ERROR: 'error',
+};
+
+/**
+ * Canonical statuses naming another URL as the one to index
+ */
+const CANONICALIZED_STATUSES: CanonicalStatus[] = ['canonicalized', 'to_redirect', 'to_not_found', 'cross_domain'];
+
+/**
+ * Facts that decide indexability
+ */
+export interface IndexabilityInput {
+  crawlStatus: CrawlStatus;
+  directives?: RobotsDirectives | null;     // Effective robots directives
+  canonicalStatus?: CanonicalStatus | null;
+  crawledAt?: Date;                         // Reference time for unavailable_after (default: now)
+}
+
+/**
+ * Indexability verdict
+ */
+export interface IndexabilityResult {
+  indexability: Indexability;
+  reason: IndexabilityReason | null;  // null when indexable
+}
+
+/**
+ * Classify whether a search engine may index a page
+ *
+ * The first reason that applies wins: robots.txt / status, then noindex,
+ * then an expired unavailable_after, then a canonical naming another URL.
+ *
+ * @param input - Crawl status, directives and canonical status
+ * @returns Indexability and the reason when non-indexable
+ */
+export function classifyIndexability(input: IndexabilityInput): IndexabilityResult {
+  const statusReason = CRAWL_STATUS_REASONS[input.crawlStatus];
+  if (statusReason) return { indexability: 'non_indexable', reason: statusReason };
+
+  const directives = input.directives;
+  if (directives?.noindex) return { indexability: 'non_indexable', reason: 'noindex' };
+
+  if (directives?.unavailable_after) {
+    const unavailableAfter = Date.parse(directives.unavailable_after);
+    if (!isNaN(unavailableAfter) && unavailableAfter <= (input.crawledAt || new Date()).getTime()) {
+      return { indexability: 'non_indexable', reason: 'unavailable_after' };
+    }
+  }
+
+  if (input.canonicalStatus && CANONICALIZED_STATUSES.includes(input.canonicalStatus)) {
+    return { indexability: 'non_indexable', reason: 'canonicalized' };
+  }
+
+  return { indexability: 'indexable', reason: null };
+}
@@ -0,0 +1,247 @@
+/**
+ * Link checker
+ * Checks the link targets a crawl never fetched (URLs outside the sitemaps,
+ * optionally external links) with HEAD requests, so links to 404s and
+ * redirects show up in crawler_links like links to crawled pages
+ */
+
+import { setTimeout as sleep } from 'timers/promises';
+import { extractDomain, normalizeUrl } from './urlNormalizer';
+import {
+  DomainThrottle,
+  RobotsCache,
+  createDomainThrottle,
+  getRobotsRules,
+  recordDomainResponse,
+  releaseDomainSlot,
+  reserveDomainSlot,
+  setCrawlDelay,
+  setDomainLimits,
+} from './politeness';
+import { checkRobotsRules } from '../parsers/robotsParser';
+import { getDomainOverride, getLinkTargetsToCheck, upsertLinkCheck } from '../db/queries';
+import { LinkCheckInsert } from '../types/database.types';
+import { logger } from '../utils/logger';
+import {
+  LINK_CHECK_CACHE_HOURS,
+  LINK_CHECK_CONCURRENCY,
+  LINK_CHECK_EXTERNAL_MAX_REQUESTS_PER_MINUTE,
+  LINK_CHECK_MAX_ATTEMPTS,
+  LINK_CHECK_TIMEOUT_SECS,
+  USER_AGENT,
+} from '../config/constants';
+
+/**
+ * Statuses some servers answer HEAD with although GET works
+ */
+const HEAD_REJECTED_STATUS_CODES = new Set([403, 405, 501]);
+
+/**
+ * Link check options
+ */
+export interface LinkCheckOptions {
+  external: boolean;      // Also check links to other hosts
+  ignoreRobots: boolean;  // Skip robots.txt rules and Crawl-delay
+}
+
+/**
+ * Outcome of a link check phase
+ */
+export interface LinkCheckSummary {
+  targets: number;          // Targets not fetched by the crawl and not checked recently
+  checked: number;
+  broken: number;           // 4xx / 5xx
+  redirected: number;
+  failed: number;           // No response (DNS, TLS, timeout, redirect loop)
+  blockedByRobots: number;  // Not requested: robots.txt disallows them
+}
+
+/**
+ * Request a URL without downloading its body
+ */
+async function requestStatus(url: string, method: 'HEAD' | 'GET'): Promise<Response> {
+  const response = await fetch(url, {
+    method,
+    redirect: 'follow',
+    headers: {
+      'User-Agent': USER_AGENT,
+    },
+    signal: AbortSignal.timeout(LINK_CHECK_TIMEOUT_SECS * 1000),
+  });
+  await response.body?.cancel();
+  return response;
+}
+
+/**
+ * Check one URL: HEAD, then GET when the server rejects HEAD
+ *
+ * @param url - Normalized link target
+ * @returns Check result, and the Retry-After header for backoff
+ */
+async function checkLink(url: string): Promise<{ check: LinkCheckInsert; retryAfter: string | null }> {
+  const startedAt = Date.now();
+  let method: 'HEAD' | 'GET' = 'HEAD';
+
+  try {
+    let response = await requestStatus(url, method);
+    if (HEAD_REJECTED_STATUS_CODES.has(response.status)) {
+      method = 'GET';
+      response = await requestStatus(url, method);
+    }
+
+    return {
+      check: {
+        url,
+        status_code: response.status,
+        final_url: response.url ? normalizeUrl(response.url) : url,
+        method,
+        error: null,
+        response_ms: Date.now() - startedAt,
+      },
+      retryAfter: response.headers.get('retry-after'),
+    };
+  } catch (error) {
+    // fetch reports DNS, TLS and redirect errors as "fetch failed" with the reason as cause
+    const cause = (error as Error & { cause?: Error }).cause;
+    return {
+      check: {
+        url,
+        status_code: null,
+        final_url: null,
+        method,
+        error: cause?.message || (error as Error).message,
+        response_ms: null,
+      },
+      retryAfter: null,
+    };
+  }
+}
+
+/**
+ * Apply a domain's rate limits: domain_overrides for the crawled sites,
+ * a fixed cap for external hosts without an override
+ */
+async function applyDomainLimits(throttle: DomainThrottle, domain: string, external: boolean): Promise<void> {
+  const override = await getDomainOverride(domain);
+  setDomainLimits(throttle, domain, override);
+
+  if (external && !override?.max_requests_per_minute) {
+    const intervalMs = Math.round(60000 / LINK_CHECK_EXTERNAL_MAX_REQUESTS_PER_MINUTE);
+    throttle.requestIntervalMs.set(domain, Math.max(throttle.requestIntervalMs.get(domain) || 0, intervalMs));
+  }
+}
+
+/**
+ * Check the link targets of the given hosts that the crawl never fetched
+ *
+ * Targets are queued per domain and requested through the crawl's per-domain
+ * throttle (concurrency cap, request spacing, Crawl-delay, 429/503 backoff).
+ * Targets checked within LINK_CHECK_CACHE_HOURS are not requested again;
+ * results go to link_checks, for resolveLinkTargets to pick up.
+ *
+ * @param hosts - Hosts whose pages' links are checked (empty = every stored link)
+ * @param options - Link check options
+ * @returns Counts of checked targets per outcome
+ */
+export async function runLinkCheck(hosts: string[], options: LinkCheckOptions): Promise<LinkCheckSummary> {
+  const targets = await getLinkTargetsToCheck(hosts, options.external, LINK_CHECK_CACHE_HOURS);
+  const summary: LinkCheckSummary = {
+    targets: targets.length,
+    checked: 0,
+    broken: 0,
+    redirected: 0,
+    failed: 0,
+    blockedByRobots: 0,
+  };
+  if (targets.length === 0) return summary;
+
+  const throttle = createDomainThrottle();
+  const robots: RobotsCache = new Map();
+  const queues = new Map<string, string[]>();  // domain -> targets left to request
+  const internalDomains = new Set(targets.filter(target => !target.is_external).map(target => extractDomain(target.url)));
+
+  for (const { url } of targets) {
+    const domain = extractDomain(url);
+
+    if (!options.ignoreRobots) {
+      const rules = await getRobotsRules(robots, url);
+      if (rules.crawlDelaySecs) setCrawlDelay(throttle, domain, rules.crawlDelaySecs);
+      if (!checkRobotsRules(rules, url).allowed) {
+        summary.blockedByRobots++;
+        continue;
+      }
+    }
+
+    if (!queues.has(domain)) {
+      queues.set(domain, []);
+      await applyDomainLimits(throttle, domain, !internalDomains.has(domain));
+    }
+    queues.get(domain)!.push(url);
+  }
+
+  logger.info(
+    { targets: targets.length, domains: queues.size, blockedByRobots: summary.blockedByRobots },
+    '🔗 Checking link targets'
+  );
+
+  const attempts = new Map<string, number>();
+
+  // Next target whose domain has a free slot, else how long until one may
+  const nextTarget = (): { url: string; domain: string } | number | null => {
+    let waitMs = Infinity;
+    for (const [domain, urls] of queues) {
+      if (urls.length === 0) continue;
+      const wait = reserveDomainSlot(throttle, domain);
+      if (wait === 0) return { url: urls.shift()!, domain };
+      waitMs = Math.min(waitMs, wait);
+    }
+    return waitMs === Infinity ? null : waitMs;
+  };
+
+  const checkTarget = async (url: string, domain: string): Promise<void> => {
+    const { check, retryAfter } = await checkLink(url);
+
+    // Throttled: back the domain off and try again later
+    if (check.status_code !== null && recordDomainResponse(throttle, url, check.status_code, retryAfter) > 0) {
+      const attempt = (attempts.get(url) || 1) + 1;
+      if (attempt <= LINK_CHECK_MAX_ATTEMPTS) {
+        attempts.set(url, attempt);
+        queues.get(domain)!.push(url);
+        return;
+      }
+    }
+
+    try {
+      await upsertLinkCheck(check);
+    } catch (error) {
+      logger.error({ url, error: (error as Error).message }, 'Failed to store link check');
+      return;
+    }
+
+    summary.checked++;
+    if (check.error) summary.failed++;
+    else if (check.status_code! >= 400) summary.broken++;
+    else if (check.final_url !== url) summary.redirected++;
+    logger.debug({ url, status: check.status_code, finalUrl: check.final_url, error: check.error }, 'Link checked');
+  };
+
+  const worker = async (): Promise<void> => {
+    while (true) {
+      const next = nextTarget();
+      if (next === null) return;
+      if (typeof next === 'number') {
+        await sleep(next);
+        continue;
+      }
+
+      try {
+        await checkTarget(next.url, next.domain);
+      } finally {
+        releaseDomainSlot(throttle, next.domain);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: LINK_CHECK_CONCURRENCY }, () => worker()));
+  return summary;
+}
@@ -0,0 +1,88 @@
+/**
+ * Link graph
+ * Turns a page's nav_structure into crawler_links edges, so "which pages
+ * link to X" is an indexed lookup instead of a JSON scan of every page
+ */
+
+import { normalizeUrl } from './urlNormalizer';
+import type { PageLink } from '../types/database.types';
+import type { LinkSourceType, NavItem, NavStructure } from '../types/navigation.types';
+
+// rel values that tell search engines not to pass signals through a link
+const NOFOLLOW_RELS = ['nofollow', 'sponsored', 'ugc'];
+
+/**
+ * Build an edge, or null when the target is not a crawlable URL (tel:, mailto:, '#')
+ */
+function createEdge(
+  sourceUrl: string,
+  href: string,
+  fields: Pick<PageLink, 'anchor_text' | 'source_type'> & Partial<PageLink>,
+  rel: string[] = []
+): PageLink | null {
+  let target: URL;
+  let targetUrl: string;
+  try {
+    target = new URL(href, sourceUrl);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') return null;
+    targetUrl = normalizeUrl(target.toString());
+  } catch {
+    return null;
+  }
+
+  return {
+    target_url: targetUrl,
+    anchor_text: fields.anchor_text.slice(0, 500),
+    source_type: fields.source_type,
+    nearest_heading: fields.nearest_heading ? fields.nearest_heading.slice(0, 500) : null,
+    body_position_pct: fields.body_position_pct ?? null,
+    rel,
+    nofollow: rel.some(value => NOFOLLOW_RELS.includes(value)),
+    is_external: target.hostname !== new URL(sourceUrl).hostname,
+  };
+}
+
+/**
+ * Edges of a navigation cluster (parent items without a page use '#')
+ */
+function navEdges(sourceUrl: string, items: NavItem[], sourceType: LinkSourceType): PageLink[] {
+  return items
+    .filter(item => item.url !== '#')
+    .map(item => createEdge(sourceUrl, item.url, { anchor_text: item.label, source_type: sourceType }, item.rel))
+    .filter((edge): edge is PageLink => edge !== null);
+}
+
+/**
+ * Build the outgoing links of a page
+ *
+ * Content links keep their structural source type; primary nav, footer nav
+ * and breadcrumb links become primary_nav, footer and breadcrumb edges.
+ * Utility header (tel, mailto, social) and language switcher links are left
+ * out: the first are not pages, the second are covered by hreflang.
+ *
+ * @param sourceUrl - Final URL of the linking page
+ * @param nav - The page's navigation structure (see extractNavStructure)
+ * @returns Edges in nav_structure order (content, primary nav, footer, breadcrumb)
+ */
+export function buildLinkEdges(sourceUrl: string, nav: NavStructure): PageLink[] {
+  const contentEdges = nav.content_links
+    .map(link => createEdge(sourceUrl, link.url, {
+      anchor_text: link.label,
+      source_type: link.source_type,
+      nearest_heading: link.nearest_heading,
+      body_position_pct: link.body_position_pct,
+    }, link.rel))
+    .filter((edge): edge is PageLink => edge !== null);
+
+  const breadcrumbEdges = nav.breadcrumb
+    .filter(item => item.url)
+    .map(item => createEdge(sourceUrl, item.url!, { anchor_text: item.label, source_type: 'breadcrumb' }))
+    .filter((edge): edge is PageLink => edge !== null);
+
+  return [
+    ...contentEdges,
+    ...navEdges(sourceUrl, nav.primary_nav, 'primary_nav'),
+    ...navEdges(sourceUrl, nav.footer_nav, 'footer'),
+    ...breadcrumbEdges,
+  ];
+}
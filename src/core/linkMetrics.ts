@@ -0,0 +1,182 @@
+/**
+ * Link metrics
+ * Internal PageRank, click depth from the homepage, inlink counts and
+ * orphan status per page, computed from crawler_links after each crawl
+ */
+
+import { normalizeUrl } from './urlNormalizer';
+import { getLinkGraphEdges, getLinkGraphPages, getUrlStatuses, replaceLinkMetrics } from '../db/queries';
+import { PageLinkMetrics } from '../types/database.types';
+import { LinkSourceType } from '../types/navigation.types';
+import { logger } from '../utils/logger';
+import {
+  LINK_EQUITY_WEIGHTS,
+  PAGERANK_DAMPING,
+  PAGERANK_MAX_ITERATIONS,
+  PAGERANK_TOLERANCE,
+} from '../config/constants';
+
+/**
+ * Link graph of one host: pages by index, links summed per page pair
+ */
+interface LinkGraph {
+  urls: string[];
+  outlinks: Array<Map<number, number>>;              // page -> linked page -> summed equity weight
+  linkingPages: Array<Map<LinkSourceType, Set<number>>>; // page -> source type -> linking pages
+}
+
+/**
+ * Weighted PageRank
+ * Each page passes its rank to the pages it links to in proportion to the
+ * links' equity weights; pages without links spread theirs evenly.
+ *
+ * @param graph - Link graph
+ * @returns Rank per page (sums to 1)
+ */
+function computePageRank(graph: LinkGraph): number[] {
+  const count = graph.urls.length;
+  const totals = graph.outlinks.map(links => [...links.values()].reduce((sum, weight) => sum + weight, 0));
+  let ranks = new Array<number>(count).fill(1 / count);
+
+  for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+    const dangling = ranks.reduce((sum, rank, page) => (totals[page] === 0 ? sum + rank : sum), 0);
+    const base = (1 - PAGERANK_DAMPING) / count + (PAGERANK_DAMPING * dangling) / count;
+    const next = new Array<number>(count).fill(base);
+
+    graph.outlinks.forEach((links, page) => {
+      if (totals[page] === 0) return;
+      const share = (PAGERANK_DAMPING * ranks[page]) / totals[page];
+      for (const [target, weight] of links) next[target] += share * weight;
+    });
+
+    const delta = next.reduce((sum, rank, page) => sum + Math.abs(rank - ranks[page]), 0);
+    ranks = next;
+    if (delta < PAGERANK_TOLERANCE) break;
+  }
+
+  return ranks;
+}
+
+/**
+ * Breadth-first click depth from the homepage
+ *
+ * @param graph - Link graph
+ * @param home - Index of the homepage
+ * @returns Depth per page (null = unreachable)
+ */
+function computeClickDepths(graph: LinkGraph, home: number): Array<number | null> {
+  const depths = new Array<number | null>(graph.urls.length).fill(null);
+  depths[home] = 0;
+
+  const queue = [home];
+  for (let head = 0; head < queue.length; head++) {
+    const page = queue[head];
+    for (const target of graph.outlinks[page].keys()) {
+      if (depths[target] !== null) continue;
+      depths[target] = depths[page]! + 1;
+      queue.push(target);
+    }
+  }
+
+  return depths;
+}
+
+/**
+ * Find a host's homepage among its pages (directly or through a redirect)
+ */
+async function findHomepage(host: string, index: Map<string, number>): Promise<number | null> {
+  const candidates = [`https://${host}/`, `http://${host}/`].map(url => normalizeUrl(url));
+  for (const url of candidates) {
+    if (index.has(url)) return index.get(url)!;
+  }
+
+  const statuses = await getUrlStatuses(candidates);
+  for (const url of candidates) {
+    const redirectsTo = statuses.get(url)?.redirects_to;
+    if (redirectsTo && index.has(redirectsTo)) return index.get(redirectsTo)!;
+  }
+  return null;
+}
+
+/**
+ * Compute the link metrics of one host in a run
+ */
+async function computeHostMetrics(runId: string, host: string): Promise<PageLinkMetrics[]> {
+  const pages = await getLinkGraphPages(runId, [host]);
+  if (pages.length === 0) return [];
+
+  const index = new Map(pages.map((page, i) => [page.final_url, i]));
+  const graph: LinkGraph = {
+    urls: pages.map(page => page.final_url),
+    outlinks: pages.map(() => new Map()),
+    linkingPages: pages.map(() => new Map()),
+  };
+
+  // Links to pages outside the graph (not crawled, broken, other hosts) and self-links carry no equity
+  for (const edge of await getLinkGraphEdges([host])) {
+    const source = index.get(edge.source_url);
+    const target = index.get(edge.target_url);
+    if (source === undefined || target === undefined || source === target) continue;
+
+    const links = graph.outlinks[source];
+    links.set(target, (links.get(target) || 0) + LINK_EQUITY_WEIGHTS[edge.source_type]);
+
+    const byType = graph.linkingPages[target];
+    if (!byType.has(edge.source_type)) byType.set(edge.source_type, new Set());
+    byType.get(edge.source_type)!.add(source);
+  }
+
+  const ranks = computePageRank(graph);
+  const topRank = ranks.reduce((max, rank) => Math.max(max, rank), 0);
+
+  const home = await findHomepage(host, index);
+  if (home === null) logger.warn({ host }, 'Homepage not crawled - click depth not computed');
+  const depths = home === null ? ranks.map(() => null) : computeClickDepths(graph, home);
+
+  return pages.map((page, i) => {
+    const linkingPages = new Set([...graph.linkingPages[i].values()].flatMap(sources => [...sources]));
+    const inlinksByType: Partial<Record<LinkSourceType, number>> = {};
+    for (const [type, sources] of graph.linkingPages[i]) inlinksByType[type] = sources.size;
+
+    return {
+      final_url: page.final_url,
+      pagerank: ranks[i],
+      pagerank_score: Math.round((ranks[i] / topRank) * 10000) / 100,
+      click_depth: depths[i],
+      inlinks: linkingPages.size,
+      inlinks_by_type: inlinksByType,
+      outlinks: graph.outlinks[i].size,
+      in_sitemap: page.in_sitemap,
+      // The homepage is the entry point: it needs no inlinks
+      is_orphan: page.in_sitemap && linkingPages.size === 0 && i !== home,
+    };
+  });
+}
+
+/**
+ * Compute and store the link metrics of a run, one link graph per host
+ *
+ * Pages are the pages of the hosts the run saw (crawler_run_pages) with crawl
+ * status OK; links are their followed internal links, resolved through redirects.
+ *
+ * @param hosts - Hostnames
+ * @param runId - Crawl run UUID
+ * @returns Pages, orphans and pages unreachable from the homepage
+ */
+export async function computeLinkMetrics(
+  hosts: string[],
+  runId: string
+): Promise<{ pages: number; orphans: number; unreachable: number }> {
+  const summary = { pages: 0, orphans: 0, unreachable: 0 };
+
+  for (const host of hosts) {
+    const metrics = await computeHostMetrics(runId, host);
+    await replaceLinkMetrics(runId, [host], metrics);
+
+    summary.pages += metrics.length;
+    summary.orphans += metrics.filter(page => page.is_orphan).length;
+    summary.unreachable += metrics.filter(page => page.click_depth === null).length;
+  }
+
+  return summary;
+}
@@ -0,0 +1,1182 @@
+/**
+ * Page processing pipeline
+ * Shared by the Cheerio and Playwright crawlers: metadata, extraction,
+ * enhanced markdown, nav structure and storage
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { normalizeUrl, extractDomain } from './urlNormalizer';
+import { UrlScope, isInScope } from './urlScope';
+import {
+  DomainThrottle,
+  RobotsCache,
+  getRobotsRules,
+  recordDomainResponse,
+  setCrawlDelay,
+  waitForDomainTurn,
+} from './politeness';
+import { classifyIndexability } from './indexability';
+import { buildLinkEdges } from './linkGraph';
+import { checkRobotsRules, isRobotsTxtUnavailable } from '../parsers/robotsParser';
+import { buildPageRobotsDirectives } from '../parsers/robotsDirectivesParser';
+import { mergeHreflangLinks, parseLinkHeaderHreflang } from '../parsers/hreflangParser';
+import {
+  upsertPage,
+  upsertUrlAlias,
+  getDomainOverride,
+  pageExists,
+  getPageValidators,
+  markPageUnchanged,
+  getLatestPageVersion,
+  insertPageVersion,
+  replacePageImages,
+  replacePageLinks,
+  snapshotRunPage,
+} from '../db/queries';
+import { CrawlOptions, CrawlStats, FetchedPage } from '../types/crawl.types';
+import {
+  CanonicalStatus,
+  CrawlerPageInsert,
+  CrawlStatus,
+  DomainOverride,
+  FetchAttempt,
+  FetchMode,
+  HreflangLink,
+  PageImage,
+  PageLink,
+  RedirectHop,
+  TrackedPageField,
+  UrlAliasInsert,
+} from '../types/database.types';
+import { logger } from '../utils/logger';
+import {
+  BROWSER_FALLBACK_DOMAIN_THRESHOLD,
+  DEFAULT_DISCOVERY_MAX_DEPTH,
+  MAX_REDIRECT_HOPS,
+  STORED_RESPONSE_HEADERS,
+  USER_AGENT,
+} from '../config/constants';
+import { extractContent, calculateJunkScore } from '../extraction/contentExtractor';
+import { htmlToEnhancedMarkdown } from '../extraction/enhancedMarkdownConverter';
+import { extractNavStructure, generateNavFingerprint } from '../extraction/navExtractor';
+import { detectJsRendering } from '../extraction/renderDetector';
+import { detectClientRedirect, isRedirectLoop } from '../extraction/redirectDetector';
+import { detectLanguage, isLanguageMismatch } from '../extraction/languageDetector';
+import { extractStructuredData, getSchemaTypes } from '../extraction/structuredDataExtractor';
+import { validateStructuredData } from '../extraction/structuredDataValidator';
+import { extractImages } from '../extraction/imageExtractor';
+import {
+  detectSoft404,
+  detectSoft404Redirect,
+  MissingPageProbe,
+  Soft404Detection,
+  Soft404Signal,
+} from '../extraction/soft404Detector';
+import { extractMetadata, findHeadingIssues } from '../parsers/metadataExtractor';
+import { hashHtmlContent } from '../utils/hash';
+import type { NavStructure } from '../types/navigation.types';
+
+/**
+ * State shared by every page processed during a crawl run
+ */
+export interface CrawlSession {
+  options: CrawlOptions;
+  stats: CrawlStats;
+  // Maps normalized URL -> typeHint from sitemap (for redirect validation)
+  sitemapTypeHintLookup: Map<string, string | null>;
+  // Normalized URLs already queued or crawled in this run
+  queuedUrls: Set<string>;
+  // Scope for link discovery (null when discovery is off)
+  urlScope: UrlScope | null;
+  // Domain overrides cached per run (null = no override configured)
+  domainOverrides: Map<string, DomainOverride | null>;
+  // JS-rendered pages seen per domain (learned browser fallback)
+  jsRenderedDomains: Map<string, number>;
+  // robots.txt rules per origin
+  robots: RobotsCache;
+  // Crawl-delay spacing per domain
+  throttle: DomainThrottle;
+  // What each origin serves for a nonexistent URL (soft-404 detection)
+  missingPageProbes: Map<string, Promise<MissingPageProbe>>;
+  // Add a request to a crawler queue (fetch mode resolved per domain when omitted)
+  enqueue: (
+    request: { url: string; uniqueKey?: string; userData: Record<string, any> },
+    fetchMode?: FetchMode
+  ) => Promise<void>;
+}
+
+/**
+ * Check whether a domain has been learned to need a browser during this run
+ *
+ * @param session - Crawl session
+ * @param domain - Domain name
+ * @returns True once BROWSER_FALLBACK_DOMAIN_THRESHOLD JS-rendered pages were seen
+ */
+export function isBrowserDomain(session: CrawlSession, domain: string): boolean {
+  return (session.jsRenderedDomains.get(domain) || 0) >= BROWSER_FALLBACK_DOMAIN_THRESHOLD;
+}
+
+/**
+ * Get domain override for a domain, cached for the lifetime of the session
+ *
+ * @param session - Crawl session
+ * @param domain - Domain name
+ * @returns Domain override or null
+ */
+export async function getSessionDomainOverride(
+  session: CrawlSession,
+  domain: string
+): Promise<DomainOverride | null> {
+  if (session.domainOverrides.has(domain)) {
+    return session.domainOverrides.get(domain) || null;
+  }
+
+  const override = await getDomainOverride(domain);
+  session.domainOverrides.set(domain, override);
+  return override;
+}
+
+/**
+ * Decide whether a URL needs fetching in this run
+ *
+ * Default mode skips pages already stored (unless --recrawl).
+ * Incremental mode skips pages whose sitemap lastmod is not newer than the
+ * last crawl, and otherwise passes the stored ETag / Last-Modified / content
+ * hash on so the response can be recognized as unchanged.
+ *
+ * @param url - Normalized URL
+ * @param lastmod - Sitemap <lastmod> (if any)
+ * @param session - Crawl session
+ * @returns null to skip the URL, else extra userData for the request
+ */
+export async function planFetch(
+  url: string,
+  lastmod: string | undefined,
+  session: CrawlSession
+): Promise<Record<string, any> | null> {
+  const { options, stats } = session;
+
+  if (!options.incremental) {
+    if (!options.recrawl && (await pageExists(url))) {
+      logger.debug({ url }, 'Skipping already crawled page');
+      // Still part of this run: without a snapshot, run comparison reports it as removed
+      await recordRunSnapshot(url, url, session);
+      stats.pagesSkipped++;
+      return null;
+    }
+    return {};
+  }
+
+  // Only successfully stored pages can be "unchanged"
+  const validators = await getPageValidators(url);
+  if (!validators || validators.crawl_status !== 'OK') return {};
+
+  const lastmodTime = lastmod ? new Date(lastmod).getTime() : NaN;
+  if (!isNaN(lastmodTime) && lastmodTime <= new Date(validators.last_crawled_at).getTime()) {
+    logger.debug({ url, lastmod }, 'Sitemap lastmod not newer than last crawl - unchanged');
+    await markPageUnchanged(url, options.runId);
+    await recordRunSnapshot(url, url, session);
+    stats.pagesUnchanged++;
+    return null;
+  }
+
+  return {
+    previous: {
+      contentHash: validators.content_hash,
+      etag: validators.etag,
+      lastModified: validators.last_modified,
+    },
+  };
+}
+
+/**
+ * Check a URL against robots.txt before queueing it
+ * Blocked URLs are stored with crawl_status BLOCKED_ROBOTS and never fetched.
+ * Also applies the origin's Crawl-delay to the domain throttle.
+ *
+ * @param url - Normalized URL
+ * @param userData - Request data (discovery info)
+ * @param session - Crawl session
+ * @returns True if robots.txt disallows the URL
+ */
+export async function isBlockedByRobots(
+  url: string,
+  userData: Record<string, any>,
+  session: CrawlSession
+): Promise<boolean> {
+  const { options, stats } = session;
+  if (options.ignoreRobots) return false;
+
+  const robots = await getRobotsRules(session.robots, url);
+  if (robots.crawlDelaySecs) {
+    setCrawlDelay(session.throttle, extractDomain(url), robots.crawlDelaySecs);
+  }
+
+  const check = checkRobotsRules(robots, url);
+  if (check.allowed) return false;
+
+  let rule = check.matchedRule ? `Disallow: ${check.matchedRule.path}` : 'Disallow';
+  if (isRobotsTxtUnavailable(robots.fetchStatus)) {
+    rule = `robots.txt unavailable (${robots.fetchStatus ?? 'network error'}) - complete disallow`;
+  }
+  logger.info({ url, rule }, 'Blocked by robots.txt - skipping');
+
+  const indexability = classifyIndexability({ crawlStatus: 'BLOCKED_ROBOTS' });
+  const pageData: CrawlerPageInsert = {
+    final_url: url,
+    requested_url_original: userData.originalUrl || url,
+    crawl_status: 'BLOCKED_ROBOTS',
+    indexability: indexability.indexability,
+    indexability_reason: indexability.reason,
+    sitemap_type_hint: userData.sitemapTypeHint || undefined,
+    discovered_via: userData.discoveredVia,
+    discovered_from: userData.discoveredFrom,
+    discovery_depth: userData.depth,
+    last_error: `Blocked by robots.txt (${rule})`,
+    run_id: options.runId,
+  };
+
+  try {
+    await upsertPage(pageData);
+  } catch (error) {
+    logger.error(
+      { url, error: (error as Error).message },
+      'Failed to save blocked page'
+    );
+  }
+  await recordRunSnapshot(url, url, session);
+
+  stats.blockedByRobots++;
+  return true;
+}
+
+/**
+ * Process a fetched page and store the result
+ *
+ * @param page - Page fetched by one of the crawlers
+ * @param session - Crawl session
+ */
+export async function processPage(page: FetchedPage, session: CrawlSession): Promise<void> {
+  const { options, stats, sitemapTypeHintLookup } = session;
+  const requestedUrl = page.requestedUrl;
+  const finalUrl = normalizeUrl(page.loadedUrl);
+  const statusCode = page.statusCode;
+  const htmlContent = page.html;
+  let sitemapTypeHint = page.userData.sitemapTypeHint as string | null | undefined;
+
+  logger.info({ url: finalUrl, statusCode, fetchMode: page.fetchMode }, 'Page crawled');
+
+  // Redirect targets count as crawled, so discovery does not queue them again
+  session.queuedUrls.add(finalUrl);
+
+  // Conditional request answered with 304: the stored row is still current
+  if (statusCode === 304) {
+    await storeUnchangedPage(page, finalUrl, session);
+    return;
+  }
+
+  if (requestedUrl !== finalUrl) {
+    // CRITICAL FIX: Re-check typeHint for final_url after redirect
+    // If final_url exists in sitemap with different typeHint, use that instead
+    // Example: /old-url (post) → /new-url (page) should use 'page', not 'post'
+    if (sitemapTypeHintLookup.has(finalUrl)) {
+      const finalUrlTypeHint = sitemapTypeHintLookup.get(finalUrl);
+      if (finalUrlTypeHint && finalUrlTypeHint !== sitemapTypeHint) {
+        logger.info(
+          {
+            finalUrl,
+            requestedUrl,
+            originalTypeHint: sitemapTypeHint,
+            finalTypeHint: finalUrlTypeHint,
+          },
+          'Redirect detected - using final URL typeHint from sitemap'
+        );
+        sitemapTypeHint = finalUrlTypeHint;
+      }
+    }
+  }
+
+  // Determine crawl status
+  let crawlStatus: CrawlStatus = 'OK';
+  if (statusCode === 404 || statusCode === 410) {
+    crawlStatus = 'NOT_FOUND';
+  } else if (statusCode >= 400) {
+    crawlStatus = 'ERROR';
+  }
+
+  // Extract metadata
+  const metadata = extractMetadata(htmlContent, finalUrl);
+
+  // Get domain-specific overrides
+  const domain = extractDomain(finalUrl);
+  const domainOverride = await getSessionDomainOverride(session, domain);
+
+  // Extract content
+  const extraction = extractContent(
+    htmlContent,
+    finalUrl,
+    domainOverride?.main_content_selectors || undefined,
+    domainOverride?.remove_selectors || undefined
+  );
+
+  // Convert to Enhanced Markdown with structural markers
+  const enhancedResult = extraction.success
+    ? htmlToEnhancedMarkdown(extraction.cleanHtml, finalUrl, metadata.h1, true)
+    : null;
+
+  // plainMarkdown = clean markdown for LLM/RAG use (existing `markdown` field)
+  // markdown = enhanced markdown with STRUCT markers for link classification
+  const markdown = enhancedResult?.plainMarkdown || '';
+  const markdownEnhanced = enhancedResult?.markdown || '';
+  const structuralStats = enhancedResult?.detection.stats || null;
+
+  // Calculate content hash
+  const contentHash = hashHtmlContent(extraction.cleanHtml || htmlContent);
+
+  // Calculate junk score
+  const junkScore = calculateJunkScore(extraction.cleanHtml || htmlContent);
+
+  // Cheerio does not run meta refresh / JavaScript redirects: follow them here
+  // (the target is fetched with the chain so far, and stored in place of this page)
+  const earlierHops: RedirectHop[] = [...(page.userData.redirectHops || []), ...page.redirectHops];
+  if (page.fetchMode === 'cheerio' && statusCode < 300) {
+    const clientRedirect = detectClientRedirect(htmlContent, page.loadedUrl, extraction.wordCount);
+    if (clientRedirect) {
+      const hops: RedirectHop[] = [
+        ...earlierHops,
+        { url: page.loadedUrl, status_code: statusCode, redirect_type: clientRedirect.type, target: clientRedirect.target },
+      ];
+      await followClientRedirect(page, hops, session);
+      return;
+    }
+  }
+
+  // Canonical is only meaningful on pages that were served
+  const canonical = statusCode < 400 ? classifyCanonical(metadata.canonicalUrl, finalUrl) : null;
+
+  // Full redirect chain, ending with the page itself (plus its canonical when it names another URL)
+  const finalHop: RedirectHop = { url: page.loadedUrl, status_code: statusCode, redirect_type: null, target: null };
+  if (canonical?.url && canonical.status !== 'self') {
+    finalHop.redirect_type = 'canonical';
+    finalHop.target = metadata.canonicalUrl;
+  }
+  const redirectChain: RedirectHop[] =
+    earlierHops.length > 0 || finalHop.redirect_type ? [...earlierHops, finalHop] : [];
+
+  // hreflang alternates from the page, its Link header and the sitemap entry
+  // (sitemap annotations describe the sitemap URL, so only when it was not redirected)
+  const hreflang: HreflangLink[] = statusCode < 400
+    ? mergeHreflangLinks(
+        metadata.hreflang,
+        page.headers['link'] ? parseLinkHeaderHreflang(page.headers['link'], finalUrl) : [],
+        finalUrl === page.url ? page.userData.sitemapHreflang || [] : []
+      )
+    : [];
+  const declaredLanguage = resolveDeclaredLanguage(metadata.language, page.headers['content-language'], hreflang, finalUrl);
+
+  // Content language: many sites declare one lang on every page, whatever the language
+  const languageDetection = statusCode < 400 ? detectLanguage(markdown) : null;
+  const languageMismatch = languageDetection ? isLanguageMismatch(declaredLanguage, languageDetection) : null;
+  if (languageMismatch) {
+    logger.debug({ url: finalUrl, declaredLanguage, detected: languageDetection }, 'Declared language differs from content');
+  }
+
+  // Structured data (JSON-LD, Microdata, RDFa) and its validation
+  const structuredData = statusCode < 400 ? extractStructuredData(htmlContent, finalUrl) : null;
+  const structuredDataIssues = structuredData
+    ? [...structuredData.errors, ...validateStructuredData(structuredData.entities)]
+    : [];
+  const schemaTypes = structuredData ? getSchemaTypes(structuredData.entities) : [];
+
+  // Image inventory (alt text, dimensions, lazy-loading, region)
+  const images = statusCode < 400 ? extractImages(htmlContent, finalUrl, extraction.cleanHtml) : null;
+
+  // Heading outline (seo-processor reads it instead of re-parsing the HTML)
+  const headingIssues = statusCode < 400 ? findHeadingIssues(metadata.headings) : [];
+
+  // Extract navigation structure from raw HTML (before cleaning)
+  const navStructure = extractNavStructure(htmlContent, finalUrl);
+  const links = statusCode < 400 ? buildLinkEdges(finalUrl, navStructure) : null;
+
+  // Record this attempt after any earlier ones (cheerio attempt before a browser fallback)
+  const fetchAttempt: FetchAttempt = {
+    fetch_mode: page.fetchMode,
+    status_code: statusCode,
+    word_count: extraction.wordCount,
+    attempted_at: new Date().toISOString(),
+  };
+  const fetchAttempts: FetchAttempt[] = [...(page.userData.fetchAttempts || []), fetchAttempt];
+
+  // Escalate near-empty JS shells to the browser crawler
+  let escalateToBrowser = false;
+  if (page.fetchMode === 'cheerio' && statusCode < 400) {
+    const renderDetection = detectJsRendering(htmlContent, extraction.wordCount);
+    if (renderDetection.likelyJsRendered) {
+      fetchAttempt.render_signals = renderDetection.signals;
+      escalateToBrowser = true;
+    }
+  }
+
+  // Soft 404s: missing pages served with a success status
+  let soft404Signals: Soft404Signal[] | undefined;
+  let redirectSoft404: Soft404Detection | null = null;
+  if (crawlStatus === 'OK' && !escalateToBrowser) {
+    const probe = await getMissingPageProbe(session, finalUrl, domainOverride);
+    const detection = detectSoft404({
+      title: metadata.title,
+      h1: metadata.h1,
+      text: markdown,
+      wordCount: extraction.wordCount,
+      contentHash,
+      probe,
+    });
+    if (detection.isSoft404) {
+      logger.info({ url: finalUrl, signals: detection.signals }, 'Soft 404 detected');
+      crawlStatus = 'SOFT_404';
+      soft404Signals = detection.signals;
+      stats.soft404s++;
+    }
+    redirectSoft404 = detectSoft404Redirect(requestedUrl, finalUrl, probe);
+  }
+
+  // Indexability: status, robots meta tags / X-Robots-Tag and canonical together
+  const robotsDirectives = buildPageRobotsDirectives(metadata.robotsMeta, page.headers['x-robots-tag']);
+  const indexability = classifyIndexability({
+    crawlStatus,
+    directives: robotsDirectives.effective,
+    canonicalStatus: canonical?.status,
+  });
+
+  logger.debug(
+    {
+      url: finalUrl,
+      extractionMethod: extraction.extractionMethod,
+      wordCount: extraction.wordCount,
+      markdownLength: markdown.length,
+      markdownEnhancedLength: markdownEnhanced.length,
+      structuralStats: structuralStats,
+      navItems: navStructure.primary_nav.length,
+    },
+    'Content extracted'
+  );
+
+  // Store page data
+  const pageData: CrawlerPageInsert = {
+    final_url: finalUrl,
+    requested_url_original: requestedUrl,
+    status_code: statusCode,
+    crawl_status: crawlStatus,
+    soft_404_signals: soft404Signals,
+    redirect_chain: redirectChain.length > 0 ? redirectChain : undefined,
+    html_content: htmlContent,
+    clean_html: extraction.cleanHtml,
+    markdown: markdown,
+    markdown_enhanced: markdownEnhanced,
+    structural_stats: structuralStats || undefined,
+    nav_structure: navStructure,
+    nav_fingerprint: navStructure.primary_nav.length > 0 ? generateNavFingerprint(navStructure.primary_nav) : undefined,
+    title: metadata.title || undefined,
+    h1: metadata.h1 || undefined,
+    meta_description: metadata.metaDescription || undefined,
+    canonical_url: canonical?.url || undefined,
+    canonical_status: canonical?.status,
+    declared_language: declaredLanguage || undefined,
+    detected_language: languageDetection?.language || undefined,
+    language_confidence: languageDetection?.language ? languageDetection.confidence : undefined,
+    language_mismatch: languageMismatch,
+    hreflang: hreflang.length > 0 ? hreflang : undefined,
+    structured_data: structuredData?.entities.length ? structuredData.entities : undefined,
+    schema_types: schemaTypes.length > 0 ? schemaTypes : undefined,
+    structured_data_issues: structuredDataIssues.length > 0 ? structuredDataIssues : undefined,
+    social_metadata: statusCode < 400 ? metadata.social : undefined,
+    heading_outline: statusCode < 400 ? metadata.headings : undefined,
+    heading_issues: headingIssues.length > 0 ? headingIssues : undefined,
+    robots_directives: robotsDirectives,
+    indexability: indexability.indexability,
+    indexability_reason: indexability.reason,
+    word_count: extraction.wordCount,
+    content_hash: contentHash,
+    etag: page.headers['etag'],
+    last_modified: page.headers['last-modified'],
+    response_headers: pickStoredHeaders(page.headers),
+    ttfb_ms: page.metrics.ttfbMs ?? undefined,
+    download_ms: page.metrics.downloadMs ?? undefined,
+    content_bytes: page.metrics.contentBytes ?? undefined,
+    fetch_mode: page.fetchMode,
+    fetch_attempts: fetchAttempts,
+    extraction_method: extraction.extractionMethod,
+    junk_score: junkScore,
+    sitemap_type_hint: sitemapTypeHint || undefined,
+    discovered_via: page.userData.discoveredVia,
+    discovered_from: page.userData.discoveredFrom,
+    discovery_depth: page.userData.depth,
+    run_id: options.runId,
+    served: statusCode < 400,
+  };
+
+  // Incremental mode: same content as the stored row, so leave it untouched
+  const previousHash = page.userData.previous?.contentHash;
+  const unchanged =
+    options.incremental && !escalateToBrowser && crawlStatus === 'OK' &&
+    finalUrl === page.url && previousHash === contentHash;
+
+  // --canonical-aliases: a page canonicalized to another page on the same host
+  // is stored as an alias of its canonical instead of as its own row
+  const canonicalAliasOf =
+    options.canonicalAliases && !escalateToBrowser && crawlStatus === 'OK' && canonical?.status === 'canonicalized'
+      ? canonical.url
+      : null;
+
+  if (canonicalAliasOf) {
+    await storeCanonicalAlias(finalUrl, canonicalAliasOf, statusCode, redirectChain, session);
+  } else if (unchanged) {
+    await storeUnchangedPage(page, finalUrl, session);
+  } else {
+    // The Cheerio result is stored even when escalating, so the page is not
+    // lost if the browser fetch fails; the browser result overwrites it
+    try {
+      await upsertPage(pageData);
+      if (!escalateToBrowser) {
+        stats.pagesCrawled++;
+        await recordPageVersion(pageData);
+        await recordRunSnapshot(page.url, finalUrl, session);
+        if (images) await recordPageImages(finalUrl, images, session);
+        if (links) await recordPageLinks(finalUrl, links, session);
+      }
+    } catch (error) {
+      logger.error(
+        { url: finalUrl, error: (error as Error).message },
+        'Failed to save page'
+      );
+      stats.errors++;
+    }
+  }
+
+  if (escalateToBrowser) {
+    await requeueForBrowser(page, fetchAttempts, fetchAttempt.render_signals || [], session);
+    return;
+  }
+
+  // Crawl canonical targets too, so their status is known (and canonical aliases resolve)
+  if (canonical?.status === 'canonicalized' && canonical.url && (options.discover || options.canonicalAliases)) {
+    await enqueueCanonicalTarget(canonical.url, finalUrl, page.userData, session);
+  }
+
+  // Store URL alias if redirect occurred
+  if (requestedUrl !== finalUrl) {
+    const aliasData: UrlAliasInsert = {
+      requested_url: requestedUrl,
+      final_url: finalUrl,
+      status_code: statusCode,
+      redirect_chain: redirectChain.length > 0 ? redirectChain : undefined,
+      run_id: options.runId,
+    };
+
+    try {
+      await upsertUrlAlias(aliasData);
+      stats.redirects++;
+    } catch (error) {
+      logger.error(
+        { url: requestedUrl, error: (error as Error).message },
+        'Failed to save URL alias'
+      );
+    }
+  }
+
+  // A missing URL redirected to the homepage (or the site's catch-all target)
+  if (redirectSoft404?.isSoft404) {
+    await storeSoft404Redirect(page, statusCode, redirectChain, redirectSoft404.signals, session);
+  }
+
+  // Follow same-site links (discovery mode)
+  if (options.discover && statusCode < 400) {
+    await enqueueDiscoveredLinks(navStructure, finalUrl, page.userData, session);
+  }
+
+  // Progress logging
+  if (stats.pagesCrawled % 10 === 0) {
+    logger.info(
+      {
+        crawled: stats.pagesCrawled,
+        skipped: stats.pagesSkipped,
+        redirects: stats.redirects,
+        errors: stats.errors,
+      },
+      'Crawl progress'
+    );
+  }
+}
+
+/**
+ * Add a history row when the page is new or a tracked field changed
+ */
+async function recordPageVersion(pageData: CrawlerPageInsert): Promise<void> {
+  const trackedFields: TrackedPageField[] = ['content_hash', 'title', 'h1', 'meta_description', 'crawl_status'];
+
+  try {
+    const latest = await getLatestPageVersion(pageData.final_url);
+    const changedFields = latest
+      ? trackedFields.filter(field => (latest[field] || null) !== (pageData[field] || null))
+      : ['created' as const];
+    if (changedFields.length === 0) return;
+
+    await insertPageVersion({
+      final_url: pageData.final_url,
+      run_id: pageData.run_id,
+      status_code: pageData.status_code,
+      crawl_status: pageData.crawl_status,
+      title: pageData.title,
+      h1: pageData.h1,
+      meta_description: pageData.meta_description,
+      word_count: pageData.word_count,
+      content_hash: pageData.content_hash,
+      markdown: pageData.markdown,
+      changed_fields: changedFields,
+    });
+
+    if (latest) {
+      logger.info({ url: pageData.final_url, changedFields }, 'Page changed since last version');
+    }
+  } catch (error) {
+    logger.error(
+      { url: pageData.final_url, error: (error as Error).message },
+      'Failed to save page version'
+    );
+  }
+}
+
+/**
+ * Replace the stored images of a page with those just extracted
+ *
+ * @param finalUrl - Final URL after redirects
+ * @param images - Extracted images
+ * @param session - Crawl session
+ */
+async function recordPageImages(finalUrl: string, images: PageImage[], session: CrawlSession): Promise<void> {
+  try {
+    await replacePageImages(finalUrl, images, session.options.runId);
+  } catch (error) {
+    logger.error(
+      { url: finalUrl, error: (error as Error).message },
+      'Failed to save page images'
+    );
+  }
+}
+
+/**
+ * Replace the stored links of a page with those just extracted
+ *
+ * @param finalUrl - Final URL after redirects
+ * @param links - Link edges of the page
+ * @param session - Crawl session
+ */
+async function recordPageLinks(finalUrl: string, links: PageLink[], session: CrawlSession): Promise<void> {
+  try {
+    await replacePageLinks(finalUrl, links, session.options.runId);
+  } catch (error) {
+    logger.error(
+      { url: finalUrl, error: (error as Error).message },
+      'Failed to save page links'
+    );
+  }
+}
+
+/**
+ * Record a page that did not change since the last crawl (304 or same content hash)
+ * Only the crawl time, run and validators are updated
+ */
+async function storeUnchangedPage(page: FetchedPage, finalUrl: string, session: CrawlSession): Promise<void> {
+  logger.debug({ url: finalUrl, statusCode: page.statusCode }, 'Page unchanged since last crawl');
+
+  try {
+    await markPageUnchanged(
+      finalUrl,
+      session.options.runId,
+      page.headers['etag'] || null,
+      page.headers['last-modified'] || null
+    );
+    session.stats.pagesUnchanged++;
+  } catch (error) {
+    logger.error(
+      { url: finalUrl, error: (error as Error).message },
+      'Failed to mark page unchanged'
+    );
+    session.stats.errors++;
+    return;
+  }
+
+  await recordRunSnapshot(page.url, finalUrl, session);
+}
+
+/**
+ * Fetch what an origin serves for a random nonexistent path, once per run
+ * The content hash is computed like a crawled page's, so the two can be compared.
+ * A throttled probe (429/503) is forgotten, so a later page of the origin probes again.
+ *
+ * @param session - Crawl session
+ * @param url - Any URL on the origin
+ * @param domainOverride - Extraction override for the domain
+ * @returns Probe result (statusCode null when the probe failed)
+ */
+async function getMissingPageProbe(
+  session: CrawlSession,
+  url: string,
+  domainOverride: DomainOverride | null
+): Promise<MissingPageProbe> {
+  const origin = new URL(url).origin;
+
+  let probe = session.missingPageProbes.get(origin);
+  if (!probe) {
+    probe = fetchMissingPageProbe(normalizeUrl(`${origin}/acrawler-probe-${uuidv4()}`), domainOverride, session);
+    session.missingPageProbes.set(origin, probe);
+  }
+
+  return probe;
+}
+
+/**
+ * Request a URL that cannot exist
+ * Goes through robots.txt and the domain throttle like any crawl request
+ */
+async function fetchMissingPageProbe(
+  probeUrl: string,
+  domainOverride: DomainOverride | null,
+  session: CrawlSession
+): Promise<MissingPageProbe> {
+  const failed: MissingPageProbe = { url: probeUrl, statusCode: null, finalUrl: null, contentHash: null };
+
+  if (!session.options.ignoreRobots) {
+    const robots = await getRobotsRules(session.robots, probeUrl);
+    if (!checkRobotsRules(robots, probeUrl).allowed) {
+      logger.info({ probeUrl }, 'Missing-page probe blocked by robots.txt - skipping');
+      return failed;
+    }
+  }
+
+  try {
+    await waitForDomainTurn(session.throttle, extractDomain(probeUrl));
+    const response = await fetch(probeUrl, {
+      headers: {
+        'User-Agent': USER_AGENT,
+      },
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (recordDomainResponse(session.throttle, probeUrl, response.status, response.headers.get('retry-after')) > 0) {
+      session.stats.throttledResponses++;
+      session.missingPageProbes.delete(new URL(probeUrl).origin);
+      return failed;
+    }
+
+    const html = await response.text();
+    const finalUrl = normalizeUrl(response.url || probeUrl);
+    const extraction = extractContent(
+      html,
+      finalUrl,
+      domainOverride?.main_content_selectors || undefined,
+      domainOverride?.remove_selectors || undefined
+    );
+    const probe: MissingPageProbe = {
+      url: probeUrl,
+      statusCode: response.status,
+      finalUrl,
+      contentHash: hashHtmlContent(extraction.cleanHtml || html),
+    };
+
+    logger.info({ probeUrl, statusCode: probe.statusCode, finalUrl }, 'Missing-page probe fetched');
+    return probe;
+  } catch (error) {
+    logger.warn({ probeUrl, error: (error as Error).message }, 'Missing-page probe failed');
+    return failed;
+  }
+}
+
+/**
+ * Keep the response headers listed in STORED_RESPONSE_HEADERS
+ */
+function pickStoredHeaders(headers: Record<string, string>): Record<string, string> {
+  const stored: Record<string, string> = {};
+  for (const name of STORED_RESPONSE_HEADERS) {
+    if (headers[name] !== undefined) stored[name] = headers[name];
+  }
+  return stored;
+}
+
+/**
+ * Language a page declares: <html lang> / meta content-language, then the
+ * Content-Language header, then the page's own hreflang annotation
+ *
+ * @returns Lowercase language tag (e.g., "en-us"), or null
+ */
+function resolveDeclaredLanguage(
+  htmlLanguage: string | null,
+  contentLanguage: string | undefined,
+  hreflang: HreflangLink[],
+  finalUrl: string
+): string | null {
+  const declared = (htmlLanguage || contentLanguage?.split(',')[0] || '').trim();
+  if (declared) return declared.toLowerCase().replace(/_/g, '-').slice(0, 35);
+
+  const self = hreflang.find(link => link.url === finalUrl && link.hreflang !== 'x-default');
+  return self ? self.hreflang.slice(0, 35) : null;
+}
+
+/**
+ * Classify a page's rel=canonical against its final URL
+ * Whether a canonical target redirects or is missing is only known once it has
+ * been crawled (see resolveCanonicalTargets, run after the crawl)
+ *
+ * @param canonicalUrl - Absolute canonical URL from the page (null = no tag)
+ * @param finalUrl - Normalized final URL of the page
+ * @returns Normalized canonical URL and its status
+ */
+function classifyCanonical(
+  canonicalUrl: string | null,
+  finalUrl: string
+): { url: string | null; status: CanonicalStatus } {
+  if (!canonicalUrl) return { url: null, status: 'missing' };
+
+  let url: string;
+  try {
+    url = normalizeUrl(canonicalUrl);
+  } catch {
+    return { url: null, status: 'missing' };
+  }
+
+  if (url === finalUrl) return { url, status: 'self' };
+  if (new URL(url).hostname !== new URL(finalUrl).hostname) return { url, status: 'cross_domain' };
+  return { url, status: 'canonicalized' };
+}
+
+/**
+ * Store a canonicalized page as an alias of its canonical (--canonical-aliases)
+ */
+async function storeCanonicalAlias(
+  finalUrl: string,
+  canonicalUrl: string,
+  statusCode: number,
+  redirectChain: RedirectHop[],
+  session: CrawlSession
+): Promise<void> {
+  logger.debug({ url: finalUrl, canonicalUrl }, 'Canonicalized page stored as alias');
+
+  try {
+    await upsertUrlAlias({
+      requested_url: finalUrl,
+      final_url: canonicalUrl,
+      status_code: statusCode,
+      redirect_chain: redirectChain.length > 0 ? redirectChain : undefined,
+      run_id: session.options.runId,
+    });
+    session.stats.canonicalAliases++;
+  } catch (error) {
+    logger.error(
+      { url: finalUrl, error: (error as Error).message },
+      'Failed to save canonical alias'
+    );
+    session.stats.errors++;
+  }
+}
+
+/**
+ * Queue a page's canonical target (same host) unless it is already queued
+ *
+ * @param canonicalUrl - Normalized canonical URL
+ * @param pageUrl - Normalized URL of the canonicalized page
+ * @param userData - Request data of the canonicalized page (for depth)
+ * @param session - Crawl session
+ */
+async function enqueueCanonicalTarget(
+  canonicalUrl: string,
+  pageUrl: string,
+  userData: Record<string, any>,
+  session: CrawlSession
+): Promise<void> {
+  const { queuedUrls, urlScope } = session;
+  if (queuedUrls.has(canonicalUrl)) return;
+  if (urlScope && !isInScope(canonicalUrl, urlScope)) return;
+  queuedUrls.add(canonicalUrl);
+
+  try {
+    const fetchPlan = await planFetch(canonicalUrl, undefined, session);
+    if (!fetchPlan) return;
+
+    const linkData = {
+      originalUrl: canonicalUrl,
+      discoveredVia: 'link',
+      discoveredFrom: pageUrl,
+      depth: userData.depth || 0,
+      ...fetchPlan,
+    };
+
+    if (await isBlockedByRobots(canonicalUrl, linkData, session)) return;
+
+    await session.enqueue({ url: canonicalUrl, userData: linkData });
+    session.stats.linksDiscovered++;
+  } catch (error) {
+    logger.warn({ url: canonicalUrl, error: (error as Error).message }, 'Failed to enqueue canonical URL');
+  }
+}
+
+/**
+ * Store the requested URL of a soft-404 redirect as its own SOFT_404 row
+ * The redirect target keeps its own (healthy) row
+ */
+async function storeSoft404Redirect(
+  page: FetchedPage,
+  statusCode: number,
+  redirectChain: RedirectHop[],
+  signals: Soft404Signal[],
+  session: CrawlSession
+): Promise<void> {
+  const url = page.requestedUrl;
+  logger.info({ url, finalUrl: page.loadedUrl, signals }, 'Soft 404 redirect detected');
+
+  const indexability = classifyIndexability({ crawlStatus: 'SOFT_404' });
+
+  try {
+    await upsertPage({
+      final_url: url,
+      requested_url_original: url,
+      status_code: statusCode,
+      crawl_status: 'SOFT_404',
+      soft_404_signals: signals,
+      indexability: indexability.indexability,
+      indexability_reason: indexability.reason,
+      redirect_chain: redirectChain.length > 0 ? redirectChain : undefined,
+      sitemap_type_hint: page.userData.sitemapTypeHint || undefined,
+      discovered_via: page.userData.discoveredVia,
+      discovered_from: page.userData.discoveredFrom,
+      discovery_depth: page.userData.depth,
+      run_id: session.options.runId,
+    });
+    session.stats.soft404s++;
+  } catch (error) {
+    logger.error(
+      { url, error: (error as Error).message },
+      'Failed to save soft 404 redirect'
+    );
+    return;
+  }
+
+  await recordRunSnapshot(page.url, url, session);
+}
+
+/**
+ * Copy the stored page into this run's snapshot (run-to-run comparison)
+ *
+ * @param url - Normalized URL as queued
+ * @param finalUrl - Final URL after redirects
+ * @param session - Crawl session
+ */
+async function recordRunSnapshot(url: string, finalUrl: string, session: CrawlSession): Promise<void> {
+  try {
+    await snapshotRunPage(session.options.runId, url, finalUrl);
+  } catch (error) {
+    logger.error(
+      { url, error: (error as Error).message },
+      'Failed to save run snapshot'
+    );
+  }
+}
+
+/**
+ * Enqueue same-site links found on a page (primary nav, footer nav, content links)
+ *
+ * @param navStructure - Navigation structure extracted from the page
+ * @param pageUrl - Normalized URL of the referring page
+ * @param userData - Request data of the referring page (for depth)
+ * @param session - Crawl session
+ */
+async function enqueueDiscoveredLinks(
+  navStructure: NavStructure,
+  pageUrl: string,
+  userData: Record<string, any>,
+  session: CrawlSession
+): Promise<void> {
+  const { options, stats, queuedUrls, urlScope } = session;
+  if (!urlScope) return;
+
+  const depth = (userData.depth || 0) + 1;
+  if (depth > (options.maxDepth ?? DEFAULT_DISCOVERY_MAX_DEPTH)) return;
+
+  const candidates = new Set(
+    [...navStructure.primary_nav, ...navStructure.footer_nav, ...navStructure.content_links]
+      .filter(link => !link.is_external)
+      .map(link => link.url)
+  );
+
+  let enqueued = 0;
+  for (const candidate of candidates) {
+    let url: string;
+    try {
+      url = normalizeUrl(candidate);
+    } catch {
+      continue;
+    }
+
+    if (queuedUrls.has(url) || !isInScope(url, urlScope)) continue;
+    queuedUrls.add(url);
+
+    try {
+      // Skip already crawled / unchanged pages (deduplication, incremental mode)
+      const fetchPlan = await planFetch(url, undefined, session);
+      if (!fetchPlan) continue;
+
+      const linkData = {
+        originalUrl: url,
+        discoveredVia: 'link',
+        discoveredFrom: pageUrl,
+        depth,
+        ...fetchPlan,
+      };
+
+      if (await isBlockedByRobots(url, linkData, session)) continue;
+
+      await session.enqueue({ url, userData: linkData });
+      stats.linksDiscovered++;
+      enqueued++;
+    } catch (error) {
+      logger.warn({ url, error: (error as Error).message }, 'Failed to enqueue discovered URL');
+    }
+  }
+
+  if (enqueued > 0) {
+    logger.debug({ url: pageUrl, depth, enqueued }, 'Discovered links enqueued');
+  }
+}
+
+/**
+ * Fetch the target of a meta refresh / JavaScript redirect, carrying the chain so far
+ * Loops and over-long chains are stored as failed instead
+ *
+ * @param page - Page that redirected
+ * @param hops - Redirect chain ending with this page's hop
+ * @param session - Crawl session
+ */
+async function followClientRedirect(page: FetchedPage, hops: RedirectHop[], session: CrawlSession): Promise<void> {
+  const { redirect_type: redirectType, target } = hops[hops.length - 1];
+
+  if (isRedirectLoop(hops, target!)) {
+    await processFailedRequest(page.url, { ...page.userData, redirectHops: hops }, new Error('Redirect loop'), page.fetchMode, session);
+    return;
+  }
+  if (hops.length >= MAX_REDIRECT_HOPS) {
+    await processFailedRequest(
+      page.url,
+      { ...page.userData, redirectHops: hops },
+      new Error(`Too many redirects (${hops.length} hops)`),
+      page.fetchMode,
+      session
+    );
+    return;
+  }
+
+  let url: string;
+  try {
+    url = normalizeUrl(target!);
+  } catch {
+    logger.warn({ url: page.url, target }, 'Invalid client-side redirect target');
+    return;
+  }
+
+  logger.info({ url: page.url, target, redirectType }, 'Following client-side redirect');
+
+  const userData = { ...page.userData, redirectHops: hops };
+  if (await isBlockedByRobots(url, userData, session)) return;
+
+  // Own unique key: the target may already have been crawled on its own
+  await session.enqueue({ url, uniqueKey: `${url}#redirect-from=${page.requestedUrl}`, userData });
+}
+
+/**
+ * Re-queue a JS-rendered page for the Playwright crawler
+ * and learn the domain for later pages
+ */
+async function requeueForBrowser(
+  page: FetchedPage,
+  fetchAttempts: FetchAttempt[],
+  renderSignals: string[],
+  session: CrawlSession
+): Promise<void> {
+  const url = page.url;
+  const domain = extractDomain(url);
+
+  session.jsRenderedDomains.set(domain, (session.jsRenderedDomains.get(domain) || 0) + 1);
+  session.stats.browserFallbacks++;
+
+  logger.info(
+    { url, renderSignals, learned: isBrowserDomain(session, domain) },
+    'Page looks JS-rendered - re-queueing for browser'
+  );
+
+  try {
+    await session.enqueue({ url, userData: { ...page.userData, fetchAttempts } }, 'playwright');
+  } catch (error) {
+    logger.warn({ url, error: (error as Error).message }, 'Failed to re-queue page for browser');
+  }
+}
+
+/**
+ * Store a request that failed after all retries
+ * A failure whose redirect chain revisits a URL is stored as REDIRECT_LOOP
+ * under the URL the chain started from
+ *
+ * @param url - Request URL
+ * @param userData - Request data (discovery info, client-side redirects followed so far)
+ * @param error - Error that caused the failure
+ * @param fetchMode - Crawler that attempted the request
+ * @param session - Crawl session
+ * @param redirectHops - HTTP redirects followed before the failure
+ */
+export async function processFailedRequest(
+  url: string,
+  userData: Record<string, any>,
+  error: Error,
+  fetchMode: FetchMode,
+  session: CrawlSession,
+  redirectHops: RedirectHop[] = []
+): Promise<void> {
+  const hops: RedirectHop[] = [...(userData.redirectHops || []), ...redirectHops];
+  const lastTarget = hops.length > 0 ? hops[hops.length - 1].target : null;
+  const redirectLoop = isRedirectLoop(hops, lastTarget || undefined);
+
+  if (redirectLoop) {
+    logger.warn({ url, chain: hops.map(hop => hop.url) }, 'Redirect loop');
+    session.stats.redirectLoops++;
+  } else {
+    logger.error({ url, fetchMode, error: error.message }, 'Request failed');
+  }
+
+  // Store failed request
+  const storedUrl = redirectLoop ? hops[0].url : url;
+  const crawlStatus: CrawlStatus = redirectLoop ? 'REDIRECT_LOOP' : 'ERROR';
+  const indexability = classifyIndexability({ crawlStatus });
+  const pageData: CrawlerPageInsert = {
+    final_url: normalizeUrl(storedUrl),
+    requested_url_original: storedUrl,
+    status_code: hops.length > 0 ? hops[0].status_code : undefined,
+    crawl_status: crawlStatus,
+    indexability: indexability.indexability,
+    indexability_reason: indexability.reason,
+    redirect_chain: hops.length > 0 ? hops : undefined,
+    fetch_mode: fetchMode,
+    discovered_via: userData.discoveredVia,
+    discovered_from: userData.discoveredFrom,
+    discovery_depth: userData.depth,
+    last_error: error.message,
+    run_id: session.options.runId,
+  };
+
+  try {
+    await upsertPage(pageData);
+    await recordRunSnapshot(pageData.final_url, pageData.final_url, session);
+  } catch (saveError) {
+    logger.error(
+      { url, error: (saveError as Error).message },
+      'Failed to save error page'
+    );
+  }
+
+  session.stats.errors++;
+}
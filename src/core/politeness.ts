@@ -0,0 +1,345 @@
+/**
+ * Per-domain politeness
+ * robots.txt compliance, request spacing (Crawl-delay and rate limits),
+ * concurrency caps and backoff on 429/503 responses
+ */
+
+import { setTimeout as sleep } from 'timers/promises';
+import type { Request } from 'crawlee';
+import { extractDomain } from './urlNormalizer';
+import {
+  fetchRobotsTxt,
+  checkRobotsRules,
+  isRobotsTxtUnavailable,
+  RobotsRules,
+  RobotsCheck,
+} from '../parsers/robotsParser';
+import { DomainOverride } from '../types/database.types';
+import { logger } from '../utils/logger';
+import {
+  DEFAULT_DOMAIN_MAX_CONCURRENCY,
+  DEFAULT_DOMAIN_MAX_REQUESTS_PER_MINUTE,
+  DOMAIN_SLOT_RETRY_MS,
+  THROTTLE_BACKOFF_BASE_MS,
+  THROTTLE_BACKOFF_MAX_MS,
+  MAX_RETRY_AFTER_SECS,
+  ROBOTS_UNAVAILABLE_RETRY_SECS,
+} from '../config/constants';
+
+/**
+ * HTTP statuses that mean "slow down"
+ */
+const THROTTLE_STATUS_CODES = new Set([429, 503]);
+
+/**
+ * Request spacing and concurrency state per domain
+ */
+export interface DomainThrottle {
+  lastRequestAt: Map<string, number>;        // domain -> timestamp of last request start
+  crawlDelayMs: Map<string, number>;         // domain -> robots.txt Crawl-delay
+  requestIntervalMs: Map<string, number>;    // domain -> gap from max_requests_per_minute
+  maxConcurrency: Map<string, number>;       // domain -> max requests in flight
+  activeRequests: Map<string, number>;       // domain -> requests in flight
+  backoffUntil: Map<string, number>;         // domain -> no requests before this timestamp
+  consecutiveThrottles: Map<string, number>; // domain -> 429/503 responses in a row
+  waitMs: Map<string, number>;               // domain -> total time requests were held back
+}
+
+/**
+ * Cached robots.txt rules per origin
+ * Promises are cached so concurrent requests share one fetch
+ */
+export type RobotsCache = Map<string, Promise<RobotsRules>>;
+
+/**
+ * Create an empty throttle
+ */
+export function createDomainThrottle(): DomainThrottle {
+  return {
+    lastRequestAt: new Map(),
+    crawlDelayMs: new Map(),
+    requestIntervalMs: new Map(),
+    maxConcurrency: new Map(),
+    activeRequests: new Map(),
+    backoffUntil: new Map(),
+    consecutiveThrottles: new Map(),
+    waitMs: new Map(),
+  };
+}
+
+/**
+ * Set the Crawl-delay for a domain
+ *
+ * @param throttle - Throttle state
+ * @param domain - Domain name
+ * @param delaySecs - Seconds between requests
+ */
+export function setCrawlDelay(throttle: DomainThrottle, domain: string, delaySecs: number): void {
+  throttle.crawlDelayMs.set(domain, Math.round(delaySecs * 1000));
+}
+
+/**
+ * Apply rate and concurrency limits for a domain
+ * Values from domain_overrides win over the defaults
+ *
+ * @param throttle - Throttle state
+ * @param domain - Domain name
+ * @param override - Domain override (null = defaults)
+ */
+export function setDomainLimits(
+  throttle: DomainThrottle,
+  domain: string,
+  override: DomainOverride | null
+): void {
+  if (throttle.maxConcurrency.has(domain)) return;
+
+  const maxConcurrency = override?.max_concurrency || DEFAULT_DOMAIN_MAX_CONCURRENCY;
+  const requestsPerMinute = override?.max_requests_per_minute || DEFAULT_DOMAIN_MAX_REQUESTS_PER_MINUTE;
+
+  throttle.maxConcurrency.set(domain, maxConcurrency);
+  if (requestsPerMinute > 0) {
+    throttle.requestIntervalMs.set(domain, Math.round(60000 / requestsPerMinute));
+  }
+
+  if (override?.max_concurrency || override?.max_requests_per_minute) {
+    logger.info({ domain, maxConcurrency, requestsPerMinute }, 'Domain rate limits applied');
+  }
+}
+
+/**
+ * Time until a domain's backoff and request spacing allow another request
+ *
+ * @param throttle - Throttle state
+ * @param domain - Domain name
+ * @param now - Current timestamp
+ * @returns 0 if a request may start now, else milliseconds to wait
+ */
+function domainSpacingWaitMs(throttle: DomainThrottle, domain: string, now: number): number {
+  const backoffUntil = throttle.backoffUntil.get(domain);
+  if (backoffUntil !== undefined && now < backoffUntil) {
+    return backoffUntil - now;
+  }
+
+  const interval = Math.max(
+    throttle.crawlDelayMs.get(domain) || 0,
+    throttle.requestIntervalMs.get(domain) || 0
+  );
+  const last = throttle.lastRequestAt.get(domain);
+  if (last !== undefined && now - last < interval) {
+    return last + interval - now;
+  }
+
+  return 0;
+}
+
+/**
+ * Reserve the next request slot for a domain
+ * Checks backoff, request spacing and the concurrency cap, in that order
+ *
+ * @param throttle - Throttle state
+ * @param domain - Domain name
+ * @returns 0 if the request may start now (slot taken), else milliseconds to wait
+ */
+export function reserveDomainSlot(throttle: DomainThrottle, domain: string): number {
+  const now = Date.now();
+
+  const spacingWaitMs = domainSpacingWaitMs(throttle, domain, now);
+  if (spacingWaitMs > 0) return spacingWaitMs;
+
+  const active = throttle.activeRequests.get(domain) || 0;
+  if (active >= (throttle.maxConcurrency.get(domain) || DEFAULT_DOMAIN_MAX_CONCURRENCY)) {
+    return DOMAIN_SLOT_RETRY_MS;
+  }
+
+  throttle.lastRequestAt.set(domain, now);
+  throttle.activeRequests.set(domain, active + 1);
+  return 0;
+}
+
+/**
+ * Wait for a domain's turn for an extra request made while handling one of its
+ * requests (e.g. the soft-404 probe)
+ * Honors backoff and request spacing; the handled request's slot covers the
+ * concurrency cap (waiting for a free slot could wait on itself)
+ *
+ * @param throttle - Throttle state
+ * @param domain - Domain name
+ */
+export async function waitForDomainTurn(throttle: DomainThrottle, domain: string): Promise<void> {
+  while (true) {
+    const waitMs = domainSpacingWaitMs(throttle, domain, Date.now());
+    if (waitMs === 0) break;
+
+    throttle.waitMs.set(domain, (throttle.waitMs.get(domain) || 0) + waitMs);
+    await sleep(waitMs);
+  }
+  throttle.lastRequestAt.set(domain, Date.now());
+}
+
+/**
+ * Release a slot taken by reserveDomainSlot once the request has finished
+ *
+ * @param throttle - Throttle state
+ * @param domain - Domain name
+ */
+export function releaseDomainSlot(throttle: DomainThrottle, domain: string): void {
+  const active = throttle.activeRequests.get(domain) || 0;
+  throttle.activeRequests.set(domain, Math.max(active - 1, 0));
+}
+
+/**
+ * Hold a request back if its domain is not ready for another request
+ * Parked requests are reclaimed to the queue later, so waiting does not hold
+ * a concurrency slot or count toward the request handler timeout
+ *
+ * @param throttle - Throttle state
+ * @param request - Crawlee request
+ * @param source - Queue the request came from
+ * @returns True if the request was parked
+ */
+export function delayForDomain(
+  throttle: DomainThrottle,
+  request: Request,
+  source: { reclaimRequest(request: Request): Promise<unknown> }
+): boolean {
+  const domain = extractDomain(request.url);
+  const waitMs = reserveDomainSlot(throttle, domain);
+  if (waitMs === 0) return false;
+
+  throttle.waitMs.set(domain, (throttle.waitMs.get(domain) || 0) + waitMs);
+  logger.debug({ url: request.url, waitMs }, 'Domain throttled - request parked');
+  parkRequest(request, source, waitMs);
+  return true;
+}
+
+/**
+ * Put a request back in its queue after a delay
+ *
+ * @param request - Crawlee request
+ * @param source - Queue the request came from
+ * @param delayMs - Milliseconds to wait
+ */
+export function parkRequest(
+  request: Request,
+  source: { reclaimRequest(request: Request): Promise<unknown> },
+  delayMs: number
+): void {
+  setTimeout(() => {
+    source.reclaimRequest(request).catch((error: Error) => {
+      logger.warn({ url: request.url, error: error.message }, 'Failed to reclaim delayed request');
+    });
+  }, delayMs);
+}
+
+/**
+ * Record a response for backoff purposes
+ *
+ * 429/503 responses pause the whole domain: the delay doubles with each
+ * consecutive throttled response, and a longer Retry-After wins.
+ * Any other response resets the backoff.
+ *
+ * @param throttle - Throttle state
+ * @param url - Request URL
+ * @param statusCode - HTTP status
+ * @param retryAfter - Retry-After header value, if any
+ * @returns Backoff in milliseconds, or 0 if the response was not throttled
+ */
+export function recordDomainResponse(
+  throttle: DomainThrottle,
+  url: string,
+  statusCode: number,
+  retryAfter?: string | null
+): number {
+  const domain = extractDomain(url);
+
+  if (!THROTTLE_STATUS_CODES.has(statusCode)) {
+    throttle.consecutiveThrottles.delete(domain);
+    return 0;
+  }
+
+  const consecutive = (throttle.consecutiveThrottles.get(domain) || 0) + 1;
+  throttle.consecutiveThrottles.set(domain, consecutive);
+
+  const exponentialMs = Math.min(THROTTLE_BACKOFF_BASE_MS * 2 ** (consecutive - 1), THROTTLE_BACKOFF_MAX_MS);
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  const backoffMs = Math.max(exponentialMs, retryAfterMs || 0);
+
+  const until = Date.now() + backoffMs;
+  throttle.backoffUntil.set(domain, Math.max(throttle.backoffUntil.get(domain) || 0, until));
+
+  logger.warn({ domain, statusCode, retryAfter, consecutive, backoffMs }, 'Domain throttled - backing off');
+  return backoffMs;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date)
+ *
+ * @param value - Header value
+ * @returns Milliseconds to wait (capped at MAX_RETRY_AFTER_SECS), or null if absent/invalid
+ */
+export function parseRetryAfter(value?: string | null): number | null {
+  if (!value) return null;
+
+  let delayMs: number;
+  if (/^\d+$/.test(value.trim())) {
+    delayMs = parseInt(value.trim(), 10) * 1000;
+  } else {
+    const date = Date.parse(value);
+    if (isNaN(date)) return null;
+    delayMs = Math.max(date - Date.now(), 0);
+  }
+
+  return Math.min(delayMs, MAX_RETRY_AFTER_SECS * 1000);
+}
+
+/**
+ * Get robots.txt rules for a URL's origin (fetched once per origin; an
+ * unreachable robots.txt is fetched again after ROBOTS_UNAVAILABLE_RETRY_SECS)
+ *
+ * @param cache - Robots cache
+ * @param url - Absolute URL
+ * @returns Parsed rules
+ */
+export async function getRobotsRules(cache: RobotsCache, url: string): Promise<RobotsRules> {
+  const origin = new URL(url).origin;
+
+  let rules = cache.get(origin);
+  if (!rules) {
+    rules = fetchRobotsTxt(origin).then((fetched) => {
+      if (isRobotsTxtUnavailable(fetched.fetchStatus)) {
+        logger.warn(
+          { origin, status: fetched.fetchStatus, retryInSecs: ROBOTS_UNAVAILABLE_RETRY_SECS },
+          'robots.txt unavailable - origin disallowed until it can be fetched'
+        );
+        setTimeout(() => cache.delete(origin), ROBOTS_UNAVAILABLE_RETRY_SECS * 1000).unref();
+      } else {
+        logger.info(
+          {
+            origin,
+            status: fetched.fetchStatus,
+            rules: fetched.rules.length,
+            crawlDelaySecs: fetched.crawlDelaySecs,
+            sitemaps: fetched.sitemaps.length,
+          },
+          'robots.txt loaded'
+        );
+      }
+      return fetched;
+    });
+    cache.set(origin, rules);
+  }
+
+  return rules;
+}
+
+/**
+ * Check a URL against its origin's robots.txt
+ *
+ * @param cache - Robots cache
+ * @param url - Absolute URL
+ * @returns Whether the URL may be crawled and which rule decided it
+ */
+export async function checkRobots(cache: RobotsCache, url: string): Promise<RobotsCheck> {
+  const rules = await getRobotsRules(cache, url);
+  return checkRobotsRules(rules, url);
+}
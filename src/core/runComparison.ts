@@ -0,0 +1,242 @@
+/**
+ * Run-to-run comparison
+ * Compares what two crawl runs saw (crawler_run_pages) for site migration checks
+ */
+
+import { getRunPages } from '../db/queries';
+import { CrawlerRunPage } from '../types/database.types';
+
+const COMPARED_FIELDS = ['title', 'h1', 'meta_description'] as const;
+
+// Word-count swings below this many words are noise (cookie banners, dates)
+const MIN_WORD_SWING = 50;
+
+export type ComparedField = typeof COMPARED_FIELDS[number];
+
+export interface RedirectChange {
+  url: string;
+  fromFinalUrl: string | null;  // null = not a redirect in the first run
+  toFinalUrl: string;
+}
+
+export interface StatusChange {
+  url: string;
+  fromStatus: string;
+  toStatus: string;
+  fromCode: number | null;
+  toCode: number | null;
+}
+
+export interface FieldChange {
+  url: string;
+  field: ComparedField;
+  from: string | null;
+  to: string | null;
+}
+
+export interface WordCountSwing {
+  url: string;
+  from: number;
+  to: number;
+  changePct: number;
+}
+
+export interface NavChange {
+  url: string;
+  fromFingerprint: string;
+  toFingerprint: string;
+}
+
+export interface RunComparison {
+  fromRunId: string;
+  toRunId: string;
+  host: string | null;
+  summary: {
+    fromPages: number;
+    toPages: number;
+    added: number;
+    removed: number;
+    newRedirects: number;
+    statusChanges: number;
+    fieldChanges: number;
+    wordCountSwings: number;
+    navChanges: number;
+  };
+  added: string[];
+  removed: string[];
+  newRedirects: RedirectChange[];
+  statusChanges: StatusChange[];
+  fieldChanges: FieldChange[];
+  wordCountSwings: WordCountSwing[];
+  navChanges: NavChange[];
+}
+
+export interface CompareOptions {
+  host?: string;
+  wordSwingPct?: number;  // Minimum word-count change in percent (default 30)
+}
+
+/**
+ * Index snapshot rows by the URL they resolved to
+ * A page reached both directly and through a redirect keeps the direct row
+ */
+function indexByFinalUrl(rows: CrawlerRunPage[]): Map<string, CrawlerRunPage> {
+  const pages = new Map<string, CrawlerRunPage>();
+  for (const row of rows) {
+    if (!pages.has(row.final_url) || row.url === row.final_url) {
+      pages.set(row.final_url, row);
+    }
+  }
+  return pages;
+}
+
+/**
+ * Compare the pages seen by two crawl runs
+ *
+ * @param fromRunId - Earlier run
+ * @param toRunId - Later run
+ * @param options - Host filter and word-count swing threshold
+ * @returns Differences between the runs
+ */
+export async function compareRuns(
+  fromRunId: string,
+  toRunId: string,
+  options: CompareOptions = {}
+): Promise<RunComparison> {
+  const wordSwingPct = options.wordSwingPct ?? 30;
+
+  const fromRows = await getRunPages(fromRunId, options.host);
+  const toRows = await getRunPages(toRunId, options.host);
+
+  const fromPages = indexByFinalUrl(fromRows);
+  const toPages = indexByFinalUrl(toRows);
+  const fromByUrl = new Map(fromRows.map(row => [row.url, row]));
+
+  const added = [...toPages.keys()].filter(url => !fromPages.has(url)).sort();
+  const removed = [...fromPages.keys()].filter(url => !toPages.has(url)).sort();
+
+  // Redirects that did not exist (or pointed elsewhere) in the earlier run
+  const newRedirects: RedirectChange[] = [];
+  for (const row of toRows) {
+    if (row.url === row.final_url) continue;
+    const before = fromByUrl.get(row.url);
+    if (before && before.final_url === row.final_url) continue;
+    newRedirects.push({
+      url: row.url,
+      fromFinalUrl: before && before.url !== before.final_url ? before.final_url : null,
+      toFinalUrl: row.final_url,
+    });
+  }
+
+  const statusChanges: StatusChange[] = [];
+  const fieldChanges: FieldChange[] = [];
+  const wordCountSwings: WordCountSwing[] = [];
+  const navChanges: NavChange[] = [];
+
+  for (const [url, to] of toPages) {
+    const from = fromPages.get(url);
+    if (!from) continue;
+
+    if (from.crawl_status !== to.crawl_status || from.status_code !== to.status_code) {
+      statusChanges.push({
+        url,
+        fromStatus: from.crawl_status,
+        toStatus: to.crawl_status,
+        fromCode: from.status_code,
+        toCode: to.status_code,
+      });
+    }
+
+    // Content comparisons only make sense between two successful fetches
+    if (from.crawl_status !== 'OK' || to.crawl_status !== 'OK') continue;
+
+    for (const field of COMPARED_FIELDS) {
+      if ((from[field] || '') !== (to[field] || '')) {
+        fieldChanges.push({ url, field, from: from[field], to: to[field] });
+      }
+    }
+
+    const delta = to.word_count - from.word_count;
+    const changePct = from.word_count > 0 ? (delta / from.word_count) * 100 : 100;
+    if (Math.abs(delta) >= MIN_WORD_SWING && Math.abs(changePct) >= wordSwingPct) {
+      wordCountSwings.push({
+        url,
+        from: from.word_count,
+        to: to.word_count,
+        changePct: Math.round(changePct * 10) / 10,
+      });
+    }
+
+    if (from.nav_fingerprint && to.nav_fingerprint && from.nav_fingerprint !== to.nav_fingerprint) {
+      navChanges.push({ url, fromFingerprint: from.nav_fingerprint, toFingerprint: to.nav_fingerprint });
+    }
+  }
+
+  return {
+    fromRunId,
+    toRunId,
+    host: options.host || null,
+    summary: {
+      fromPages: fromPages.size,
+      toPages: toPages.size,
+      added: added.length,
+      removed: removed.length,
+      newRedirects: newRedirects.length,
+      statusChanges: statusChanges.length,
+      fieldChanges: fieldChanges.length,
+      wordCountSwings: wordCountSwings.length,
+      navChanges: navChanges.length,
+    },
+    added,
+    removed,
+    newRedirects,
+    statusChanges,
+    fieldChanges,
+    wordCountSwings,
+    navChanges,
+  };
+}
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ */
+function csvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flatten a comparison into CSV rows: change_type,url,field,from,to
+ *
+ * @param comparison - Result of compareRuns
+ * @returns CSV text with a header row
+ */
+export function comparisonToCsv(comparison: RunComparison): string {
+  const rows: Array<Array<string | number | null>> = [['change_type', 'url', 'field', 'from', 'to']];
+
+  for (const url of comparison.added) rows.push(['added', url, null, null, null]);
+  for (const url of comparison.removed) rows.push(['removed', url, null, null, null]);
+  for (const change of comparison.newRedirects) {
+    rows.push(['new_redirect', change.url, 'final_url', change.fromFinalUrl, change.toFinalUrl]);
+  }
+  for (const change of comparison.statusChanges) {
+    rows.push([
+      'status_change',
+      change.url,
+      'crawl_status',
+      `${change.fromStatus} (${change.fromCode ?? '-'})`,
+      `${change.toStatus} (${change.toCode ?? '-'})`,
+    ]);
+  }
+  for (const change of comparison.fieldChanges) {
+    rows.push(['field_change', change.url, change.field, change.from, change.to]);
+  }
+  for (const swing of comparison.wordCountSwings) {
+    rows.push(['word_count_swing', swing.url, 'word_count', swing.from, swing.to]);
+  }
+  for (const change of comparison.navChanges) {
+    rows.push(['nav_change', change.url, 'nav_fingerprint', change.fromFingerprint, change.toFingerprint]);
+  }
+
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
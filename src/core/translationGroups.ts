@@ -0,0 +1,154 @@
+/**
+ * Translation groups
+ * Links pages that hreflang annotations name as versions of each other
+ * (one group per set of translations) and validates the annotations
+ */
+
+import { getHreflangPages, getUrlStatuses, replaceTranslationGroups } from '../db/queries';
+import { isValidHreflangCode } from '../parsers/hreflangParser';
+import {
+  HreflangIssue,
+  HreflangLink,
+  HreflangPage,
+  StoredUrlStatus,
+  TranslationGroupMemberInsert,
+} from '../types/database.types';
+import { md5Hash } from '../utils/hash';
+
+/**
+ * Validate a page's own annotations and the return links of its alternates
+ *
+ * @param page - Page with hreflang annotations
+ * @param annotated - Every annotated page, by URL
+ * @param statuses - What the crawl stored for alternates without annotations
+ * @returns Issues found (empty when the annotations are sound)
+ */
+function validateAnnotations(
+  page: HreflangPage,
+  annotated: Map<string, HreflangPage>,
+  statuses: Map<string, StoredUrlStatus>
+): HreflangIssue[] {
+  const issues: HreflangIssue[] = [];
+  const urlsByCode = new Map<string, Set<string>>();
+
+  for (const link of page.hreflang) {
+    if (!isValidHreflangCode(link.hreflang)) {
+      issues.push({ type: 'invalid_code', hreflang: link.hreflang, url: link.url });
+    }
+    if (!urlsByCode.has(link.hreflang)) urlsByCode.set(link.hreflang, new Set());
+    urlsByCode.get(link.hreflang)!.add(link.url);
+  }
+
+  for (const [code, urls] of urlsByCode) {
+    if (urls.size > 1) issues.push({ type: 'duplicate_code', hreflang: code, url: null });
+  }
+
+  if (!page.hreflang.some(link => link.url === page.final_url)) {
+    issues.push({ type: 'missing_self_reference', hreflang: null, url: null });
+  }
+
+  const alternates = new Map<string, string>();
+  for (const link of page.hreflang) {
+    if (link.url !== page.final_url && !alternates.has(link.url)) alternates.set(link.url, link.hreflang);
+  }
+
+  for (const [url, code] of alternates) {
+    const target = annotated.get(url);
+    const status = target ? { crawl_status: target.crawl_status, redirects_to: null } : statuses.get(url);
+    if (!status) continue;  // Not crawled: nothing to check against
+
+    if (status.redirects_to) {
+      issues.push({ type: 'target_redirects', hreflang: code, url });
+    } else if (status.crawl_status !== 'OK') {
+      issues.push({ type: 'target_not_ok', hreflang: code, url });
+    } else if (!target || !target.hreflang.some(link => link.url === page.final_url)) {
+      issues.push({ type: 'missing_return_link', hreflang: code, url });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Code a group member goes by: its own self-reference, else what the other
+ * members call it (a language code before x-default)
+ */
+function memberCode(url: string, links: HreflangLink[]): string | null {
+  const codes = links.filter(link => link.url === url).map(link => link.hreflang);
+  return codes.find(code => code !== 'x-default') || codes[0] || null;
+}
+
+/**
+ * Rebuild the translation groups of the given hosts from stored hreflang annotations
+ *
+ * Pages connected by annotations in either direction form one group, so a
+ * missing return link does not split a group; it is reported as an issue.
+ *
+ * @param hosts - Hostnames crawled in the run
+ * @param runId - Crawl run UUID
+ * @returns Number of groups, member pages and issues
+ */
+export async function buildTranslationGroups(
+  hosts: string[],
+  runId: string
+): Promise<{ groups: number; pages: number; issues: number }> {
+  const pages = await getHreflangPages(hosts);
+  const annotated = new Map(pages.map(page => [page.final_url, page]));
+
+  const unannotated = [...new Set(pages.flatMap(page => page.hreflang.map(link => link.url)))]
+    .filter(url => !annotated.has(url));
+  const statuses = await getUrlStatuses(unannotated);
+
+  // Union-find over pages and the alternates they name
+  const parent = new Map<string, string>();
+  const find = (url: string): string => {
+    let root = url;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(url, root);
+    return root;
+  };
+  for (const page of pages) {
+    find(page.final_url);
+    for (const link of page.hreflang) {
+      const a = find(page.final_url);
+      const b = find(link.url);
+      if (a !== b) parent.set(b, a);
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const url of parent.keys()) {
+    const root = find(url);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(url);
+  }
+
+  const members: TranslationGroupMemberInsert[] = [];
+  let issueCount = 0;
+
+  for (const urls of groups.values()) {
+    urls.sort();
+    const groupKey = md5Hash(urls[0]);
+    const groupLinks = urls.flatMap(url => annotated.get(url)?.hreflang || []);
+
+    for (const url of urls) {
+      const page = annotated.get(url);
+      const status = statuses.get(url);
+      const issues = page ? validateAnnotations(page, annotated, statuses) : [];
+      issueCount += issues.length;
+
+      members.push({
+        final_url: url,
+        group_key: groupKey,
+        hreflang: memberCode(url, page?.hreflang || []) || memberCode(url, groupLinks),
+        declared_language: page ? page.declared_language : status?.declared_language || null,
+        crawl_status: page ? page.crawl_status : status?.crawl_status || null,
+        issues,
+        run_id: runId,
+      });
+    }
+  }
+
+  await replaceTranslationGroups(hosts, members);
+  return { groups: groups.size, pages: members.length, issues: issueCount };
+}
@@ -0,0 +1,101 @@
+/**
+ * URL scope rules for link discovery
+ * Decides which discovered links stay inside the crawl
+ */
+
+import { DiscoveryScope } from '../types/crawl.types';
+
+/**
+ * File extensions that are never HTML pages
+ */
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|svg|ico|bmp|tiff?|mp4|mov|avi|webm|mp3|wav|zip|rar|gz|7z|docx?|xlsx?|pptx?|csv|xml|json|txt|css|js|woff2?|ttf|eot)$/i;
+
+/**
+ * Compiled scope for a crawl run
+ */
+export interface UrlScope {
+  scope: DiscoveryScope;
+  hosts: Set<string>;        // Hostnames of the seed URLs
+  baseDomains: Set<string>;  // Seed hostnames without "www." (for subdomain scope)
+  pathPrefixes: string[];    // Allowed path prefixes (path scope)
+  include: RegExp[];         // URL must match at least one (if any given)
+  exclude: RegExp[];         // URL must match none
+}
+
+/**
+ * Build the scope for a crawl from its seed URLs
+ *
+ * @param seedUrls - Normalized seed URLs (sitemap entries)
+ * @param options - Scope type, path prefixes and include/exclude regex patterns
+ * @returns Compiled scope
+ */
+export function createUrlScope(
+  seedUrls: string[],
+  options: {
+    scope?: DiscoveryScope;
+    pathPrefixes?: string[];
+    includePatterns?: string[];
+    excludePatterns?: string[];
+  }
+): UrlScope {
+  const hosts = new Set<string>();
+  for (const url of seedUrls) {
+    try {
+      hosts.add(new URL(url).hostname);
+    } catch {
+      // Invalid seeds are reported by the sitemap parser
+    }
+  }
+
+  return {
+    scope: options.scope || 'host',
+    hosts,
+    baseDomains: new Set(Array.from(hosts).map(host => host.replace(/^www\./, ''))),
+    pathPrefixes: options.pathPrefixes && options.pathPrefixes.length > 0 ? options.pathPrefixes : ['/'],
+    include: (options.includePatterns || []).map(pattern => new RegExp(pattern, 'i')),
+    exclude: (options.excludePatterns || []).map(pattern => new RegExp(pattern, 'i')),
+  };
+}
+
+/**
+ * Check whether a discovered URL is inside the crawl scope
+ *
+ * @param url - Normalized absolute URL
+ * @param scope - Compiled scope
+ * @returns True if the URL should be crawled
+ */
+export function isInScope(url: string, scope: UrlScope): boolean {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (urlObj.protocol !== 'http:' && urlObj.protocol !== 'https:') return false;
+  if (NON_HTML_EXTENSIONS.test(urlObj.pathname)) return false;
+
+  const host = urlObj.hostname;
+  switch (scope.scope) {
+    case 'subdomains': {
+      const bare = host.replace(/^www\./, '');
+      const matches = Array.from(scope.baseDomains).some(
+        base => bare === base || bare.endsWith(`.${base}`)
+      );
+      if (!matches) return false;
+      break;
+    }
+    case 'path':
+      if (!scope.hosts.has(host)) return false;
+      if (!scope.pathPrefixes.some(prefix => urlObj.pathname.startsWith(prefix))) return false;
+      break;
+    case 'host':
+    default:
+      if (!scope.hosts.has(host)) return false;
+  }
+
+  if (scope.exclude.some(pattern => pattern.test(url))) return false;
+  if (scope.include.length > 0 && !scope.include.some(pattern => pattern.test(url))) return false;
+
+  return true;
+}
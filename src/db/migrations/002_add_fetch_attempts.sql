@@ -0,0 +1,10 @@
+-- Migration: Record fetch attempts per page
+-- Version: 002
+-- Date: 2026-10-19
+-- Purpose: Track the Cheerio -> Playwright fallback for JS-rendered pages
+
+-- fetch_attempts: JSON array of { fetch_mode, status_code, word_count, render_signals, attempted_at }
+-- fetch_mode (existing) keeps the mode that produced the stored content
+
+ALTER TABLE crawler_pages
+  ADD COLUMN fetch_attempts JSON COMMENT 'Fetch attempts in the last crawl (cheerio, then playwright on fallback)' AFTER fetch_mode;
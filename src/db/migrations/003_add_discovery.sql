@@ -0,0 +1,14 @@
+-- Migration: Link discovery tracking
+-- Version: 003
+-- Date: 2026-10-19
+-- Purpose: Record how each page was found (sitemap seed vs followed link)
+
+-- - discovered_via: 'sitemap' or 'link'
+-- - discovered_from: referring page for link discovery (NULL for sitemap seeds)
+-- - discovery_depth: link hops from a sitemap page (0 = sitemap)
+
+ALTER TABLE crawler_pages
+  ADD COLUMN discovered_via ENUM('sitemap', 'link') COMMENT 'How the page was discovered' AFTER sitemap_type_hint,
+  ADD COLUMN discovered_from VARCHAR(768) COMMENT 'Referring page URL for link discovery' AFTER discovered_via,
+  ADD COLUMN discovery_depth INT COMMENT 'Link hops from a sitemap page (0 = sitemap)' AFTER discovered_from,
+  ADD INDEX idx_discovered_via (discovered_via);
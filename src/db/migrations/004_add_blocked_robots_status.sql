@@ -0,0 +1,10 @@
+-- Migration: robots.txt compliance
+-- Version: 004
+-- Date: 2026-10-19
+-- Purpose: Record URLs that were not fetched because robots.txt disallows them
+
+-- BLOCKED_ROBOTS rows keep the matched rule in last_error (e.g., "Disallow: /private/")
+-- so SEO reports can flag sitemap URLs that robots.txt blocks
+
+ALTER TABLE crawler_pages
+  MODIFY COLUMN crawl_status ENUM('OK', 'REDIRECT_ALIAS', 'NOT_FOUND', 'SOFT_404', 'ERROR', 'BLOCKED_ROBOTS') NOT NULL COMMENT 'Crawl outcome';
@@ -0,0 +1,13 @@
+-- Migration: Per-domain politeness limits
+-- Version: 005
+-- Date: 2026-10-19
+-- Purpose: Cap concurrency and request rate per domain so multi-domain runs do not overload small hosts
+
+-- NULL = crawler defaults (DEFAULT_DOMAIN_MAX_CONCURRENCY, DEFAULT_DOMAIN_MAX_REQUESTS_PER_MINUTE)
+
+ALTER TABLE domain_overrides
+  ADD COLUMN max_concurrency INT NULL COMMENT 'Max requests in flight to this domain' AFTER force_fetch_mode,
+  ADD COLUMN max_requests_per_minute INT NULL COMMENT 'Max request starts per minute for this domain' AFTER max_concurrency;
+
+-- Example: throttle a small client host
+-- UPDATE domain_overrides SET max_concurrency = 1, max_requests_per_minute = 30 WHERE domain = 'example.com';
@@ -0,0 +1,10 @@
+-- Migration: Resumable crawl runs
+-- Version: 006
+-- Date: 2026-10-19
+-- Purpose: Store each run's CLI options so `crawl --resume <runId>` can continue it with the same settings
+
+ALTER TABLE crawl_runs
+  ADD COLUMN crawl_options JSON COMMENT 'Crawl options snapshot (max pages, fetch mode, discovery, robots...)' AFTER fetch_mode_default;
+
+-- Unfinished runs (candidates for --resume)
+-- SELECT run_id, started_at, total_pages_crawled FROM crawl_runs WHERE finished_at IS NULL ORDER BY started_at DESC;
@@ -0,0 +1,11 @@
+-- Migration: Incremental recrawl
+-- Version: 007
+-- Date: 2026-10-19
+-- Purpose: Store ETag / Last-Modified so `--incremental` can send conditional requests
+
+-- Unchanged pages (304 or same content_hash) keep their row; only last_crawled_at,
+-- run_id and these validators are updated
+
+ALTER TABLE crawler_pages
+  ADD COLUMN etag VARCHAR(255) COMMENT 'ETag response header' AFTER content_hash,
+  ADD COLUMN last_modified VARCHAR(64) COMMENT 'Last-Modified response header' AFTER etag;
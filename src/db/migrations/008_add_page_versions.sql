@@ -0,0 +1,32 @@
+-- Migration: Page version history
+-- Version: 008
+-- Date: 2026-10-19
+-- Purpose: Keep every distinct version of a page across runs (crawler_pages only holds the latest)
+
+-- A version is written on first crawl and whenever content_hash or a tracked SEO field
+-- (title, h1, meta_description, crawl_status) changes. Unchanged recrawls add no rows.
+
+CREATE TABLE IF NOT EXISTS crawler_page_versions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  final_url VARCHAR(768) NOT NULL COMMENT 'Page this version belongs to (crawler_pages.final_url)',
+  run_id VARCHAR(36) COMMENT 'Crawl run that observed this version',
+
+  -- Snapshot
+  status_code INT COMMENT 'HTTP status code',
+  crawl_status ENUM('OK', 'REDIRECT_ALIAS', 'NOT_FOUND', 'SOFT_404', 'ERROR', 'BLOCKED_ROBOTS') NOT NULL COMMENT 'Crawl outcome',
+  title VARCHAR(500) COMMENT 'Page title',
+  h1 VARCHAR(500) COMMENT 'First H1 heading',
+  meta_description TEXT COMMENT 'Meta description',
+  word_count INT DEFAULT 0 COMMENT 'Word count of main content',
+  content_hash VARCHAR(32) COMMENT 'MD5 hash of content',
+  markdown LONGTEXT COMMENT 'Extracted Markdown content',
+
+  -- Change tracking
+  changed_fields JSON COMMENT 'Fields that differ from the previous version (["created"] for the first)',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'When this version was recorded',
+
+  -- Indexes
+  INDEX idx_version_url (final_url(255), created_at),
+  INDEX idx_version_run (run_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+COMMENT='Page version history for change tracking across runs';
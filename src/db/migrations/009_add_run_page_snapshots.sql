@@ -0,0 +1,32 @@
+-- Migration: Run-to-run comparison
+-- Version: 009
+-- Date: 2026-10-19
+-- Purpose: Snapshot what every run saw per URL, so two runs can be compared after later runs
+--          have overwritten crawler_pages
+
+ALTER TABLE crawler_pages
+  ADD COLUMN nav_fingerprint VARCHAR(16) COMMENT 'Fingerprint of primary nav links (generateNavFingerprint)' AFTER nav_structure;
+
+CREATE TABLE IF NOT EXISTS crawler_run_pages (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  run_id VARCHAR(36) NOT NULL COMMENT 'Crawl run UUID',
+  url VARCHAR(768) NOT NULL COMMENT 'Normalized URL as queued (sitemap/discovered URL)',
+  url_hash CHAR(32) NOT NULL COMMENT 'MD5 of url (unique per run)',
+  final_url VARCHAR(768) NOT NULL COMMENT 'Final URL after redirects',
+
+  -- Copied from crawler_pages after the run processed the URL
+  status_code INT COMMENT 'HTTP status code',
+  crawl_status ENUM('OK', 'REDIRECT_ALIAS', 'NOT_FOUND', 'SOFT_404', 'ERROR', 'BLOCKED_ROBOTS') NOT NULL COMMENT 'Crawl outcome',
+  title VARCHAR(500) COMMENT 'Page title',
+  h1 VARCHAR(500) COMMENT 'First H1 heading',
+  meta_description TEXT COMMENT 'Meta description',
+  word_count INT DEFAULT 0 COMMENT 'Word count of main content',
+  content_hash VARCHAR(32) COMMENT 'MD5 hash of content',
+  nav_fingerprint VARCHAR(16) COMMENT 'Fingerprint of primary nav links',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP COMMENT 'When the run processed the URL',
+
+  -- Indexes
+  UNIQUE KEY uniq_run_url (run_id, url_hash),
+  INDEX idx_run_final_url (run_id, final_url(255))
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+COMMENT='Per-run page snapshots for run-to-run comparison';
@@ -0,0 +1,10 @@
+-- Migration: Soft-404 detection
+-- Version: 010
+-- Date: 2026-10-19
+-- Purpose: Store why a page was classified as SOFT_404
+
+-- Signals: title_pattern, body_pattern, thin_content, matches_missing_probe,
+-- redirect_to_homepage (see src/extraction/soft404Detector.ts)
+
+ALTER TABLE crawler_pages
+  ADD COLUMN soft_404_signals JSON COMMENT 'Signals that classified the page as SOFT_404' AFTER crawl_status;
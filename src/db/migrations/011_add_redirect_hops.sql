@@ -0,0 +1,21 @@
+-- Migration: Multi-hop redirect chains
+-- Version: 011
+-- Date: 2026-10-19
+-- Purpose: Record redirect loops; redirect_chain now holds one object per hop
+
+-- crawler_pages.redirect_chain and url_aliases.redirect_chain were arrays of URLs
+-- ([requested, final]). They now hold every hop in order:
+--   [{"url": "...", "status_code": 301, "redirect_type": "http", "target": "..."}, ...]
+-- redirect_type is http, meta_refresh, javascript or canonical; the last hop is the
+-- final page (redirect_type NULL, or canonical when it names another URL as canonical).
+-- Rows written before this migration keep the old format until the page is recrawled.
+
+ALTER TABLE crawler_pages
+  MODIFY COLUMN crawl_status ENUM('OK', 'REDIRECT_ALIAS', 'REDIRECT_LOOP', 'NOT_FOUND', 'SOFT_404', 'ERROR', 'BLOCKED_ROBOTS') NOT NULL COMMENT 'Crawl outcome',
+  MODIFY COLUMN redirect_chain JSON COMMENT 'Redirect hops: url, status_code, redirect_type, target';
+
+ALTER TABLE url_aliases
+  MODIFY COLUMN redirect_chain JSON COMMENT 'Redirect hops: url, status_code, redirect_type, target';
+
+ALTER TABLE crawler_run_pages
+  MODIFY COLUMN crawl_status ENUM('OK', 'REDIRECT_ALIAS', 'REDIRECT_LOOP', 'NOT_FOUND', 'SOFT_404', 'ERROR', 'BLOCKED_ROBOTS') NOT NULL COMMENT 'Crawl outcome';
@@ -0,0 +1,18 @@
+-- Migration: Canonical audit
+-- Version: 012
+-- Date: 2026-10-19
+-- Purpose: Store each page's rel=canonical and how it relates to the page
+
+-- canonical_status:
+--   self           canonical is the page itself
+--   canonicalized  canonical names another page on the same host
+--   to_redirect    canonical names a URL that redirects (resolved after the crawl)
+--   to_not_found   canonical names a URL that is NOT_FOUND / SOFT_404 (resolved after the crawl)
+--   cross_domain   canonical names a page on another host
+--   missing        no (usable) canonical tag
+
+ALTER TABLE crawler_pages
+  ADD COLUMN canonical_url VARCHAR(768) COMMENT 'rel=canonical (normalized)' AFTER meta_description,
+  ADD COLUMN canonical_status ENUM('self', 'canonicalized', 'to_redirect', 'to_not_found', 'cross_domain', 'missing') COMMENT 'Canonical classification' AFTER canonical_url,
+  ADD INDEX idx_canonical_status (canonical_status),
+  ADD INDEX idx_canonical_url (canonical_url(255));
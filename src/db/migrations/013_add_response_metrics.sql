@@ -0,0 +1,16 @@
+-- Migration: Response headers and timings
+-- Version: 013
+-- Date: 2026-10-19
+-- Purpose: Keep selected response headers plus TTFB, download time and size per page
+--          (technical SEO and performance reports)
+
+-- response_headers holds only STORED_RESPONSE_HEADERS (src/config/constants.ts), lowercase names.
+-- ttfb_ms: request start to first response byte; download_ms: request start to last byte.
+-- Both cover the final request only (not earlier redirect hops).
+
+ALTER TABLE crawler_pages
+  ADD COLUMN response_headers JSON COMMENT 'Selected response headers (lowercase names)' AFTER last_modified,
+  ADD COLUMN ttfb_ms INT COMMENT 'Time to first byte (ms)' AFTER response_headers,
+  ADD COLUMN download_ms INT COMMENT 'Request start to last byte (ms)' AFTER ttfb_ms,
+  ADD COLUMN content_bytes INT COMMENT 'Response body size (bytes, decoded)' AFTER download_ms,
+  ADD INDEX idx_ttfb (ttfb_ms);
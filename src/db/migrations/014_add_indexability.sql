@@ -0,0 +1,16 @@
+-- Migration: Robots directives and indexability
+-- Version: 014
+-- Date: 2026-10-19
+-- Purpose: Store meta robots / X-Robots-Tag directives and a computed indexability
+--          verdict with its reason, so consumers can filter out non-indexable pages
+
+-- robots_directives: {"effective": {...}, "sources": {"meta:robots": {...}, "header:googlebot": {...}}}
+--   effective = generic sources plus INDEXABILITY_USER_AGENT's own (src/config/constants.ts)
+-- indexability_reason (first that applies): blocked_robots_txt, redirect, not_found, soft_404,
+--   redirect_loop, error, noindex, unavailable_after, canonicalized. NULL when indexable.
+
+ALTER TABLE crawler_pages
+  ADD COLUMN robots_directives JSON COMMENT 'Robots meta / X-Robots-Tag directives' AFTER canonical_status,
+  ADD COLUMN indexability ENUM('indexable', 'non_indexable') COMMENT 'Computed indexability' AFTER robots_directives,
+  ADD COLUMN indexability_reason VARCHAR(32) COMMENT 'Why the page is non-indexable' AFTER indexability,
+  ADD INDEX idx_indexability (indexability, indexability_reason);
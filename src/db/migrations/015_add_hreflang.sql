@@ -0,0 +1,33 @@
+-- Migration: hreflang and translation groups
+-- Version: 015
+-- Date: 2026-10-19
+-- Purpose: Store hreflang alternates and the declared language per page, and link pages
+--          that are translations of each other (language separation, hreflang audits)
+
+-- hreflang: [{"hreflang": "es", "url": "https://example.com/es/", "source": "html|header|sitemap"}]
+-- declared_language: <html lang> / meta content-language, else Content-Language header,
+--   else the page's own hreflang annotation (lowercase)
+
+ALTER TABLE crawler_pages
+  ADD COLUMN declared_language VARCHAR(35) COMMENT 'Declared language (lowercase tag)' AFTER canonical_status,
+  ADD COLUMN hreflang JSON COMMENT 'hreflang alternates (<link>, Link header, sitemap)' AFTER declared_language,
+  ADD INDEX idx_declared_language (declared_language);
+
+-- Rebuilt at the end of every crawl for the hosts it crawled.
+-- issues: [{"type": "missing_return_link", "hreflang": "es", "url": "https://example.com/es/"}]
+
+CREATE TABLE IF NOT EXISTS translation_groups (
+  final_url VARCHAR(768) NOT NULL PRIMARY KEY COMMENT 'Normalized page URL (one group per page)',
+  group_key CHAR(32) NOT NULL COMMENT 'MD5 of the first member URL (sorted)',
+  hreflang VARCHAR(35) COMMENT 'Code the group uses for this page',
+  declared_language VARCHAR(35) COMMENT 'Copied from crawler_pages',
+  crawl_status ENUM('OK', 'REDIRECT_ALIAS', 'REDIRECT_LOOP', 'NOT_FOUND', 'SOFT_404', 'ERROR', 'BLOCKED_ROBOTS') COMMENT 'NULL = not crawled or redirects',
+  issues JSON COMMENT 'hreflang issues of this page',
+  run_id VARCHAR(36) COMMENT 'Run that built the group',
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+  -- Indexes
+  INDEX idx_group_key (group_key),
+  INDEX idx_hreflang (hreflang)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+COMMENT='Pages linked as translations by hreflang';
@@ -0,0 +1,17 @@
+-- Migration: Content language detection
+-- Version: 016
+-- Date: 2026-10-19
+-- Purpose: Store the language detected from page content next to the declared one,
+--          and flag pages whose declared language is wrong
+
+-- detected_language: ISO 639-1, from the extracted markdown (src/extraction/languageDetector.ts);
+--   NULL when the page has too little text.
+-- language_mismatch: NULL when either language is unknown or the detection is below
+--   LANGUAGE_MISMATCH_MIN_CONFIDENCE (src/config/constants.ts).
+
+ALTER TABLE crawler_pages
+  ADD COLUMN detected_language VARCHAR(8) COMMENT 'Language detected from content (ISO 639-1)' AFTER declared_language,
+  ADD COLUMN language_confidence FLOAT COMMENT 'Detection confidence (0..1)' AFTER detected_language,
+  ADD COLUMN language_mismatch BOOLEAN COMMENT 'Declared and detected language differ' AFTER language_confidence,
+  ADD INDEX idx_detected_language (detected_language),
+  ADD INDEX idx_language_mismatch (language_mismatch);
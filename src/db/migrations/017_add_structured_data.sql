@@ -0,0 +1,17 @@
+-- Migration: Structured data
+-- Version: 017
+-- Date: 2026-10-19
+-- Purpose: Store every JSON-LD, Microdata and RDFa entity of a page, normalized,
+--          with validation issues for the schema audit
+
+-- structured_data: StructuredDataEntity[] (src/extraction/structuredDataExtractor.ts);
+--   nested entities sit inside their parent's properties.
+-- schema_types: distinct top-level types, e.g. ["MedicalClinic", "FAQPage"]
+--   (filter with JSON_CONTAINS(schema_types, '"Product"')).
+-- structured_data_issues: invalid JSON-LD blocks and missing required properties
+--   (src/extraction/structuredDataValidator.ts); NULL when there are none.
+
+ALTER TABLE crawler_pages
+  ADD COLUMN structured_data JSON COMMENT 'JSON-LD, Microdata and RDFa entities' AFTER hreflang,
+  ADD COLUMN schema_types JSON COMMENT 'Distinct top-level structured data types' AFTER structured_data,
+  ADD COLUMN structured_data_issues JSON COMMENT 'Structured data validation issues' AFTER schema_types;
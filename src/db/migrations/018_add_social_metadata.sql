@@ -0,0 +1,14 @@
+-- Migration: Social metadata
+-- Version: 018
+-- Date: 2026-10-19
+-- Purpose: Store Open Graph, Twitter card, icon, author, date and keyword tags per page
+--          for social preview audits
+
+-- social_metadata: SocialMetadata (src/types/database.types.ts), e.g.
+--   {"og": {"title": ..., "images": [{"url": ..., "width": 1200, "height": 630, "alt": ...}]},
+--    "twitter": {"card": "summary_large_image", ...}, "icons": [...], "author": ...,
+--    "published_time": ..., "modified_time": ..., "keywords": [...]}
+--   Absent tags are JSON null; NULL column = page not served (status >= 400) or not recrawled yet.
+
+ALTER TABLE crawler_pages
+  ADD COLUMN social_metadata JSON COMMENT 'Open Graph, Twitter card, icons, author, dates, keywords' AFTER structured_data_issues;
@@ -0,0 +1,13 @@
+-- Migration: Heading outline
+-- Version: 019
+-- Date: 2026-10-19
+-- Purpose: Store every page's h1-h6 outline in document order, with outline issues,
+--          so consumers do not re-parse the HTML
+
+-- heading_outline: [{"level": 2, "text": "...", "position": 3, "id": "pricing"}, ...]
+-- heading_issues: multiple_h1, skipped_level, empty_heading, duplicate_h2
+--   ({"type", "level", "position", "text"}); NULL when the outline has none.
+
+ALTER TABLE crawler_pages
+  ADD COLUMN heading_outline JSON COMMENT 'h1-h6 in document order' AFTER social_metadata,
+  ADD COLUMN heading_issues JSON COMMENT 'Heading outline issues' AFTER heading_outline;
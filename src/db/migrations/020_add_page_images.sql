@@ -0,0 +1,35 @@
+-- Migration: Image inventory
+-- Version: 020
+-- Date: 2026-10-19
+-- Purpose: Store every image of a page (src, srcset, alt, dimensions, lazy-loading, region)
+--          for alt-text and size audits
+
+-- Rows are replaced whenever the page is served again (see replacePageImages), so they
+-- describe the latest served version; pages that fail to fetch keep theirs.
+-- alt: NULL = no alt attribute, '' = decorative (alt="").
+-- region: main = referenced by the extracted main content; otherwise the nearest
+--   template landmark (header, nav, footer, aside) or other.
+
+CREATE TABLE IF NOT EXISTS crawler_page_images (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  final_url VARCHAR(768) NOT NULL COMMENT 'Page the image is on',
+  position INT NOT NULL COMMENT '0-based index among the page images',
+  src VARCHAR(2048) NOT NULL COMMENT 'Absolute image URL (lazy-load source when src is a placeholder)',
+  src_hash CHAR(32) NOT NULL COMMENT 'MD5 of src',
+  srcset JSON COMMENT 'srcset candidates [{url, descriptor}]',
+  alt TEXT COMMENT 'alt attribute (NULL = missing)',
+  title VARCHAR(500) COMMENT 'title attribute',
+  width INT COMMENT 'width attribute',
+  height INT COMMENT 'height attribute',
+  loading VARCHAR(16) COMMENT 'loading attribute',
+  lazy_attribute VARCHAR(32) COMMENT 'Attribute src came from (data-src, ...)',
+  region ENUM('main', 'header', 'nav', 'footer', 'aside', 'other') NOT NULL COMMENT 'Where the image sits',
+  run_id VARCHAR(36) COMMENT 'Crawl run that stored the image',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  -- Indexes
+  INDEX idx_final_url (final_url(255)),
+  INDEX idx_src_hash (src_hash),
+  INDEX idx_region (region)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+COMMENT='Images of crawled pages (latest served version)';
@@ -0,0 +1,42 @@
+-- Migration: Internal link graph
+-- Version: 021
+-- Date: 2026-10-19
+-- Purpose: Materialize the links of every page (from nav_structure) as an edge table,
+--          with each target resolved through url_aliases to its final URL and status
+
+-- Rows are replaced whenever the page is served again (see replacePageLinks), and
+-- filled for already-crawled pages by src/scripts/backfillLinks.ts.
+-- source_type: LinkSourceType (src/types/navigation.types.ts); nav links are
+--   primary_nav / footer / breadcrumb.
+-- resolved_url / target_*: set after each crawl (resolveLinkTargets); NULL while the
+--   target has not been crawled.
+
+CREATE TABLE IF NOT EXISTS crawler_links (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  source_url VARCHAR(768) NOT NULL COMMENT 'Linking page (final URL)',
+  target_url VARCHAR(768) NOT NULL COMMENT 'Normalized link target',
+  anchor_text VARCHAR(500) COMMENT 'Anchor text (image alt for image links)',
+  source_type VARCHAR(32) NOT NULL COMMENT 'LinkSourceType',
+  nearest_heading VARCHAR(500) COMMENT 'Closest heading above the link (content links)',
+  body_position_pct TINYINT UNSIGNED COMMENT 'Position in the content, 0-100 (content links)',
+  rel VARCHAR(255) COMMENT 'rel tokens, space-separated',
+  nofollow BOOLEAN NOT NULL DEFAULT FALSE COMMENT 'rel contains nofollow, sponsored or ugc',
+  is_external BOOLEAN NOT NULL DEFAULT FALSE COMMENT 'Target on another host',
+
+  -- Target resolution (url_aliases, crawler_pages)
+  resolved_url VARCHAR(768) COMMENT 'Target after redirects',
+  target_redirects BOOLEAN COMMENT 'Target URL redirects',
+  target_status_code INT COMMENT 'HTTP status of the resolved page',
+  target_crawl_status VARCHAR(32) COMMENT 'Crawl status of the resolved page',
+  resolved_at TIMESTAMP NULL COMMENT 'When the target was last resolved',
+
+  run_id VARCHAR(36) COMMENT 'Crawl run that stored the link',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  -- Indexes
+  INDEX idx_source_url (source_url(255)),
+  INDEX idx_target_url (target_url(255)),
+  INDEX idx_resolved_url (resolved_url(255)),
+  INDEX idx_source_type (source_type)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+COMMENT='Links between crawled pages (latest served version of the source)';
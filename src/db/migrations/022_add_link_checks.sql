@@ -0,0 +1,26 @@
+-- Migration: Link checks
+-- Version: 022
+-- Date: 2026-10-19
+-- Purpose: Cache the status of link targets the crawl never fetched (links to URLs outside
+--          the sitemaps, and optionally external links), checked with HEAD requests
+
+-- One row per checked URL, overwritten when it is checked again (see upsertLinkCheck).
+-- Targets checked within LINK_CHECK_CACHE_HOURS are not requested again.
+-- status_code / final_url: after redirects; NULL when no response came back (error says why).
+-- crawler_links picks the results up in resolveLinkTargets.
+
+CREATE TABLE IF NOT EXISTS link_checks (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  url VARCHAR(768) NOT NULL COMMENT 'Checked link target (normalized)',
+  status_code INT COMMENT 'HTTP status after redirects',
+  final_url VARCHAR(768) COMMENT 'URL after redirects (normalized)',
+  method VARCHAR(8) NOT NULL COMMENT 'HEAD, or GET when the server rejects HEAD',
+  error VARCHAR(500) COMMENT 'Network error / timeout (no response)',
+  response_ms INT COMMENT 'Time to response headers',
+  checked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+  -- Indexes
+  UNIQUE KEY idx_url (url),
+  INDEX idx_checked_at (checked_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+COMMENT='Status of link targets checked outside the crawl';
@@ -0,0 +1,34 @@
+-- Migration: Internal link metrics
+-- Version: 023
+-- Date: 2026-10-19
+-- Purpose: Store per run and page the internal PageRank, click depth from the homepage,
+--          inlink counts by source type and orphan status (computed from crawler_links)
+
+-- Computed at the end of each crawl (see computeLinkMetrics) over the pages of the crawled
+-- hosts the run saw (crawler_run_pages) with crawl status OK; one graph per host.
+-- nofollow links pass no equity and are not followed for click depth.
+-- pagerank: sums to 1 per host; pagerank_score: 0-100 relative to the host's top page.
+-- click_depth: NULL when the page cannot be reached from the homepage.
+-- is_orphan: page in the run's sitemaps no other page links to.
+
+CREATE TABLE IF NOT EXISTS crawler_link_metrics (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  run_id VARCHAR(36) NOT NULL COMMENT 'Crawl run UUID',
+  final_url VARCHAR(768) NOT NULL COMMENT 'Page (crawler_pages.final_url)',
+  url_hash CHAR(32) NOT NULL COMMENT 'MD5 of final_url (unique per run)',
+  pagerank DOUBLE NOT NULL COMMENT 'Internal PageRank (weighted by link source type)',
+  pagerank_score DECIMAL(5,2) NOT NULL COMMENT '0-100, relative to the top page of the host',
+  click_depth INT COMMENT 'Clicks from the homepage (0 = homepage)',
+  inlinks INT NOT NULL DEFAULT 0 COMMENT 'Pages linking here (followed links)',
+  inlinks_by_type JSON COMMENT 'Linking pages per link source type',
+  outlinks INT NOT NULL DEFAULT 0 COMMENT 'Pages linked from here (followed links)',
+  in_sitemap BOOLEAN NOT NULL DEFAULT FALSE COMMENT 'Found in a sitemap',
+  is_orphan BOOLEAN NOT NULL DEFAULT FALSE COMMENT 'In a sitemap, but no page links here',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  -- Indexes
+  UNIQUE KEY uniq_run_url (run_id, url_hash),
+  INDEX idx_run_pagerank (run_id, pagerank),
+  INDEX idx_run_click_depth (run_id, click_depth)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+COMMENT='Internal link equity and click depth per run and page';
@@ -0,0 +1,25 @@
+-- Migration: Sitemap audit
+-- Version: 024
+-- Date: 2026-10-19
+-- Purpose: Keep every URL entry of a run's sitemaps (duplicates included), so the sitemaps can be
+--          judged against what the crawl found: redirects, 404s, noindex, canonicalized pages,
+--          duplicates, pages missing from the sitemaps and wrong lastmod values
+
+-- Written when the run starts (see replaceRunSitemapUrls), one row per <url> entry in the
+-- order parsed. url: normalizeUrl(loc); two rows with the same url are duplicates.
+-- lastmod_at: lastmod parsed as a date, NULL when missing or unparseable.
+
+CREATE TABLE IF NOT EXISTS crawl_run_sitemap_urls (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  run_id VARCHAR(36) NOT NULL COMMENT 'Crawl run UUID',
+  url VARCHAR(768) NOT NULL COMMENT 'Normalized URL',
+  loc VARCHAR(2048) NOT NULL COMMENT '<loc> as listed',
+  sitemap_url VARCHAR(2048) COMMENT 'Sitemap the entry is listed in',
+  lastmod VARCHAR(64) COMMENT '<lastmod> as listed',
+  lastmod_at DATETIME COMMENT 'lastmod parsed',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  -- Indexes
+  INDEX idx_run_url (run_id, url(255))
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+COMMENT='Sitemap entries per run for the sitemap audit';
@@ -13,9 +13,45 @@ import {
   CrawlRun,
   CrawlRunInsert,
   CrawlRunUpdate,
+  CrawlRunProgress,
+  PageValidators,
+  CrawlerPageVersion,
+  CrawlerPageVersionInsert,
+  CrawlerRunPage,
+  CanonicalIssue,
+  HeadingIssuePage,
+  CrawlerPageImage,
+  CrawlerLink,
+  CrawlerLinkMetrics,
+  PageLink,
+  PageLinkMetrics,
+  LinkCheckInsert,
+  LinkIssue,
+  LinkIssueType,
+  RunSitemapUrlInsert,
+  SitemapIssue,
+  SitemapIssueType,
+  DuplicateImageAlt,
+  ImageIssue,
+  ImageRegion,
+  PageImage,
+  SharedImage,
+  HeadingIssueType,
+  HreflangPage,
+  IndexabilityReason,
+  LanguageMismatch,
+  StoredUrlStatus,
+  StructuredDataSummary,
+  SocialPreview,
+  SocialTag,
+  TranslationGroupMember,
+  TranslationGroupMemberInsert,
+  NonIndexablePage,
+  PagePerformance,
   DomainOverride,
   DomainOverrideUpsert,
 } from '../types/database.types';
+import { LinkSourceType } from '../types/navigation.types';
 
 /**
  * Upsert a page into crawler_pages
@@ -24,19 +60,28 @@ import {
  * @param page - Page data to insert/update
  */
 export async function upsertPage(page: CrawlerPageInsert): Promise<void> {
+  // Columns describing the page follow served pages only (a page may drop its
+  // markup); failed, blocked and soft-404 redirect writes keep the stored values
+  const servedValue = (column: string) => (page.served ? `VALUES(${column})` : column);
+
   const query = `
     INSERT INTO crawler_pages (
-      final_url, requested_url_original, status_code, crawl_status,
+      final_url, requested_url_original, status_code, crawl_status, soft_404_signals,
       redirect_chain, html_content, clean_html, markdown, markdown_enhanced, structural_stats, nav_structure,
-      title, h1, meta_description, word_count, content_hash,
-      sitemap_type_hint,
-      fetch_mode, extraction_method, junk_score, last_error, run_id
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      nav_fingerprint, title, h1, meta_description, canonical_url, canonical_status,
+      declared_language, detected_language, language_confidence, language_mismatch, hreflang,
+      structured_data, schema_types, structured_data_issues, social_metadata,
+      heading_outline, heading_issues, robots_directives, indexability, indexability_reason, word_count, content_hash, etag, last_modified, response_headers, ttfb_ms, download_ms, content_bytes,
+      sitemap_type_hint, discovered_via, discovered_from, discovery_depth,
+      fetch_mode, fetch_attempts, extraction_method, junk_score, last_error, run_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON DUPLICATE KEY UPDATE
       status_code = VALUES(status_code),
       crawl_status = VALUES(crawl_status),
+      soft_404_signals = VALUES(soft_404_signals),
       redirect_chain = VALUES(redirect_chain),
       fetch_mode = VALUES(fetch_mode),
+      fetch_attempts = COALESCE(VALUES(fetch_attempts), fetch_attempts),
 
       -- ONLY update HTML content if new hash is present AND different
       html_content = IF(
@@ -57,16 +102,50 @@ export async function upsertPage(page: CrawlerPageInsert): Promise<void> {
       structural_stats = COALESCE(VALUES(structural_stats), structural_stats),
       -- ALWAYS update nav_structure if provided (extracted from raw HTML)
       nav_structure = COALESCE(VALUES(nav_structure), nav_structure),
+      nav_fingerprint = COALESCE(VALUES(nav_fingerprint), nav_fingerprint),
 
       -- Update metadata (COALESCE preserves existing if new is NULL)
       title = COALESCE(VALUES(title), title),
       h1 = COALESCE(VALUES(h1), h1),
       meta_description = COALESCE(VALUES(meta_description), meta_description),
+      -- Canonical follows the latest fetched page (a page may drop its tag);
+      -- failed fetches carry no status and keep the stored one
+      canonical_url = IF(VALUES(canonical_status) IS NULL, canonical_url, VALUES(canonical_url)),
+      canonical_status = COALESCE(VALUES(canonical_status), canonical_status),
+      declared_language = COALESCE(VALUES(declared_language), declared_language),
+      -- Detected language and hreflang follow the latest served page
+      detected_language = ${servedValue('detected_language')},
+      language_confidence = ${servedValue('language_confidence')},
+      language_mismatch = ${servedValue('language_mismatch')},
+      hreflang = ${servedValue('hreflang')},
+      -- Structured data too: markup removed from a page must disappear from the audit
+      structured_data = ${servedValue('structured_data')},
+      schema_types = ${servedValue('schema_types')},
+      structured_data_issues = ${servedValue('structured_data_issues')},
+      social_metadata = ${servedValue('social_metadata')},
+      heading_outline = ${servedValue('heading_outline')},
+      heading_issues = ${servedValue('heading_issues')},
+      -- Directives are kept when a fetch failed; indexability follows every write
+      robots_directives = COALESCE(VALUES(robots_directives), robots_directives),
+      indexability = COALESCE(VALUES(indexability), indexability),
+      indexability_reason = IF(VALUES(indexability) IS NULL, indexability_reason, VALUES(indexability_reason)),
       word_count = COALESCE(VALUES(word_count), word_count),
       extraction_method = COALESCE(VALUES(extraction_method), extraction_method),
       junk_score = COALESCE(VALUES(junk_score), junk_score),
       content_hash = COALESCE(VALUES(content_hash), content_hash),
+      -- Validators follow the latest served page (it may stop sending them); failed,
+      -- blocked and redirect writes carry none, so they keep the stored ones
+      etag = ${page.served ? 'VALUES(etag)' : 'COALESCE(VALUES(etag), etag)'},
+      last_modified = ${page.served ? 'VALUES(last_modified)' : 'COALESCE(VALUES(last_modified), last_modified)'},
+      -- Headers and timings describe the latest response (kept when a fetch failed)
+      response_headers = COALESCE(VALUES(response_headers), response_headers),
+      ttfb_ms = COALESCE(VALUES(ttfb_ms), ttfb_ms),
+      download_ms = COALESCE(VALUES(download_ms), download_ms),
+      content_bytes = COALESCE(VALUES(content_bytes), content_bytes),
       sitemap_type_hint = COALESCE(VALUES(sitemap_type_hint), sitemap_type_hint),
+      discovered_via = COALESCE(VALUES(discovered_via), discovered_via),
+      discovered_from = IF(VALUES(discovered_via) IS NULL, discovered_from, VALUES(discovered_from)),
+      discovery_depth = COALESCE(VALUES(discovery_depth), discovery_depth),
 
       last_error = VALUES(last_error),
       last_crawled_at = CURRENT_TIMESTAMP,
@@ -78,6 +157,7 @@ export async function upsertPage(page: CrawlerPageInsert): Promise<void> {
     page.requested_url_original || null,
     page.status_code || null,
     page.crawl_status,
+    page.soft_404_signals ? JSON.stringify(page.soft_404_signals) : null,
     page.redirect_chain ? JSON.stringify(page.redirect_chain) : null,
     page.html_content || null,
     page.clean_html || null,
@@ -85,13 +165,40 @@ export async function upsertPage(page: CrawlerPageInsert): Promise<void> {
     page.markdown_enhanced || null,
     page.structural_stats ? JSON.stringify(page.structural_stats) : null,
     page.nav_structure ? JSON.stringify(page.nav_structure) : null,
+    page.nav_fingerprint || null,
     page.title || null,
     page.h1 || null,
     page.meta_description || null,
+    page.canonical_url || null,
+    page.canonical_status || null,
+    page.declared_language || null,
+    page.detected_language || null,
+    page.language_confidence ?? null,
+    page.language_mismatch ?? null,
+    page.hreflang ? JSON.stringify(page.hreflang) : null,
+    page.structured_data ? JSON.stringify(page.structured_data) : null,
+    page.schema_types ? JSON.stringify(page.schema_types) : null,
+    page.structured_data_issues ? JSON.stringify(page.structured_data_issues) : null,
+    page.social_metadata ? JSON.stringify(page.social_metadata) : null,
+    page.heading_outline ? JSON.stringify(page.heading_outline) : null,
+    page.heading_issues ? JSON.stringify(page.heading_issues) : null,
+    page.robots_directives ? JSON.stringify(page.robots_directives) : null,
+    page.indexability || null,
+    page.indexability_reason || null,
     page.word_count || 0,
     page.content_hash || null,
+    page.etag || null,
+    page.last_modified || null,
+    page.response_headers ? JSON.stringify(page.response_headers) : null,
+    page.ttfb_ms ?? null,
+    page.download_ms ?? null,
+    page.content_bytes ?? null,
     page.sitemap_type_hint || null,
+    page.discovered_via || null,
+    page.discovered_from || null,
+    page.discovery_depth ?? null,
     page.fetch_mode || null,
+    page.fetch_attempts ? JSON.stringify(page.fetch_attempts) : null,
     page.extraction_method || null,
     page.junk_score || null,
     page.last_error || null,
@@ -143,6 +250,1494 @@ export async function pageExists(finalUrl: string): Promise<boolean> {
   return rows.length > 0;
 }
 
+/**
+ * Get the stored validators of a page (incremental recrawl)
+ *
+ * @param finalUrl - Normalized final URL
+ * @returns Validators or null if the page was never crawled
+ */
+export async function getPageValidators(finalUrl: string): Promise<PageValidators | null> {
+  const query = `
+    SELECT crawl_status, content_hash, etag, last_modified, last_crawled_at
+    FROM crawler_pages WHERE final_url = ? LIMIT 1
+  `;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, [finalUrl]);
+
+  if (rows.length === 0) return null;
+  return rows[0] as PageValidators;
+}
+
+/**
+ * Mark a page as unchanged in this run without rewriting its content
+ * Only the crawl time, run and validators are touched
+ *
+ * @param finalUrl - Normalized final URL
+ * @param runId - Crawl run UUID
+ * @param etag - ETag from the latest response (keeps stored value if null)
+ * @param lastModified - Last-Modified from the latest response (keeps stored value if null)
+ */
+export async function markPageUnchanged(
+  finalUrl: string,
+  runId: string,
+  etag: string | null = null,
+  lastModified: string | null = null
+): Promise<void> {
+  const query = `
+    UPDATE crawler_pages SET
+      last_crawled_at = CURRENT_TIMESTAMP,
+      run_id = ?,
+      etag = COALESCE(?, etag),
+      last_modified = COALESCE(?, last_modified)
+    WHERE final_url = ?
+  `;
+  await pool.execute(query, [runId, etag, lastModified, finalUrl]);
+}
+
+/**
+ * Insert a page version (history)
+ *
+ * @param version - Version snapshot
+ */
+export async function insertPageVersion(version: CrawlerPageVersionInsert): Promise<void> {
+  const query = `
+    INSERT INTO crawler_page_versions (
+      final_url, run_id, status_code, crawl_status, title, h1, meta_description,
+      word_count, content_hash, markdown, changed_fields
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    version.final_url,
+    version.run_id || null,
+    version.status_code || null,
+    version.crawl_status,
+    version.title || null,
+    version.h1 || null,
+    version.meta_description || null,
+    version.word_count || 0,
+    version.content_hash || null,
+    version.markdown || null,
+    JSON.stringify(version.changed_fields),
+  ];
+
+  await pool.execute(query, params);
+}
+
+/**
+ * Get the most recent version of a page (without markdown)
+ *
+ * @param finalUrl - Normalized final URL
+ * @returns Latest version or null if none recorded
+ */
+export async function getLatestPageVersion(finalUrl: string): Promise<CrawlerPageVersion | null> {
+  const versions = await getPageVersions(finalUrl, 1);
+  return versions[0] || null;
+}
+
+/**
+ * List versions of a page, newest first (without markdown)
+ *
+ * @param finalUrl - Normalized final URL
+ * @param limit - Max versions to return
+ * @returns Versions
+ */
+export async function getPageVersions(finalUrl: string, limit: number = 100): Promise<CrawlerPageVersion[]> {
+  const query = `
+    SELECT id, final_url, run_id, status_code, crawl_status, title, h1, meta_description,
+           word_count, content_hash, changed_fields, created_at
+    FROM crawler_page_versions
+    WHERE final_url = ?
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${Math.max(1, Math.floor(limit))}
+  `;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, [finalUrl]);
+
+  return rows.map((row) => ({
+    ...row,
+    markdown: null,
+    changed_fields: row.changed_fields ? JSON.parse(row.changed_fields) : [],
+  })) as CrawlerPageVersion[];
+}
+
+/**
+ * Get the version of a page that was current during a run
+ * (the version the run recorded, else the newest one recorded before it finished)
+ *
+ * @param finalUrl - Normalized final URL
+ * @param runId - Crawl run UUID
+ * @returns Version with markdown, or null if the page had no version yet
+ */
+export async function getPageVersionAtRun(
+  finalUrl: string,
+  runId: string
+): Promise<CrawlerPageVersion | null> {
+  const query = `
+    SELECT v.*
+    FROM crawler_page_versions v
+    JOIN crawl_runs r ON r.run_id = ?
+    WHERE v.final_url = ?
+      AND (v.run_id = r.run_id OR v.created_at <= COALESCE(r.finished_at, CURRENT_TIMESTAMP))
+    ORDER BY v.run_id = r.run_id DESC, v.created_at DESC, v.id DESC
+    LIMIT 1
+  `;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, [runId, finalUrl]);
+
+  if (rows.length === 0) return null;
+
+  const row = rows[0];
+  return {
+    ...row,
+    changed_fields: row.changed_fields ? JSON.parse(row.changed_fields) : [],
+  } as CrawlerPageVersion;
+}
+
+/**
+ * Snapshot the stored page into crawler_run_pages for a run
+ * Called after the run has written (or confirmed) the crawler_pages row
+ *
+ * @param runId - Crawl run UUID
+ * @param url - Normalized URL as queued
+ * @param finalUrl - Final URL after redirects (crawler_pages key)
+ */
+export async function snapshotRunPage(runId: string, url: string, finalUrl: string): Promise<void> {
+  const query = `
+    INSERT INTO crawler_run_pages (
+      run_id, url, url_hash, final_url, status_code, crawl_status, title, h1, meta_description,
+      word_count, content_hash, nav_fingerprint
+    )
+    SELECT ?, ?, MD5(?), final_url, status_code, crawl_status, title, h1, meta_description,
+           word_count, content_hash, nav_fingerprint
+    FROM crawler_pages WHERE final_url = ?
+    ON DUPLICATE KEY UPDATE
+      final_url = VALUES(final_url),
+      status_code = VALUES(status_code),
+      crawl_status = VALUES(crawl_status),
+      title = VALUES(title),
+      h1 = VALUES(h1),
+      meta_description = VALUES(meta_description),
+      word_count = VALUES(word_count),
+      content_hash = VALUES(content_hash),
+      nav_fingerprint = VALUES(nav_fingerprint),
+      created_at = CURRENT_TIMESTAMP
+  `;
+  await pool.execute(query, [runId, url, url, finalUrl]);
+}
+
+/**
+ * Get every URL snapshot of a run
+ *
+ * @param runId - Crawl run UUID
+ * @param host - Only URLs on this hostname (optional)
+ * @returns Snapshots ordered by URL
+ */
+export async function getRunPages(runId: string, host?: string): Promise<CrawlerRunPage[]> {
+  let query = 'SELECT * FROM crawler_run_pages WHERE run_id = ?';
+  const params: any[] = [runId];
+
+  if (host) {
+    query += ' AND (url LIKE ? OR url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += ' ORDER BY url';
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows as CrawlerRunPage[];
+}
+
+/**
+ * Resolve canonicals of a run's pages against what the crawl found at the target:
+ * canonicalized pages whose canonical redirects or is missing are reclassified
+ *
+ * @param runId - Crawl run UUID
+ * @returns Pages reclassified as to_redirect / to_not_found
+ */
+export async function resolveCanonicalTargets(runId: string): Promise<{ toRedirect: number; toNotFound: number }> {
+  const [redirectResult] = await pool.execute<ResultSetHeader>(
+    `UPDATE crawler_pages p
+       JOIN url_aliases a ON a.requested_url = p.canonical_url AND a.final_url <> p.canonical_url
+     SET p.canonical_status = 'to_redirect'
+     WHERE p.run_id = ? AND p.canonical_status = 'canonicalized'`,
+    [runId]
+  );
+  const [notFoundResult] = await pool.execute<ResultSetHeader>(
+    `UPDATE crawler_pages p
+       JOIN crawler_pages t ON t.final_url = p.canonical_url
+     SET p.canonical_status = 'to_not_found'
+     WHERE p.run_id = ? AND p.canonical_status = 'canonicalized'
+       AND t.crawl_status IN ('NOT_FOUND', 'SOFT_404')`,
+    [runId]
+  );
+
+  return { toRedirect: redirectResult.affectedRows, toNotFound: notFoundResult.affectedRows };
+}
+
+/**
+ * Get pages whose canonical is not themselves, with what is stored at the canonical URL
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @returns Pages ordered by canonical status and URL
+ */
+export async function getCanonicalIssues(host?: string): Promise<CanonicalIssue[]> {
+  let query = `
+    SELECT
+      p.final_url, p.canonical_url, p.canonical_status,
+      t.crawl_status AS target_crawl_status,
+      a.final_url AS target_redirects_to
+    FROM crawler_pages p
+    LEFT JOIN crawler_pages t ON t.final_url = p.canonical_url
+    LEFT JOIN url_aliases a ON a.requested_url = p.canonical_url AND a.final_url <> p.canonical_url
+    WHERE p.crawl_status = 'OK' AND p.canonical_status IS NOT NULL AND p.canonical_status <> 'self'`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (p.final_url LIKE ? OR p.final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += ' ORDER BY p.canonical_status, p.final_url';
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows as CanonicalIssue[];
+}
+
+/**
+ * Count pages per canonical status
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @returns Map of canonical status -> page count
+ */
+export async function getCanonicalStatusCounts(host?: string): Promise<Record<string, number>> {
+  let query = `SELECT canonical_status, COUNT(*) AS pages FROM crawler_pages
+    WHERE crawl_status = 'OK' AND canonical_status IS NOT NULL`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += ' GROUP BY canonical_status';
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return Object.fromEntries(rows.map(row => [row.canonical_status, Number(row.pages)]));
+}
+
+/**
+ * SQL condition matching URLs on any of the hosts, with its parameters
+ */
+function hostsCondition(column: string, hosts: string[]): { sql: string; params: string[] } {
+  return {
+    sql: '(' + hosts.map(() => `${column} LIKE ? OR ${column} LIKE ?`).join(' OR ') + ')',
+    params: hosts.flatMap(host => [`http://${host}/%`, `https://${host}/%`]),
+  };
+}
+
+/**
+ * Get pages with hreflang annotations on the given hosts
+ *
+ * @param hosts - Hostnames
+ * @returns URL, status, declared language and annotations per page
+ */
+export async function getHreflangPages(hosts: string[]): Promise<HreflangPage[]> {
+  if (hosts.length === 0) return [];
+
+  const condition = hostsCondition('final_url', hosts);
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT final_url, crawl_status, declared_language, hreflang FROM crawler_pages
+     WHERE hreflang IS NOT NULL AND ${condition.sql}`,
+    condition.params
+  );
+
+  return rows.map(row => ({
+    final_url: row.final_url,
+    crawl_status: row.crawl_status,
+    declared_language: row.declared_language,
+    hreflang: JSON.parse(row.hreflang),
+  }));
+}
+
+/**
+ * Look up what the crawl stored for a list of URLs
+ *
+ * @param urls - Normalized URLs
+ * @returns Map of URL -> crawl status and declared language (pages) or redirect target (aliases);
+ *          URLs never crawled are missing
+ */
+export async function getUrlStatuses(urls: string[]): Promise<Map<string, StoredUrlStatus>> {
+  const statuses = new Map<string, StoredUrlStatus>();
+
+  for (let i = 0; i < urls.length; i += 500) {
+    const chunk = urls.slice(i, i + 500);
+    const placeholders = chunk.map(() => '?').join(', ');
+
+    const [pageRows] = await pool.execute<RowDataPacket[]>(
+      `SELECT final_url, crawl_status, declared_language FROM crawler_pages WHERE final_url IN (${placeholders})`,
+      chunk
+    );
+    for (const row of pageRows) {
+      statuses.set(row.final_url, { crawl_status: row.crawl_status, declared_language: row.declared_language, redirects_to: null });
+    }
+
+    const [aliasRows] = await pool.execute<RowDataPacket[]>(
+      `SELECT requested_url, final_url FROM url_aliases
+       WHERE requested_url IN (${placeholders}) AND final_url <> requested_url`,
+      chunk
+    );
+    for (const row of aliasRows) {
+      if (statuses.has(row.requested_url)) continue;
+      statuses.set(row.requested_url, { crawl_status: null, declared_language: null, redirects_to: row.final_url });
+    }
+  }
+
+  return statuses;
+}
+
+/**
+ * Replace the translation groups of the given hosts
+ *
+ * @param hosts - Hostnames whose groups were rebuilt
+ * @param members - Group members (may include URLs on other hosts)
+ */
+export async function replaceTranslationGroups(
+  hosts: string[],
+  members: TranslationGroupMemberInsert[]
+): Promise<void> {
+  if (hosts.length > 0) {
+    const condition = hostsCondition('final_url', hosts);
+    await pool.execute(`DELETE FROM translation_groups WHERE ${condition.sql}`, condition.params);
+  }
+
+  for (let i = 0; i < members.length; i += 200) {
+    const chunk = members.slice(i, i + 200);
+    await pool.execute(
+      `INSERT INTO translation_groups (
+         final_url, group_key, hreflang, declared_language, crawl_status, issues, run_id
+       ) VALUES ${chunk.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ')}
+       ON DUPLICATE KEY UPDATE
+         group_key = VALUES(group_key),
+         hreflang = VALUES(hreflang),
+         declared_language = VALUES(declared_language),
+         crawl_status = VALUES(crawl_status),
+         issues = VALUES(issues),
+         run_id = VALUES(run_id)`,
+      chunk.flatMap(member => [
+        member.final_url,
+        member.group_key,
+        member.hreflang,
+        member.declared_language,
+        member.crawl_status,
+        JSON.stringify(member.issues),
+        member.run_id,
+      ])
+    );
+  }
+}
+
+/**
+ * Get translation group members, grouped together
+ *
+ * @param host - Only groups with a member on this hostname (optional)
+ * @returns Members ordered by group and hreflang
+ */
+export async function getTranslationGroups(host?: string): Promise<TranslationGroupMember[]> {
+  let query = 'SELECT * FROM translation_groups g WHERE 1 = 1';
+  const params: any[] = [];
+
+  if (host) {
+    const condition = hostsCondition('m.final_url', [host]);
+    query += ` AND g.group_key IN (SELECT m.group_key FROM translation_groups m WHERE ${condition.sql})`;
+    params.push(...condition.params);
+  }
+
+  query += ' ORDER BY g.group_key, g.hreflang, g.final_url';
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows.map(row => ({
+    ...row,
+    issues: row.issues ? JSON.parse(row.issues) : [],
+  })) as TranslationGroupMember[];
+}
+
+/**
+ * Count pages per declared language (primary subtag) and detected language
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @returns Rows of declared, detected and page count, most pages first
+ */
+export async function getLanguageCounts(
+  host?: string
+): Promise<Array<{ declared: string | null; detected: string | null; pages: number }>> {
+  let query = `SELECT SUBSTRING_INDEX(declared_language, '-', 1) AS declared, detected_language AS detected,
+      COUNT(*) AS pages
+    FROM crawler_pages WHERE crawl_status = 'OK'`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += ' GROUP BY declared, detected ORDER BY pages DESC';
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows.map(row => ({ declared: row.declared, detected: row.detected, pages: Number(row.pages) }));
+}
+
+/**
+ * Get pages whose declared language differs from the detected one
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @param limit - Max rows
+ * @returns Most confident detections first
+ */
+export async function getLanguageMismatches(host?: string, limit: number = 100): Promise<LanguageMismatch[]> {
+  let query = `
+    SELECT final_url, declared_language, detected_language, language_confidence
+    FROM crawler_pages
+    WHERE crawl_status = 'OK' AND language_mismatch = TRUE`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += ` ORDER BY language_confidence DESC, final_url LIMIT ${Math.max(1, Math.floor(limit))}`;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows as LanguageMismatch[];
+}
+
+/**
+ * Count pages per top-level structured data type
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @returns Map of type -> page count, most pages first
+ */
+export async function getSchemaTypeCounts(host?: string): Promise<Record<string, number>> {
+  let query = `SELECT schema_types FROM crawler_pages WHERE crawl_status = 'OK' AND schema_types IS NOT NULL`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    for (const type of JSON.parse(row.schema_types) as string[]) counts.set(type, (counts.get(type) || 0) + 1);
+  }
+  return Object.fromEntries([...counts].sort((a, b) => b[1] - a[1]));
+}
+
+/**
+ * Get pages with structured data issues
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @param schemaType - Only pages with issues for this rule type, e.g. "LocalBusiness" (optional)
+ * @param limit - Max rows
+ * @returns Pages ordered by URL
+ */
+export async function getStructuredDataIssues(
+  host?: string,
+  schemaType?: string,
+  limit: number = 100
+): Promise<StructuredDataSummary[]> {
+  let query = `
+    SELECT final_url, schema_types, structured_data_issues
+    FROM crawler_pages
+    WHERE crawl_status = 'OK' AND structured_data_issues IS NOT NULL`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  if (schemaType) {
+    query += ` AND JSON_SEARCH(structured_data_issues, 'one', ?, NULL, '$[*].schema_type') IS NOT NULL`;
+    params.push(schemaType);
+  }
+
+  query += ` ORDER BY final_url LIMIT ${Math.max(1, Math.floor(limit))}`;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows.map(row => ({
+    final_url: row.final_url,
+    schema_types: row.schema_types ? JSON.parse(row.schema_types) : [],
+    structured_data_issues: JSON.parse(row.structured_data_issues),
+  }));
+}
+
+/**
+ * Count served pages per heading issue type
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @returns Pages with an outline, and pages per issue type
+ */
+export async function getHeadingIssueCounts(
+  host?: string
+): Promise<{ pages: number; issues: Partial<Record<HeadingIssueType, number>> }> {
+  let query = `SELECT heading_issues FROM crawler_pages WHERE crawl_status = 'OK' AND heading_outline IS NOT NULL`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  const issues: Partial<Record<HeadingIssueType, number>> = {};
+  for (const row of rows) {
+    if (!row.heading_issues) continue;
+    const types = new Set((JSON.parse(row.heading_issues) as Array<{ type: HeadingIssueType }>).map(issue => issue.type));
+    for (const type of types) issues[type] = (issues[type] || 0) + 1;
+  }
+  return { pages: rows.length, issues };
+}
+
+/**
+ * Get served pages with heading issues
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @param type - Only pages with this issue type (optional)
+ * @param limit - Max rows
+ * @returns Pages ordered by URL
+ */
+export async function getHeadingIssuePages(
+  host?: string,
+  type?: HeadingIssueType,
+  limit: number = 100
+): Promise<HeadingIssuePage[]> {
+  let query = `
+    SELECT final_url, h1, heading_issues
+    FROM crawler_pages
+    WHERE crawl_status = 'OK' AND heading_issues IS NOT NULL`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  if (type) {
+    query += ` AND JSON_SEARCH(heading_issues, 'one', ?, NULL, '$[*].type') IS NOT NULL`;
+    params.push(type);
+  }
+
+  query += ` ORDER BY final_url LIMIT ${Math.max(1, Math.floor(limit))}`;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows.map(row => ({ ...row, heading_issues: JSON.parse(row.heading_issues) }) as HeadingIssuePage);
+}
+
+/**
+ * Replace the stored images of a page
+ *
+ * @param finalUrl - Page URL
+ * @param images - Images of the page as just served (empty clears them)
+ * @param runId - Crawl run UUID
+ */
+export async function replacePageImages(finalUrl: string, images: PageImage[], runId?: string): Promise<void> {
+  await pool.execute('DELETE FROM crawler_page_images WHERE final_url = ?', [finalUrl]);
+
+  for (let i = 0; i < images.length; i += 200) {
+    const chunk = images.slice(i, i + 200);
+    await pool.execute(
+      `INSERT INTO crawler_page_images (
+         final_url, position, src, src_hash, srcset, alt, title, width, height, loading, lazy_attribute, region, run_id
+       ) VALUES ${chunk.map(() => '(?, ?, ?, MD5(?), ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ')}`,
+      chunk.flatMap(image => [
+        finalUrl,
+        image.position,
+        image.src.slice(0, 2048),
+        image.src,
+        image.srcset.length > 0 ? JSON.stringify(image.srcset) : null,
+        image.alt,
+        image.title ? image.title.slice(0, 500) : null,
+        image.width,
+        image.height,
+        image.loading ? image.loading.slice(0, 16) : null,
+        image.lazy_attribute,
+        image.region,
+        runId || null,
+      ])
+    );
+  }
+}
+
+/**
+ * Replace the stored links of a page
+ *
+ * @param sourceUrl - Linking page URL
+ * @param links - Links of the page as just served (empty clears them)
+ * @param runId - Crawl run UUID
+ */
+export async function replacePageLinks(sourceUrl: string, links: PageLink[], runId?: string): Promise<void> {
+  await pool.execute('DELETE FROM crawler_links WHERE source_url = ?', [sourceUrl]);
+
+  for (let i = 0; i < links.length; i += 200) {
+    const chunk = links.slice(i, i + 200);
+    await pool.execute(
+      `INSERT INTO crawler_links (
+         source_url, target_url, anchor_text, source_type, nearest_heading, body_position_pct,
+         rel, nofollow, is_external, run_id
+       ) VALUES ${chunk.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ')}`,
+      chunk.flatMap(link => [
+        sourceUrl,
+        link.target_url,
+        link.anchor_text,
+        link.source_type,
+        link.nearest_heading,
+        link.body_position_pct,
+        link.rel.length > 0 ? link.rel.join(' ').slice(0, 255) : null,
+        link.nofollow,
+        link.is_external,
+        runId || null,
+      ])
+    );
+  }
+}
+
+/**
+ * Resolve link targets to their final URL and status
+ * A target that redirected resolves through url_aliases; status and crawl
+ * status come from the stored page. Targets the crawl never fetched fall
+ * back to link_checks (crawl status ERROR when the check got no response),
+ * and stay NULL while they are not checked either.
+ *
+ * @param hosts - Only links from pages on these hosts (empty = every link)
+ * @returns Number of links updated
+ */
+export async function resolveLinkTargets(hosts: string[]): Promise<number> {
+  const condition = hosts.length > 0 ? hostsCondition('l.source_url', hosts) : { sql: '1 = 1', params: [] };
+  const crawled = '(a.requested_url IS NOT NULL OR p.id IS NOT NULL)';
+  const [result] = await pool.execute<ResultSetHeader>(
+    `UPDATE crawler_links l
+       LEFT JOIN url_aliases a ON a.requested_url = l.target_url AND a.final_url <> a.requested_url
+       LEFT JOIN crawler_pages p ON p.final_url = COALESCE(a.final_url, l.target_url)
+       LEFT JOIN link_checks c ON c.url = l.target_url
+     SET l.resolved_url = IF(${crawled}, COALESCE(a.final_url, l.target_url), c.final_url),
+         l.target_redirects = IF(${crawled}, a.requested_url IS NOT NULL, c.final_url <> c.url),
+         l.target_status_code = IF(${crawled}, COALESCE(p.status_code, a.status_code), c.status_code),
+         l.target_crawl_status = IF(${crawled}, p.crawl_status, IF(c.error IS NULL, NULL, 'ERROR')),
+         l.resolved_at = CURRENT_TIMESTAMP
+     WHERE ${condition.sql}`,
+    condition.params
+  );
+  return result.affectedRows;
+}
+
+/**
+ * Get link targets the crawl never fetched and that are not checked recently
+ *
+ * @param hosts - Only links from pages on these hosts (empty = every link)
+ * @param includeExternal - Also targets on other hosts
+ * @param maxAgeHours - Targets checked more recently are skipped
+ * @returns Distinct target URLs (external = only linked to from other hosts)
+ */
+export async function getLinkTargetsToCheck(
+  hosts: string[],
+  includeExternal: boolean,
+  maxAgeHours: number
+): Promise<Array<{ url: string; is_external: boolean }>> {
+  const condition = hosts.length > 0 ? hostsCondition('l.source_url', hosts) : { sql: '1 = 1', params: [] };
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT l.target_url, MIN(l.is_external) AS is_external FROM crawler_links l
+       LEFT JOIN link_checks c ON c.url = l.target_url
+     WHERE ${condition.sql}
+       ${includeExternal ? '' : 'AND l.is_external = FALSE'}
+       AND NOT EXISTS (SELECT 1 FROM url_aliases a WHERE a.requested_url = l.target_url)
+       AND NOT EXISTS (SELECT 1 FROM crawler_pages p WHERE p.final_url = l.target_url)
+       AND (c.id IS NULL OR c.checked_at < NOW() - INTERVAL ${Math.max(0, Math.floor(maxAgeHours))} HOUR)
+     GROUP BY l.target_url`,
+    condition.params
+  );
+  return rows.map(row => ({ url: row.target_url, is_external: !!row.is_external }));
+}
+
+/**
+ * Store the result of a link check (replaces the previous check of the URL)
+ *
+ * @param check - Check result
+ */
+export async function upsertLinkCheck(check: LinkCheckInsert): Promise<void> {
+  await pool.execute(
+    `INSERT INTO link_checks (url, status_code, final_url, method, error, response_ms, checked_at)
+     VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON DUPLICATE KEY UPDATE
+       status_code = VALUES(status_code),
+       final_url = VALUES(final_url),
+       method = VALUES(method),
+       error = VALUES(error),
+       response_ms = VALUES(response_ms),
+       checked_at = CURRENT_TIMESTAMP`,
+    [
+      check.url,
+      check.status_code,
+      check.final_url,
+      check.method,
+      check.error ? check.error.slice(0, 500) : null,
+      check.response_ms,
+    ]
+  );
+}
+
+/**
+ * Link problem conditions (crawler_links l, target page p)
+ */
+const LINK_ISSUE_CONDITIONS: Record<LinkIssueType, string> = {
+  broken: "(l.target_status_code >= 400 OR l.target_crawl_status IN ('NOT_FOUND', 'SOFT_404', 'REDIRECT_LOOP', 'ERROR'))",
+  redirect: 'l.target_redirects = TRUE',
+  non_canonical: "p.canonical_status = 'canonicalized'",
+};
+
+/**
+ * Build the filter of a link problem query
+ */
+function linkIssueFilter(host?: string, includeExternal: boolean = false): { sql: string; params: string[] } {
+  let sql = includeExternal ? '1 = 1' : 'l.is_external = FALSE';
+  const params: string[] = [];
+  if (host) {
+    const condition = hostsCondition('l.source_url', [host]);
+    sql += ` AND ${condition.sql}`;
+    params.push(...condition.params);
+  }
+  return { sql, params };
+}
+
+/**
+ * Count links per problem
+ *
+ * @param host - Only links from pages on this hostname (optional)
+ * @param includeExternal - Also links to other hosts
+ * @returns Link count, unresolved targets and count per problem
+ */
+export async function getLinkIssueCounts(
+  host?: string,
+  includeExternal: boolean = false
+): Promise<{ links: number; unresolved: number } & Record<LinkIssueType, number>> {
+  const filter = linkIssueFilter(host, includeExternal);
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT COUNT(*) AS links,
+       SUM(l.target_status_code IS NULL AND l.target_crawl_status IS NULL) AS unresolved,
+       SUM(${LINK_ISSUE_CONDITIONS.broken}) AS broken,
+       SUM(${LINK_ISSUE_CONDITIONS.redirect}) AS redirect,
+       SUM(${LINK_ISSUE_CONDITIONS.non_canonical}) AS non_canonical
+     FROM crawler_links l
+       LEFT JOIN crawler_pages p ON p.final_url = l.resolved_url
+     WHERE ${filter.sql}`,
+    filter.params
+  );
+  const row = rows[0];
+  return {
+    links: Number(row.links),
+    unresolved: Number(row.unresolved || 0),
+    broken: Number(row.broken || 0),
+    redirect: Number(row.redirect || 0),
+    non_canonical: Number(row.non_canonical || 0),
+  };
+}
+
+/**
+ * Get links with a problem, with the page and anchor that contain them
+ *
+ * @param issue - Problem type
+ * @param host - Only links from pages on this hostname (optional)
+ * @param includeExternal - Also links to other hosts
+ * @param limit - Max rows
+ * @returns Links ordered by target, then linking page
+ */
+export async function getLinkIssues(
+  issue: LinkIssueType,
+  host?: string,
+  includeExternal: boolean = false,
+  limit: number = 100
+): Promise<LinkIssue[]> {
+  const filter = linkIssueFilter(host, includeExternal);
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT l.source_url, l.anchor_text, l.source_type, l.target_url, l.resolved_url,
+       l.target_status_code, l.target_crawl_status, p.canonical_url, c.error AS check_error
+     FROM crawler_links l
+       LEFT JOIN crawler_pages p ON p.final_url = l.resolved_url
+       LEFT JOIN link_checks c ON c.url = l.target_url
+     WHERE ${filter.sql} AND ${LINK_ISSUE_CONDITIONS[issue]}
+     ORDER BY l.target_url, l.source_url
+     LIMIT ${Math.max(1, Math.floor(limit))}`,
+    filter.params
+  );
+  return rows as LinkIssue[];
+}
+
+/**
+ * Get the pages of a run's link graph (pages the run saw with crawl status OK)
+ *
+ * @param runId - Crawl run UUID
+ * @param hosts - Hostnames
+ * @returns URL and membership in the run's sitemaps per page
+ */
+export async function getLinkGraphPages(
+  runId: string,
+  hosts: string[]
+): Promise<Array<{ final_url: string; in_sitemap: boolean }>> {
+  const condition = hostsCondition('r.final_url', hosts);
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT DISTINCT r.final_url, ${IN_RUN_SITEMAP_CONDITION} AS in_sitemap
+     FROM crawler_run_pages r
+     WHERE r.run_id = ? AND r.crawl_status = 'OK' AND ${condition.sql}`,
+    [runId, ...condition.params]
+  );
+  return rows.map(row => ({ final_url: row.final_url, in_sitemap: !!row.in_sitemap }));
+}
+
+/**
+ * Get the followed internal links of the given hosts, targets resolved
+ *
+ * @param hosts - Hostnames (of the linking pages)
+ * @returns One row per link (nofollow links left out)
+ */
+export async function getLinkGraphEdges(
+  hosts: string[]
+): Promise<Array<{ source_url: string; target_url: string; source_type: LinkSourceType }>> {
+  const condition = hostsCondition('source_url', hosts);
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT source_url, COALESCE(resolved_url, target_url) AS target_url, source_type FROM crawler_links
+     WHERE is_external = FALSE AND nofollow = FALSE AND ${condition.sql}`,
+    condition.params
+  );
+  return rows as Array<{ source_url: string; target_url: string; source_type: LinkSourceType }>;
+}
+
+/**
+ * Replace a run's link metrics for the given hosts
+ *
+ * @param runId - Crawl run UUID
+ * @param hosts - Hostnames the metrics were computed for
+ * @param metrics - Metrics per page
+ */
+export async function replaceLinkMetrics(runId: string, hosts: string[], metrics: PageLinkMetrics[]): Promise<void> {
+  const condition = hostsCondition('final_url', hosts);
+  await pool.execute(
+    `DELETE FROM crawler_link_metrics WHERE run_id = ? AND ${condition.sql}`,
+    [runId, ...condition.params]
+  );
+
+  for (let i = 0; i < metrics.length; i += 200) {
+    const chunk = metrics.slice(i, i + 200);
+    await pool.execute(
+      `INSERT INTO crawler_link_metrics (
+         run_id, final_url, url_hash, pagerank, pagerank_score, click_depth,
+         inlinks, inlinks_by_type, outlinks, in_sitemap, is_orphan
+       ) VALUES ${chunk.map(() => '(?, ?, MD5(?), ?, ?, ?, ?, ?, ?, ?, ?)').join(', ')}`,
+      chunk.flatMap(page => [
+        runId,
+        page.final_url,
+        page.final_url,
+        page.pagerank,
+        page.pagerank_score,
+        page.click_depth,
+        page.inlinks,
+        JSON.stringify(page.inlinks_by_type),
+        page.outlinks,
+        page.in_sitemap,
+        page.is_orphan,
+      ])
+    );
+  }
+}
+
+/**
+ * Orderings of the link metrics report
+ */
+const LINK_METRICS_ORDER: Record<'pagerank' | 'inlinks' | 'depth', string> = {
+  pagerank: 'pagerank DESC',
+  inlinks: 'inlinks DESC, pagerank DESC',
+  depth: 'click_depth IS NULL DESC, click_depth DESC, pagerank DESC',
+};
+
+/**
+ * Get a run's link metrics
+ *
+ * @param runId - Crawl run UUID
+ * @param options - Host filter, orphans only, ordering and max rows
+ * @returns Metrics per page
+ */
+export async function getLinkMetrics(
+  runId: string,
+  options: { host?: string; orphansOnly?: boolean; sort?: keyof typeof LINK_METRICS_ORDER; limit?: number } = {}
+): Promise<CrawlerLinkMetrics[]> {
+  const { host, orphansOnly = false, sort = 'pagerank', limit = 50 } = options;
+
+  let query = 'SELECT * FROM crawler_link_metrics WHERE run_id = ?';
+  const params: any[] = [runId];
+  if (host) {
+    const condition = hostsCondition('final_url', [host]);
+    query += ` AND ${condition.sql}`;
+    params.push(...condition.params);
+  }
+  if (orphansOnly) query += ' AND is_orphan = TRUE';
+  query += ` ORDER BY ${LINK_METRICS_ORDER[sort]} LIMIT ${Math.max(1, Math.floor(limit))}`;
+
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows.map(row => ({
+    ...row,
+    pagerank_score: Number(row.pagerank_score),
+    inlinks_by_type: row.inlinks_by_type ? JSON.parse(row.inlinks_by_type) : {},
+    in_sitemap: !!row.in_sitemap,
+    is_orphan: !!row.is_orphan,
+  })) as CrawlerLinkMetrics[];
+}
+
+/**
+ * Count a run's pages per click depth
+ *
+ * @param runId - Crawl run UUID
+ * @param host - Only pages on this hostname (optional)
+ * @returns Pages per depth (null = unreachable from the homepage), shallowest first, and orphans
+ */
+export async function getClickDepthCounts(
+  runId: string,
+  host?: string
+): Promise<{ depths: Array<{ click_depth: number | null; pages: number }>; orphans: number }> {
+  let where = 'run_id = ?';
+  const params: any[] = [runId];
+  if (host) {
+    const condition = hostsCondition('final_url', [host]);
+    where += ` AND ${condition.sql}`;
+    params.push(...condition.params);
+  }
+
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT click_depth, COUNT(*) AS pages, SUM(is_orphan) AS orphans FROM crawler_link_metrics
+     WHERE ${where}
+     GROUP BY click_depth
+     ORDER BY click_depth IS NULL, click_depth`,
+    params
+  );
+  return {
+    depths: rows.map(row => ({ click_depth: row.click_depth, pages: Number(row.pages) })),
+    orphans: rows.reduce((sum, row) => sum + Number(row.orphans || 0), 0),
+  };
+}
+
+/**
+ * Map a crawler_links row (rel stored space-separated)
+ */
+function toCrawlerLink(row: RowDataPacket): CrawlerLink {
+  return {
+    ...row,
+    rel: row.rel ? row.rel.split(' ') : [],
+    nofollow: !!row.nofollow,
+    is_external: !!row.is_external,
+    target_redirects: row.target_redirects === null ? null : !!row.target_redirects,
+  } as CrawlerLink;
+}
+
+/**
+ * Get the links pointing to a page (by link target or resolved target)
+ *
+ * @param url - Normalized page URL
+ * @param limit - Max rows
+ * @returns Links ordered by linking page
+ */
+export async function getInlinks(url: string, limit: number = 100): Promise<CrawlerLink[]> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT * FROM crawler_links WHERE target_url = ?
+     UNION
+     SELECT * FROM crawler_links WHERE resolved_url = ?
+     ORDER BY source_url, id LIMIT ${Math.max(1, Math.floor(limit))}`,
+    [url, url]
+  );
+  return rows.map(toCrawlerLink);
+}
+
+/**
+ * Get the links of a page
+ *
+ * @param sourceUrl - Linking page URL
+ * @returns Links in stored order
+ */
+export async function getOutlinks(sourceUrl: string): Promise<CrawlerLink[]> {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    'SELECT * FROM crawler_links WHERE source_url = ? ORDER BY id',
+    [sourceUrl]
+  );
+  return rows.map(toCrawlerLink);
+}
+
+/**
+ * Replace the sitemap entries of a run
+ *
+ * @param runId - Crawl run UUID
+ * @param entries - Every <url> entry of the run's sitemaps, duplicates included
+ */
+export async function replaceRunSitemapUrls(runId: string, entries: RunSitemapUrlInsert[]): Promise<void> {
+  await pool.execute('DELETE FROM crawl_run_sitemap_urls WHERE run_id = ?', [runId]);
+
+  for (let i = 0; i < entries.length; i += 500) {
+    const chunk = entries.slice(i, i + 500);
+    await pool.execute(
+      `INSERT INTO crawl_run_sitemap_urls (run_id, url, loc, sitemap_url, lastmod, lastmod_at)
+       VALUES ${chunk.map(() => '(?, ?, ?, ?, ?, ?)').join(', ')}`,
+      chunk.flatMap(entry => [
+        runId,
+        entry.url,
+        entry.loc.slice(0, 2048),
+        entry.sitemap_url,
+        entry.lastmod ? entry.lastmod.slice(0, 64) : null,
+        entry.lastmod_at,
+      ])
+    );
+  }
+}
+
+/**
+ * Sitemap entry issue conditions (entry s, alias a of s.url, page p the entry ends up at)
+ */
+const SITEMAP_ENTRY_CONDITIONS: Record<Exclude<SitemapIssueType, 'missing_from_sitemap'>, string> = {
+  redirect: 'a.requested_url IS NOT NULL',
+  not_found: "(p.status_code >= 400 OR p.crawl_status IN ('NOT_FOUND', 'SOFT_404'))",
+  noindex: "p.indexability_reason = 'noindex'",
+  canonicalized: "p.canonical_status IN ('canonicalized', 'to_redirect', 'to_not_found', 'cross_domain')",
+  duplicate: `EXISTS (SELECT 1 FROM crawl_run_sitemap_urls d
+                WHERE d.run_id = s.run_id AND d.url = s.url AND d.id <> s.id)`,
+  future_lastmod: 's.lastmod_at > NOW() + INTERVAL 1 DAY',
+  invalid_lastmod: 's.lastmod IS NOT NULL AND s.lastmod_at IS NULL',
+  // Seen unchanged after lastmod, then changed: the content changed after lastmod
+  stale_lastmod: `EXISTS (SELECT 1 FROM crawler_page_versions v
+                     JOIN crawler_page_versions pv ON pv.final_url = v.final_url AND pv.created_at < v.created_at
+                   WHERE v.final_url = p.final_url AND JSON_CONTAINS(v.changed_fields, '"content_hash"')
+                     AND pv.created_at >= s.lastmod_at)`,
+};
+
+const SITEMAP_ENTRY_JOINS = `crawl_run_sitemap_urls s
+       LEFT JOIN url_aliases a ON a.requested_url = s.url AND a.final_url <> a.requested_url
+       LEFT JOIN crawler_pages p ON p.final_url = COALESCE(a.final_url, s.url)`;
+
+/**
+ * Page listed in its run's sitemaps (condition on crawler_run_pages r)
+ * A page counts as listed when a sitemap entry is the page or redirects to it
+ */
+const IN_RUN_SITEMAP_CONDITION = `(EXISTS (SELECT 1 FROM crawl_run_sitemap_urls s WHERE s.run_id = r.run_id AND s.url = r.final_url)
+       OR EXISTS (SELECT 1 FROM crawl_run_sitemap_urls s
+                    JOIN url_aliases a ON a.requested_url = s.url
+                  WHERE s.run_id = r.run_id AND a.final_url = r.final_url))`;
+
+/**
+ * Pages a run crawled through links only (condition on crawler_run_pages r, crawler_pages p)
+ */
+const MISSING_FROM_SITEMAP_CONDITION = `r.crawl_status = 'OK' AND p.discovered_via = 'link' AND p.indexability = 'indexable'
+       AND NOT ${IN_RUN_SITEMAP_CONDITION}`;
+
+/**
+ * Count sitemap audit findings of a run
+ *
+ * @param runId - Crawl run UUID
+ * @returns Entries, distinct URLs and count per issue
+ */
+export async function getSitemapIssueCounts(
+  runId: string
+): Promise<{ entries: number; urls: number; issues: Record<SitemapIssueType, number> }> {
+  const sums = Object.entries(SITEMAP_ENTRY_CONDITIONS)
+    .map(([issue, condition]) => `SUM(${condition}) AS ${issue}`)
+    .join(',\n       ');
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT COUNT(*) AS entries, COUNT(DISTINCT s.url) AS urls,
+       ${sums}
+     FROM ${SITEMAP_ENTRY_JOINS}
+     WHERE s.run_id = ?`,
+    [runId]
+  );
+  const [missingRows] = await pool.execute<RowDataPacket[]>(
+    `SELECT COUNT(DISTINCT r.final_url) AS missing FROM crawler_run_pages r
+       JOIN crawler_pages p ON p.final_url = r.final_url
+     WHERE r.run_id = ? AND ${MISSING_FROM_SITEMAP_CONDITION}`,
+    [runId]
+  );
+
+  const row = rows[0];
+  const issues = {} as Record<SitemapIssueType, number>;
+  for (const issue of Object.keys(SITEMAP_ENTRY_CONDITIONS) as SitemapIssueType[]) {
+    issues[issue] = Number(row[issue] || 0);
+  }
+  issues.missing_from_sitemap = Number(missingRows[0].missing);
+
+  return { entries: Number(row.entries), urls: Number(row.urls), issues };
+}
+
+/**
+ * Get the sitemap entries (or pages) with an audit finding
+ *
+ * @param runId - Crawl run UUID
+ * @param issue - Finding type
+ * @param limit - Max rows
+ * @returns Findings ordered by URL
+ */
+export async function getSitemapIssues(
+  runId: string,
+  issue: SitemapIssueType,
+  limit: number = 100
+): Promise<SitemapIssue[]> {
+  const rowLimit = Math.max(1, Math.floor(limit));
+
+  if (issue === 'missing_from_sitemap') {
+    const [rows] = await pool.execute<RowDataPacket[]>(
+      `SELECT DISTINCT r.final_url AS url, NULL AS loc, NULL AS sitemap_url, NULL AS lastmod,
+         r.final_url, p.status_code, p.crawl_status, p.canonical_url
+       FROM crawler_run_pages r
+         JOIN crawler_pages p ON p.final_url = r.final_url
+       WHERE r.run_id = ? AND ${MISSING_FROM_SITEMAP_CONDITION}
+       ORDER BY r.final_url
+       LIMIT ${rowLimit}`,
+      [runId]
+    );
+    return rows as SitemapIssue[];
+  }
+
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT s.url, s.loc, s.sitemap_url, s.lastmod,
+       p.final_url, COALESCE(p.status_code, a.status_code) AS status_code, p.crawl_status, p.canonical_url
+     FROM ${SITEMAP_ENTRY_JOINS}
+     WHERE s.run_id = ? AND ${SITEMAP_ENTRY_CONDITIONS[issue]}
+     ORDER BY s.url, s.id
+     LIMIT ${rowLimit}`,
+    [runId]
+  );
+  return rows as SitemapIssue[];
+}
+
+/**
+ * Image audit conditions (rows of crawler_page_images)
+ */
+const IMAGE_ISSUE_CONDITIONS: Record<ImageIssue, string> = {
+  missing_alt: 'alt IS NULL',
+  missing_dimensions: '(width IS NULL OR height IS NULL)',
+};
+
+/**
+ * Count stored images and image issues
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @param region - Only images in this region (optional)
+ * @returns Image, page and issue counts
+ */
+export async function getImageAuditCounts(
+  host?: string,
+  region?: ImageRegion
+): Promise<{ images: number; pages: number; missingAlt: number; emptyAlt: number; missingDimensions: number; lazy: number }> {
+  let query = `SELECT COUNT(*) AS images, COUNT(DISTINCT final_url) AS pages,
+      SUM(${IMAGE_ISSUE_CONDITIONS.missing_alt}) AS missing_alt,
+      SUM(alt = '') AS empty_alt,
+      SUM(${IMAGE_ISSUE_CONDITIONS.missing_dimensions}) AS missing_dimensions,
+      SUM(loading = 'lazy' OR lazy_attribute IS NOT NULL) AS lazy
+    FROM crawler_page_images WHERE 1 = 1`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  if (region) {
+    query += ' AND region = ?';
+    params.push(region);
+  }
+
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  const row = rows[0];
+  return {
+    images: Number(row.images),
+    pages: Number(row.pages),
+    missingAlt: Number(row.missing_alt || 0),
+    emptyAlt: Number(row.empty_alt || 0),
+    missingDimensions: Number(row.missing_dimensions || 0),
+    lazy: Number(row.lazy || 0),
+  };
+}
+
+/**
+ * Get images with an issue
+ *
+ * @param issue - missing_alt (no alt attribute) or missing_dimensions (no width / height)
+ * @param host - Only pages on this hostname (optional)
+ * @param region - Only images in this region (optional)
+ * @param limit - Max rows
+ * @returns Images ordered by page and position
+ */
+export async function getImagesWithIssue(
+  issue: ImageIssue,
+  host?: string,
+  region?: ImageRegion,
+  limit: number = 100
+): Promise<CrawlerPageImage[]> {
+  let query = `SELECT * FROM crawler_page_images WHERE ${IMAGE_ISSUE_CONDITIONS[issue]}`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  if (region) {
+    query += ' AND region = ?';
+    params.push(region);
+  }
+
+  query += ` ORDER BY final_url, position LIMIT ${Math.max(1, Math.floor(limit))}`;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows.map(row => ({ ...row, srcset: row.srcset ? JSON.parse(row.srcset) : [] }) as CrawlerPageImage);
+}
+
+/**
+ * Get alt texts used for more than one distinct image
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @param limit - Max rows
+ * @returns Alts ordered by number of distinct images
+ */
+export async function getDuplicateImageAlts(host?: string, limit: number = 100): Promise<DuplicateImageAlt[]> {
+  let query = `
+    SELECT alt, COUNT(DISTINCT src_hash) AS images, COUNT(DISTINCT final_url) AS pages, MIN(src) AS example_src
+    FROM crawler_page_images
+    WHERE alt IS NOT NULL AND alt <> ''`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += ` GROUP BY alt HAVING images > 1 ORDER BY images DESC, alt LIMIT ${Math.max(1, Math.floor(limit))}`;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows.map(row => ({
+    alt: row.alt,
+    images: Number(row.images),
+    pages: Number(row.pages),
+    example_src: row.example_src,
+  }));
+}
+
+/**
+ * Get images that appear on many pages (logos, template and stock images)
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @param minPages - Minimum number of pages
+ * @param limit - Max rows
+ * @returns Images ordered by page count
+ */
+export async function getSharedImages(host?: string, minPages: number = 10, limit: number = 100): Promise<SharedImage[]> {
+  let query = `
+    SELECT MIN(src) AS src, COUNT(DISTINCT final_url) AS pages,
+      GROUP_CONCAT(DISTINCT region ORDER BY region) AS regions,
+      SUM(alt IS NULL) AS missing_alt
+    FROM crawler_page_images WHERE 1 = 1`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += ` GROUP BY src_hash HAVING pages >= ${Math.max(1, Math.floor(minPages))}
+    ORDER BY pages DESC LIMIT ${Math.max(1, Math.floor(limit))}`;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows.map(row => ({
+    src: row.src,
+    pages: Number(row.pages),
+    regions: row.regions,
+    missing_alt: Number(row.missing_alt || 0),
+  }));
+}
+
+/**
+ * JSON path of each audited social tag in social_metadata
+ */
+const SOCIAL_TAG_PATHS: Record<SocialTag, string> = {
+  og_title: '$.og.title',
+  og_description: '$.og.description',
+  og_image: '$.og.images[0].url',
+  og_image_size: '$.og.images[0].width',
+  og_url: '$.og.url',
+  twitter_card: '$.twitter.card',
+  icon: '$.icons[0].href',
+};
+
+/**
+ * SQL condition: the tag at a social_metadata path is present (not missing, not JSON null)
+ */
+function socialTagPresent(path: string): string {
+  return `IFNULL(JSON_TYPE(JSON_EXTRACT(social_metadata, '${path}')), 'NULL') <> 'NULL'`;
+}
+
+/**
+ * Count served pages carrying each audited social tag
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @returns Number of pages with social metadata, and pages per present tag
+ */
+export async function getSocialTagCoverage(
+  host?: string
+): Promise<{ pages: number; tags: Record<SocialTag, number> }> {
+  const tags = Object.keys(SOCIAL_TAG_PATHS) as SocialTag[];
+  let query = `SELECT COUNT(*) AS pages,
+      ${tags.map(tag => `SUM(${socialTagPresent(SOCIAL_TAG_PATHS[tag])}) AS ${tag}`).join(',\n      ')}
+    FROM crawler_pages WHERE crawl_status = 'OK' AND social_metadata IS NOT NULL`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return {
+    pages: Number(rows[0].pages),
+    tags: Object.fromEntries(tags.map(tag => [tag, Number(rows[0][tag] || 0)])) as Record<SocialTag, number>,
+  };
+}
+
+/**
+ * Get served pages missing a social tag
+ *
+ * @param tag - Tag to audit
+ * @param host - Only pages on this hostname (optional)
+ * @param limit - Max rows
+ * @returns Pages ordered by URL, with their stored social metadata
+ */
+export async function getPagesMissingSocialTag(
+  tag: SocialTag,
+  host?: string,
+  limit: number = 100
+): Promise<SocialPreview[]> {
+  let query = `
+    SELECT final_url, title, meta_description, social_metadata
+    FROM crawler_pages
+    WHERE crawl_status = 'OK' AND social_metadata IS NOT NULL
+      AND NOT ${socialTagPresent(SOCIAL_TAG_PATHS[tag])}`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += ` ORDER BY final_url LIMIT ${Math.max(1, Math.floor(limit))}`;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows.map(row => ({ ...row, social_metadata: JSON.parse(row.social_metadata) }) as SocialPreview);
+}
+
+/**
+ * Count pages per indexability reason ('indexable' for indexable pages)
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @returns Map of reason -> page count
+ */
+export async function getIndexabilityCounts(host?: string): Promise<Record<string, number>> {
+  let query = `SELECT COALESCE(indexability_reason, indexability) AS verdict, COUNT(*) AS pages
+    FROM crawler_pages WHERE indexability IS NOT NULL`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += ' GROUP BY verdict';
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return Object.fromEntries(rows.map(row => [row.verdict, Number(row.pages)]));
+}
+
+/**
+ * Get non-indexable pages with their reason
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @param reasons - Only these reasons (optional)
+ * @param limit - Max rows
+ * @returns Pages ordered by reason and URL
+ */
+export async function getNonIndexablePages(
+  host?: string,
+  reasons?: IndexabilityReason[],
+  limit: number = 100
+): Promise<NonIndexablePage[]> {
+  let query = `
+    SELECT final_url, status_code, crawl_status, indexability_reason, canonical_url
+    FROM crawler_pages
+    WHERE indexability = 'non_indexable'`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  if (reasons && reasons.length > 0) {
+    query += ` AND indexability_reason IN (${reasons.map(() => '?').join(', ')})`;
+    params.push(...reasons);
+  }
+
+  query += ` ORDER BY indexability_reason, final_url LIMIT ${Math.max(1, Math.floor(limit))}`;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows as NonIndexablePage[];
+}
+
+/**
+ * Columns shared by the performance queries
+ */
+const PAGE_PERFORMANCE_COLUMNS = `
+  final_url, status_code, ttfb_ms, download_ms, content_bytes,
+  JSON_UNQUOTE(JSON_EXTRACT(response_headers, '$."cache-control"')) AS cache_control,
+  JSON_UNQUOTE(JSON_EXTRACT(response_headers, '$.expires')) AS expires
+`;
+
+/**
+ * Get pages whose time to first byte or download time is above a threshold
+ *
+ * @param minMs - Minimum TTFB or download time (ms)
+ * @param host - Only pages on this hostname (optional)
+ * @param limit - Max rows
+ * @returns Slowest pages first (by TTFB)
+ */
+export async function getSlowPages(minMs: number, host?: string, limit: number = 100): Promise<PagePerformance[]> {
+  let query = `
+    SELECT ${PAGE_PERFORMANCE_COLUMNS}
+    FROM crawler_pages
+    WHERE crawl_status = 'OK' AND (ttfb_ms >= ? OR download_ms >= ?)`;
+  const params: any[] = [minMs, minMs];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += ` ORDER BY ttfb_ms DESC, download_ms DESC LIMIT ${Math.max(1, Math.floor(limit))}`;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows as PagePerformance[];
+}
+
+/**
+ * Get pages that browsers and CDNs cannot cache: Cache-Control no-store / no-cache /
+ * private / max-age=0, or neither Cache-Control nor Expires
+ *
+ * @param host - Only pages on this hostname (optional)
+ * @param limit - Max rows
+ * @returns Uncacheable pages ordered by URL
+ */
+export async function getUncacheablePages(host?: string, limit: number = 100): Promise<PagePerformance[]> {
+  let query = `
+    SELECT ${PAGE_PERFORMANCE_COLUMNS}
+    FROM crawler_pages
+    WHERE crawl_status = 'OK' AND response_headers IS NOT NULL`;
+  const params: any[] = [];
+
+  if (host) {
+    query += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${host}/%`, `https://${host}/%`);
+  }
+
+  query += `
+    HAVING (cache_control IS NULL AND expires IS NULL)
+      OR LOWER(cache_control) REGEXP 'no-store|no-cache|private|max-age=0([^0-9]|$)'
+    ORDER BY final_url
+    LIMIT ${Math.max(1, Math.floor(limit))}`;
+  const [rows] = await pool.execute<RowDataPacket[]>(query, params);
+  return rows as PagePerformance[];
+}
+
 /**
  * Get a page by final URL
  *
@@ -158,9 +1753,20 @@ export async function getPageByUrl(finalUrl: string): Promise<CrawlerPage | null
   const row = rows[0];
   return {
     ...row,
+    soft_404_signals: row.soft_404_signals ? JSON.parse(row.soft_404_signals) : null,
     redirect_chain: row.redirect_chain ? JSON.parse(row.redirect_chain) : null,
+    hreflang: row.hreflang ? JSON.parse(row.hreflang) : null,
+    structured_data: row.structured_data ? JSON.parse(row.structured_data) : null,
+    schema_types: row.schema_types ? JSON.parse(row.schema_types) : null,
+    structured_data_issues: row.structured_data_issues ? JSON.parse(row.structured_data_issues) : null,
+    social_metadata: row.social_metadata ? JSON.parse(row.social_metadata) : null,
+    heading_outline: row.heading_outline ? JSON.parse(row.heading_outline) : null,
+    heading_issues: row.heading_issues ? JSON.parse(row.heading_issues) : null,
+    robots_directives: row.robots_directives ? JSON.parse(row.robots_directives) : null,
+    response_headers: row.response_headers ? JSON.parse(row.response_headers) : null,
     structural_stats: row.structural_stats ? JSON.parse(row.structural_stats) : null,
     nav_structure: row.nav_structure ? JSON.parse(row.nav_structure) : null,
+    fetch_attempts: row.fetch_attempts ? JSON.parse(row.fetch_attempts) : null,
   } as CrawlerPage;
 }
 
@@ -172,8 +1778,8 @@ export async function getPageByUrl(finalUrl: string): Promise<CrawlerPage | null
 export async function createCrawlRun(run: CrawlRunInsert): Promise<void> {
   const query = `
     INSERT INTO crawl_runs (
-      run_id, seed_sitemaps, max_pages, fetch_mode_default, notes
-    ) VALUES (?, ?, ?, ?, ?)
+      run_id, seed_sitemaps, max_pages, fetch_mode_default, crawl_options, notes
+    ) VALUES (?, ?, ?, ?, ?, ?)
   `;
 
   const params = [
@@ -181,6 +1787,7 @@ export async function createCrawlRun(run: CrawlRunInsert): Promise<void> {
     JSON.stringify(run.seed_sitemaps),
     run.max_pages || null,
     run.fetch_mode_default || 'cheerio',
+    run.crawl_options ? JSON.stringify(run.crawl_options) : null,
     run.notes || null,
   ];
 
@@ -291,13 +1898,16 @@ export async function getDomainOverride(domain: string): Promise<DomainOverride
 export async function upsertDomainOverride(override: DomainOverrideUpsert): Promise<void> {
   const query = `
     INSERT INTO domain_overrides (
-      domain, enabled, main_content_selectors, remove_selectors, force_fetch_mode, notes
-    ) VALUES (?, ?, ?, ?, ?, ?)
+      domain, enabled, main_content_selectors, remove_selectors, force_fetch_mode,
+      max_concurrency, max_requests_per_minute, notes
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     ON DUPLICATE KEY UPDATE
       enabled = VALUES(enabled),
       main_content_selectors = VALUES(main_content_selectors),
       remove_selectors = VALUES(remove_selectors),
       force_fetch_mode = VALUES(force_fetch_mode),
+      max_concurrency = VALUES(max_concurrency),
+      max_requests_per_minute = VALUES(max_requests_per_minute),
       notes = VALUES(notes),
       updated_at = CURRENT_TIMESTAMP
   `;
@@ -310,6 +1920,8 @@ export async function upsertDomainOverride(override: DomainOverrideUpsert): Prom
       : null,
     override.remove_selectors ? JSON.stringify(override.remove_selectors) : null,
     override.force_fetch_mode || null,
+    override.max_concurrency || null,
+    override.max_requests_per_minute || null,
     override.notes || null,
   ];
 
@@ -328,9 +1940,20 @@ export async function getPagesByRunId(runId: string): Promise<CrawlerPage[]> {
 
   return rows.map((row) => ({
     ...row,
+    soft_404_signals: row.soft_404_signals ? JSON.parse(row.soft_404_signals) : null,
     redirect_chain: row.redirect_chain ? JSON.parse(row.redirect_chain) : null,
+    hreflang: row.hreflang ? JSON.parse(row.hreflang) : null,
+    structured_data: row.structured_data ? JSON.parse(row.structured_data) : null,
+    schema_types: row.schema_types ? JSON.parse(row.schema_types) : null,
+    structured_data_issues: row.structured_data_issues ? JSON.parse(row.structured_data_issues) : null,
+    social_metadata: row.social_metadata ? JSON.parse(row.social_metadata) : null,
+    heading_outline: row.heading_outline ? JSON.parse(row.heading_outline) : null,
+    heading_issues: row.heading_issues ? JSON.parse(row.heading_issues) : null,
+    robots_directives: row.robots_directives ? JSON.parse(row.robots_directives) : null,
+    response_headers: row.response_headers ? JSON.parse(row.response_headers) : null,
     structural_stats: row.structural_stats ? JSON.parse(row.structural_stats) : null,
     nav_structure: row.nav_structure ? JSON.parse(row.nav_structure) : null,
+    fetch_attempts: row.fetch_attempts ? JSON.parse(row.fetch_attempts) : null,
   })) as CrawlerPage[];
 }
 
@@ -350,5 +1973,51 @@ export async function getCrawlRun(runId: string): Promise<CrawlRun | null> {
   return {
     ...row,
     seed_sitemaps: row.seed_sitemaps ? JSON.parse(row.seed_sitemaps) : [],
+    crawl_options: row.crawl_options ? JSON.parse(row.crawl_options) : null,
   } as CrawlRun;
 }
+
+/**
+ * Get what a crawl run has already stored (pages, aliases, outcomes)
+ *
+ * @param runId - Crawl run UUID
+ * @returns URLs and counters to resume the run from
+ */
+export async function getCrawlRunProgress(runId: string): Promise<CrawlRunProgress> {
+  const [pageRows] = await pool.execute<RowDataPacket[]>(
+    'SELECT final_url, requested_url_original, crawl_status FROM crawler_pages WHERE run_id = ?',
+    [runId]
+  );
+  const [aliasRows] = await pool.execute<RowDataPacket[]>(
+    'SELECT requested_url FROM url_aliases WHERE run_id = ?',
+    [runId]
+  );
+
+  const urls = new Set<string>();
+  const progress: CrawlRunProgress = {
+    urls: [],
+    pagesCrawled: 0,
+    redirects: aliasRows.length,
+    errors: 0,
+    blockedByRobots: 0,
+  };
+
+  for (const row of pageRows) {
+    urls.add(row.final_url);
+    if (row.requested_url_original) urls.add(row.requested_url_original);
+
+    if (row.crawl_status === 'ERROR') {
+      progress.errors++;
+    } else if (row.crawl_status === 'BLOCKED_ROBOTS') {
+      progress.blockedByRobots++;
+    } else {
+      progress.pagesCrawled++;
+    }
+  }
+  for (const row of aliasRows) {
+    urls.add(row.requested_url);
+  }
+
+  progress.urls = Array.from(urls);
+  return progress;
+}
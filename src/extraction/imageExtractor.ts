@@ -0,0 +1,160 @@
+/**
+ * Image Extractor
+ *
+ * Inventories every <img> of a page (src, srcset, alt, title, dimensions,
+ * lazy-loading) and the region it sits in, for alt-text and size audits.
+ * Images only survive in the markdown as ![alt](src), without any of this.
+ */
+
+import * as cheerio from 'cheerio';
+import type { ImageRegion, ImageSrcsetCandidate, PageImage } from '../types/database.types';
+
+/**
+ * Attributes lazy-loading libraries keep the real source in, most common first
+ */
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original', 'data-lazy', 'data-url'];
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+
+// A src that only holds the place of a lazy-loaded image
+const PLACEHOLDER_SRC = /(?:blank|placeholder|spacer|transparent|pixel|lazy)[^/]*\.(?:gif|png|svg)(?:\?|$)/i;
+
+/**
+ * Template regions, matched on the nearest enclosing landmark
+ */
+const REGION_SELECTORS: Array<{ region: ImageRegion; selector: string }> = [
+  { region: 'nav', selector: 'nav, [role="navigation"], .navigation, .menu' },
+  { region: 'header', selector: 'header, [role="banner"]' },
+  { region: 'footer', selector: 'footer, [role="contentinfo"]' },
+  { region: 'aside', selector: 'aside, [role="complementary"], .sidebar' },
+];
+
+/**
+ * Resolve a URL against the page URL
+ */
+function resolveUrl(value: string, baseUrl: string): string | null {
+  try {
+    return new URL(value.trim(), baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a srcset attribute into absolute candidates
+ */
+function parseSrcset(srcset: string | undefined, baseUrl: string): ImageSrcsetCandidate[] {
+  if (!srcset) return [];
+
+  const candidates: ImageSrcsetCandidate[] = [];
+  // URLs may contain commas (CDN transforms), so split on commas followed by whitespace
+  for (const part of srcset.split(/,\s+/)) {
+    const [url, descriptor] = part.trim().replace(/,$/, '').split(/\s+/);
+    if (!url || url.startsWith('data:')) continue;
+
+    const absolute = resolveUrl(url, baseUrl);
+    if (absolute) candidates.push({ url: absolute, descriptor: descriptor || null });
+  }
+  return candidates;
+}
+
+/**
+ * Parse a width / height attribute ("640", "640px")
+ */
+function parseDimension(value: string | undefined): number | null {
+  const size = parseInt(value || '', 10);
+  return isNaN(size) ? null : size;
+}
+
+/**
+ * Every image URL referenced in an HTML fragment (src, lazy sources, srcset)
+ */
+function collectImageUrls(html: string, baseUrl: string): Set<string> {
+  const $ = cheerio.load(html);
+  const urls = new Set<string>();
+
+  $('img, source').each((_, el) => {
+    const $el = $(el);
+    for (const attribute of ['src', ...LAZY_SRC_ATTRIBUTES]) {
+      const value = $el.attr(attribute);
+      const url = value ? resolveUrl(value, baseUrl) : null;
+      if (url) urls.add(url);
+    }
+    for (const attribute of ['srcset', ...LAZY_SRCSET_ATTRIBUTES]) {
+      parseSrcset($el.attr(attribute), baseUrl).forEach(candidate => urls.add(candidate.url));
+    }
+  });
+
+  return urls;
+}
+
+/**
+ * Region of an image outside the main content: its nearest template landmark
+ */
+function templateRegion($: cheerio.CheerioAPI, $img: cheerio.Cheerio<cheerio.Element>): ImageRegion {
+  for (const ancestor of $img.parents().toArray()) {
+    const match = REGION_SELECTORS.find(({ selector }) => $(ancestor).is(selector));
+    if (match) return match.region;
+  }
+  return 'other';
+}
+
+/**
+ * Extract every image of a page
+ *
+ * Inline data: images and 1x1 tracking pixels are skipped. An image counts
+ * as main content when the extracted main content (Readability etc.)
+ * references one of its URLs.
+ *
+ * @param html - Raw HTML
+ * @param baseUrl - Page URL
+ * @param mainContentHtml - Extracted main content (ExtractionResult.cleanHtml)
+ * @returns Images in document order
+ */
+export function extractImages(html: string, baseUrl: string, mainContentHtml: string): PageImage[] {
+  const $ = cheerio.load(html);
+  const mainUrls = mainContentHtml ? collectImageUrls(mainContentHtml, baseUrl) : new Set<string>();
+  const images: PageImage[] = [];
+
+  $('img').each((_, el) => {
+    const $img = $(el) as cheerio.Cheerio<cheerio.Element>;
+
+    const width = parseDimension($img.attr('width'));
+    const height = parseDimension($img.attr('height'));
+    if (width !== null && height !== null && width <= 1 && height <= 1) return;
+
+    // The real source of a lazy-loaded image is in a data- attribute
+    const rawSrc = ($img.attr('src') || '').trim();
+    const lazyAttribute = LAZY_SRC_ATTRIBUTES.find(attribute => ($img.attr(attribute) || '').trim());
+    const usesLazySource = !!lazyAttribute && (!rawSrc || rawSrc.startsWith('data:') || PLACEHOLDER_SRC.test(rawSrc));
+    const sourceValue = usesLazySource ? $img.attr(lazyAttribute!)!.trim() : rawSrc;
+    if (!sourceValue || sourceValue.startsWith('data:')) return;
+
+    const src = resolveUrl(sourceValue, baseUrl);
+    if (!src) return;
+
+    const srcsetAttribute = $img.attr('srcset') || LAZY_SRCSET_ATTRIBUTES.map(attribute => $img.attr(attribute)).find(Boolean);
+    const srcset = parseSrcset(srcsetAttribute, baseUrl);
+    $img.closest('picture').find('source').each((_, source) => {
+      const $source = $(source);
+      srcset.push(...parseSrcset($source.attr('srcset') || $source.attr('data-srcset'), baseUrl));
+    });
+
+    const inMain = [src, ...srcset.map(candidate => candidate.url)].some(url => mainUrls.has(url));
+    const alt = $img.attr('alt');
+
+    images.push({
+      position: images.length,
+      src,
+      srcset,
+      alt: alt === undefined ? null : alt.replace(/\s+/g, ' ').trim(),
+      title: $img.attr('title')?.trim() || null,
+      width,
+      height,
+      loading: $img.attr('loading')?.trim().toLowerCase() || null,
+      lazy_attribute: usesLazySource ? lazyAttribute! : null,
+      region: inMain ? 'main' : templateRegion($, $img),
+    });
+  });
+
+  return images;
+}
@@ -0,0 +1,171 @@
+/**
+ * Language Detector
+ *
+ * Offline language identification of extracted page content, for sites whose
+ * `lang` attribute cannot be trusted (one template-wide lang="en-US").
+ * Scripts with a single likely language (Greek, Hebrew, kana, Hangul, Thai,
+ * Han) decide on their own; everything else is scored by stopword frequency.
+ */
+
+import {
+  LANGUAGE_DETECTION_MAX_WORDS,
+  LANGUAGE_DETECTION_MIN_WORDS,
+  LANGUAGE_MISMATCH_MIN_CONFIDENCE,
+} from '../config/constants';
+
+/**
+ * Frequent function words per language (ISO 639-1)
+ */
+const STOPWORDS: Record<string, string[]> = {
+  en: [
+    'the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'it', 'with', 'as', 'was', 'on', 'are', 'be',
+    'this', 'by', 'you', 'have', 'from', 'or', 'not', 'but', 'at', 'they', 'we', 'your', 'can', 'will',
+    'an', 'which', 'their', 'has', 'our', 'about', 'if', 'what', 'when', 'there', 'been', 'would', 'how',
+    'who', 'these', 'also', 'its', 'more', 'do', 'may', 'should',
+  ],
+  es: [
+    'el', 'la', 'de', 'que', 'y', 'en', 'los', 'las', 'del', 'se', 'por', 'un', 'una', 'con', 'para',
+    'es', 'al', 'lo', 'como', 'más', 'pero', 'sus', 'su', 'le', 'ya', 'o', 'este', 'esta', 'entre',
+    'cuando', 'muy', 'sin', 'sobre', 'también', 'hasta', 'hay', 'donde', 'desde', 'todo', 'nos', 'son',
+    'puede', 'tiene', 'usted', 'estos', 'estas', 'ser', 'está', 'pueden', 'nuestro', 'nuestros',
+  ],
+  pt: [
+    'o', 'a', 'os', 'as', 'de', 'do', 'da', 'dos', 'das', 'e', 'que', 'em', 'no', 'na', 'nos', 'nas',
+    'um', 'uma', 'para', 'com', 'não', 'por', 'mais', 'se', 'como', 'mas', 'ao', 'ele', 'ela', 'seu',
+    'sua', 'ou', 'quando', 'muito', 'já', 'também', 'só', 'pelo', 'pela', 'até', 'isso', 'entre', 'sem',
+    'são', 'está', 'você', 'foi', 'pode', 'nosso', 'nossa',
+  ],
+  fr: [
+    'le', 'la', 'les', 'de', 'des', 'du', 'et', 'est', 'un', 'une', 'que', 'qui', 'dans', 'pour', 'pas',
+    'sur', 'au', 'aux', 'avec', 'ce', 'cette', 'ces', 'il', 'elle', 'nous', 'vous', 'ils', 'sont', 'ont',
+    'mais', 'ou', 'par', 'plus', 'son', 'sa', 'ses', 'leur', 'été', 'être', 'fait', 'comme', 'tout',
+    'aussi', 'très', 'sans', 'même', 'notre', 'votre', 'peut', 'avez',
+  ],
+  it: [
+    'il', 'lo', 'la', 'i', 'gli', 'le', 'di', 'del', 'della', 'dei', 'che', 'e', 'è', 'un', 'una', 'per',
+    'con', 'non', 'in', 'nel', 'nella', 'si', 'da', 'al', 'alla', 'come', 'più', 'ma', 'anche', 'sono',
+    'questo', 'questa', 'ci', 'se', 'o', 'suo', 'sua', 'loro', 'molto', 'tutto', 'essere', 'ha', 'hanno',
+    'quando', 'già', 'dove', 'perché', 'tra', 'nostro', 'nostra',
+  ],
+  de: [
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'den', 'dem', 'des', 'ein', 'eine', 'einer', 'zu',
+    'von', 'auf', 'für', 'im', 'sich', 'auch', 'es', 'an', 'als', 'bei', 'nach', 'wie', 'aus', 'oder',
+    'sind', 'wird', 'werden', 'kann', 'noch', 'nur', 'über', 'wir', 'sie', 'ihr', 'ich', 'durch', 'um',
+    'hat', 'haben', 'dass', 'wenn', 'zum', 'zur', 'diese', 'mehr', 'unsere',
+  ],
+  nl: [
+    'de', 'het', 'een', 'en', 'van', 'in', 'is', 'dat', 'op', 'te', 'zijn', 'met', 'voor', 'niet', 'aan',
+    'er', 'ook', 'als', 'bij', 'door', 'maar', 'om', 'nog', 'uit', 'naar', 'dan', 'wat', 'worden',
+    'wordt', 'deze', 'dit', 'heeft', 'hebben', 'kan', 'onze', 'u', 'uw', 'je', 'wij', 'ze', 'zij', 'meer',
+    'geen', 'over', 'tot', 'hoe', 'wel', 'ons', 'alle', 'mijn',
+  ],
+  ru: [
+    'и', 'в', 'не', 'на', 'что', 'с', 'по', 'это', 'как', 'для', 'от', 'к', 'из', 'а', 'но', 'или', 'я',
+    'он', 'мы', 'вы', 'они', 'же', 'так', 'все', 'его', 'только', 'был', 'была', 'быть', 'при', 'если',
+    'уже', 'есть', 'также', 'может', 'когда', 'этот', 'о', 'бы', 'чтобы',
+  ],
+  uk: [
+    'і', 'в', 'на', 'що', 'не', 'з', 'до', 'та', 'у', 'для', 'як', 'це', 'від', 'за', 'по', 'а', 'але',
+    'або', 'ми', 'ви', 'вони', 'його', 'також', 'може', 'є', 'був', 'була', 'бути', 'при', 'якщо', 'вже',
+    'лише', 'коли', 'цей', 'про', 'щоб', 'ще', 'було', 'які', 'яка',
+  ],
+};
+
+/**
+ * Scripts that identify a language on their own
+ * (kana before Han: Japanese text mixes both)
+ */
+const SCRIPT_LANGUAGES: Array<{ language: string; pattern: RegExp }> = [
+  { language: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { language: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { language: 'th', pattern: /\p{Script=Thai}/gu },
+  { language: 'el', pattern: /\p{Script=Greek}/gu },
+  { language: 'he', pattern: /\p{Script=Hebrew}/gu },
+  { language: 'zh', pattern: /\p{Script=Han}/gu },
+];
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(([language, words]) => ({ language, words: new Set(words) }));
+
+/**
+ * Detected language of a text
+ */
+export interface LanguageDetection {
+  language: string | null;  // ISO 639-1, null = too little text / no stopwords found
+  confidence: number;       // 0..1
+}
+
+/**
+ * Strip markdown syntax, URLs and code that carry no language signal
+ */
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`[^`]*`/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[#>*_|~-]+/g, ' ');
+}
+
+/**
+ * Detect the language of page content
+ *
+ * Confidence combines the winner's margin over the runner-up with how much
+ * of the text its stopwords cover (natural prose is ~20%+ function words).
+ *
+ * @param markdown - Extracted main content (markdown)
+ * @returns Detected language and confidence
+ */
+export function detectLanguage(markdown: string): LanguageDetection {
+  const text = toPlainText(markdown || '');
+
+  // Scripts without word spacing: decide by character share
+  const letters = (text.match(/\p{L}/gu) || []).length;
+  if (letters > 0) {
+    for (const { language, pattern } of SCRIPT_LANGUAGES) {
+      const count = (text.match(pattern) || []).length;
+      const share = count / letters;
+      if (share >= 0.3 && count >= LANGUAGE_DETECTION_MIN_WORDS) {
+        return { language, confidence: Math.round(Math.min(1, share * 1.5) * 100) / 100 };
+      }
+    }
+  }
+
+  const words = (text.toLowerCase().match(/\p{L}+/gu) || []).slice(0, LANGUAGE_DETECTION_MAX_WORDS);
+  if (words.length < LANGUAGE_DETECTION_MIN_WORDS) return { language: null, confidence: 0 };
+
+  const scores = STOPWORD_SETS.map(({ language, words: stopwords }) => ({
+    language,
+    hits: words.filter(word => stopwords.has(word)).length,
+  })).sort((a, b) => b.hits - a.hits);
+
+  const [best, second] = scores;
+  if (best.hits === 0) return { language: null, confidence: 0 };
+
+  const margin = (best.hits - second.hits) / best.hits;
+  const coverage = Math.min(1, best.hits / words.length / 0.2);
+  return { language: best.language, confidence: Math.round(margin * coverage * 100) / 100 };
+}
+
+/**
+ * Compare a declared language tag with a detection
+ *
+ * @param declared - Declared language (e.g., "en-us"), null when none
+ * @param detection - Detection result
+ * @param minConfidence - Detections below this confidence are not trusted
+ * @returns True / false, or null when either side is unknown
+ */
+export function isLanguageMismatch(
+  declared: string | null,
+  detection: LanguageDetection,
+  minConfidence: number = LANGUAGE_MISMATCH_MIN_CONFIDENCE
+): boolean | null {
+  if (!declared || !detection.language || detection.confidence < minConfidence) return null;
+
+  // Compare primary subtags; legacy codes map to current ones (iw -> he)
+  try {
+    const primary = Intl.getCanonicalLocales(declared.split(/[-_]/)[0])[0];
+    return primary.toLowerCase() !== detection.language;
+  } catch {
+    return null;  // Not a language tag
+  }
+}
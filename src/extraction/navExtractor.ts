@@ -328,6 +328,7 @@ function extractFooterNav($: cheerio.CheerioAPI, baseUrl: string): ExtractedClus
             order: items.length,
             is_external: isExternalLink(href, baseUrl),
             link_type: 'text',
+            ...linkRel($link),
           });
         }
       }
@@ -433,6 +434,7 @@ function extractLanguageSwitcher($: cheerio.CheerioAPI, baseUrl: string): Extrac
           order: index,
           is_external: false,
           link_type: 'text',
+          ...linkRel($link),
         });
       }
     });
@@ -548,6 +550,7 @@ function extractMenuItems(
       order: items.length,
       is_external: isExternalLink(href, baseUrl),
       link_type: $link.find('img').length > 0 ? 'image' : 'text',
+      ...linkRel($link),
     });
 
     // Process submenu items
@@ -593,6 +596,7 @@ function extractSubmenuItems(
       parent_labels: [...parentLabels],
       is_external: isExternalLink(href, baseUrl),
       link_type: $link.find('img').length > 0 ? 'image' : 'text',
+      ...linkRel($link),
     });
 
     // Recurse for deeper submenus
@@ -740,6 +744,7 @@ function extractContentLinks(
       nearest_heading: currentHeading || undefined,
       body_position_pct: bodyPositionPct,
       is_external: isExternalLink(href, baseUrl),
+      ...linkRel($link),
     });
   });
 
@@ -787,6 +792,14 @@ function isUtilityLink(url: string): boolean {
   return false;
 }
 
+/**
+ * rel tokens of a link, as an object to spread into a NavItem / ContentLink
+ */
+function linkRel($link: cheerio.Cheerio<cheerio.Element>): { rel?: string[] } {
+  const rel = ($link.attr('rel') || '').toLowerCase().split(/\s+/).filter(Boolean);
+  return rel.length > 0 ? { rel } : {};
+}
+
 /**
  * Check if URL is external
  */
@@ -0,0 +1,108 @@
+/**
+ * Client-Side Redirect Detector
+ *
+ * Finds redirects that HTTP clients do not follow: <meta http-equiv="refresh">
+ * and JavaScript `location` assignments on stub pages. The Cheerio crawler
+ * follows them itself so the full redirect chain can be recorded.
+ */
+
+import * as cheerio from 'cheerio';
+import { MIN_CONTENT_WORDS } from '../config/constants';
+import type { RedirectHop } from '../types/database.types';
+
+/**
+ * JavaScript redirects: location = '...', location.href = '...',
+ * location.replace('...'), location.assign('...')
+ */
+const JS_REDIRECT_PATTERNS = [
+  /\blocation(?:\.href)?\s*=\s*(['"`])([^'"`]+)\1/,
+  /\blocation\.(?:replace|assign)\(\s*(['"`])([^'"`]+)\1\s*\)/,
+];
+
+/**
+ * A redirect performed by the page itself
+ */
+export interface ClientRedirect {
+  type: 'meta_refresh' | 'javascript';
+  target: string;   // Absolute URL
+}
+
+/**
+ * Resolve a redirect target against the page URL (http(s) only)
+ */
+function resolveTarget(target: string, pageUrl: string): string | null {
+  try {
+    const resolved = new URL(target.trim(), pageUrl);
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return null;
+    resolved.hash = '';
+    return resolved.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Detect a client-side redirect in a fetched page
+ *
+ * Meta refresh counts on any page. JavaScript redirects only count on stub
+ * pages (below MIN_CONTENT_WORDS): real pages often contain conditional
+ * `location` assignments that never run on load.
+ *
+ * @param html - Raw HTML as fetched over HTTP
+ * @param pageUrl - URL the page was loaded from
+ * @param wordCount - Word count of the extracted main content
+ * @returns Redirect type and absolute target, or null
+ */
+export function detectClientRedirect(html: string, pageUrl: string, wordCount: number): ClientRedirect | null {
+  if (!html) return null;
+
+  const $ = cheerio.load(html);
+  const self = resolveTarget(pageUrl, pageUrl);
+
+  // <meta http-equiv="refresh" content="0; url=/new-page">
+  const refresh = $('meta')
+    .filter((_, el) => ($(el).attr('http-equiv') || '').toLowerCase() === 'refresh')
+    .first()
+    .attr('content');
+  const refreshMatch = refresh?.match(/^\s*\d*(?:\.\d+)?\s*[;,]\s*(?:url\s*=\s*)?(['"]?)(.+?)\1\s*$/i);
+  if (refreshMatch) {
+    const target = resolveTarget(refreshMatch[2], pageUrl);
+    if (target && target !== self) {
+      return { type: 'meta_refresh', target };
+    }
+  }
+
+  if (wordCount >= MIN_CONTENT_WORDS) return null;
+
+  const scripts = $('script:not([src])')
+    .map((_, el) => $(el).html() || '')
+    .get()
+    .join('\n');
+  for (const pattern of JS_REDIRECT_PATTERNS) {
+    const match = scripts.match(pattern);
+    if (!match) continue;
+
+    const target = resolveTarget(match[2], pageUrl);
+    if (target && target !== self) {
+      return { type: 'javascript', target };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a redirect chain revisits a URL
+ *
+ * @param hops - Redirect chain
+ * @param nextUrl - URL the last hop is about to send the client to (optional)
+ * @returns True when a URL appears twice
+ */
+export function isRedirectLoop(hops: RedirectHop[], nextUrl?: string): boolean {
+  const seen = new Set<string>();
+  for (const hop of hops) {
+    if (seen.has(hop.url)) return true;
+    seen.add(hop.url);
+  }
+  return nextUrl !== undefined && seen.has(nextUrl);
+}
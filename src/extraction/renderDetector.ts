@@ -0,0 +1,113 @@
+/**
+ * JS-Rendering Detector
+ *
+ * Detects pages whose server HTML is a near-empty shell that only fills in
+ * after client-side JavaScript runs (React/Next, Vue/Nuxt, Angular, Gatsby).
+ * Used to escalate Cheerio fetches to the Playwright crawler.
+ */
+
+import * as cheerio from 'cheerio';
+import { MIN_CONTENT_WORDS } from '../config/constants';
+
+/**
+ * Root elements that SPA frameworks mount into
+ */
+const SPA_ROOT_SELECTORS = [
+  '#__next',
+  '#__nuxt',
+  '#___gatsby',
+  '#app',
+  '#root',
+  '[data-reactroot]',
+  'app-root',
+  '[ng-app]',
+  '[data-server-rendered]',
+];
+
+/**
+ * <noscript> messages that indicate content requires JavaScript
+ */
+const NOSCRIPT_WARNING_PATTERNS = [
+  /enable javascript/i,
+  /javascript (is )?(required|disabled)/i,
+  /requires javascript/i,
+  /turn on javascript/i,
+  /you need to enable/i,
+];
+
+/**
+ * Minimum visible text inside an SPA root for it to count as server-rendered
+ */
+const SPA_ROOT_MIN_TEXT_CHARS = 40;
+
+/**
+ * Signals that a page was rendered client-side
+ */
+export type RenderSignal =
+  | 'low_word_count'      // Extracted content below MIN_CONTENT_WORDS
+  | 'empty_spa_root'      // SPA mount point present but has no text
+  | 'noscript_warning'    // <noscript> asks the user to enable JavaScript
+  | 'script_heavy';       // Many scripts, almost no body text
+
+/**
+ * Detection result
+ */
+export interface RenderDetection {
+  likelyJsRendered: boolean;
+  signals: RenderSignal[];
+}
+
+/**
+ * Detect whether a fetched page needs a browser to render its content
+ *
+ * A low word count alone is not enough (short pages exist); it must be
+ * combined with at least one framework or noscript signal.
+ *
+ * @param html - Raw HTML as fetched over HTTP
+ * @param wordCount - Word count of the extracted main content
+ * @returns Detection result with the signals that fired
+ */
+export function detectJsRendering(html: string, wordCount: number): RenderDetection {
+  const signals: RenderSignal[] = [];
+
+  if (wordCount < MIN_CONTENT_WORDS) {
+    signals.push('low_word_count');
+  }
+
+  if (!html) {
+    return { likelyJsRendered: false, signals };
+  }
+
+  const $ = cheerio.load(html);
+
+  // SPA mount point without server-rendered text
+  for (const selector of SPA_ROOT_SELECTORS) {
+    const $root = $(selector).first();
+    if ($root.length === 0) continue;
+
+    const text = $root.text().replace(/\s+/g, ' ').trim();
+    if (text.length < SPA_ROOT_MIN_TEXT_CHARS) {
+      signals.push('empty_spa_root');
+      break;
+    }
+  }
+
+  // <noscript> warnings
+  const noscriptText = $('noscript').text();
+  if (NOSCRIPT_WARNING_PATTERNS.some(pattern => pattern.test(noscriptText))) {
+    signals.push('noscript_warning');
+  }
+
+  // Script-heavy shell: scripts dominate an otherwise empty body
+  const scriptCount = $('script[src], script:not([type="application/ld+json"])').length;
+  $('script, style, noscript, template').remove();
+  const bodyText = $('body').text().replace(/\s+/g, ' ').trim();
+  if (scriptCount >= 5 && bodyText.length < 200) {
+    signals.push('script_heavy');
+  }
+
+  const likelyJsRendered =
+    signals.includes('low_word_count') && signals.some(signal => signal !== 'low_word_count');
+
+  return { likelyJsRendered, signals };
+}
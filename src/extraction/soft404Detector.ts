@@ -0,0 +1,134 @@
+/**
+ * Soft-404 Detector
+ *
+ * Detects "page not found" pages served with a success status: error
+ * templates returned as 200, missing URLs redirected to the homepage, and
+ * catch-all pages identical to what the site serves for a URL that cannot exist.
+ */
+
+import { SOFT_404_TITLE_PATTERNS, SOFT_404_BODY_PATTERNS, SOFT_404_MAX_WORDS } from '../config/constants';
+
+/**
+ * Signals that a page is a soft 404
+ */
+export type Soft404Signal =
+  | 'title_pattern'          // Title or H1 matches SOFT_404_TITLE_PATTERNS
+  | 'body_pattern'           // Main content matches SOFT_404_BODY_PATTERNS
+  | 'thin_content'           // Main content below SOFT_404_MAX_WORDS
+  | 'matches_missing_probe'  // Same content (or redirect target) as a URL that cannot exist
+  | 'redirect_to_homepage';  // A deep URL redirected to the site root
+
+/**
+ * What a site serves for a random nonexistent path (one probe per origin)
+ */
+export interface MissingPageProbe {
+  url: string;                  // Probe URL (normalized)
+  statusCode: number | null;    // null = probe failed
+  finalUrl: string | null;      // After redirects (normalized)
+  contentHash: string | null;   // Same hashing as stored pages
+}
+
+/**
+ * Page facts used for classification
+ */
+export interface Soft404Input {
+  title: string | null;
+  h1: string | null;
+  text: string;           // Main content (markdown)
+  wordCount: number;
+  contentHash: string;
+  probe: MissingPageProbe | null;
+}
+
+/**
+ * Detection result
+ */
+export interface Soft404Detection {
+  isSoft404: boolean;
+  signals: Soft404Signal[];
+}
+
+/**
+ * Check whether the probe tells us what a missing page looks like
+ * (a probe answered with 404/410 means the site reports missing pages properly)
+ */
+function isUsableProbe(probe: MissingPageProbe | null): probe is MissingPageProbe & { statusCode: number; finalUrl: string } {
+  return !!probe && probe.statusCode !== null && probe.statusCode < 400 && !!probe.finalUrl;
+}
+
+/**
+ * Classify the content of a page fetched with a success status
+ *
+ * A match with the missing-page probe is enough on its own. Title/body
+ * patterns are fuzzy ("404" shows up in real articles), so they only count
+ * on thin pages, or when title and body both match.
+ *
+ * @param input - Page facts
+ * @returns Detection result with the signals that fired
+ */
+export function detectSoft404(input: Soft404Input): Soft404Detection {
+  const signals: Soft404Signal[] = [];
+
+  const heading = [input.title, input.h1].filter(Boolean).join('\n');
+  if (heading && SOFT_404_TITLE_PATTERNS.some(pattern => pattern.test(heading))) {
+    signals.push('title_pattern');
+  }
+
+  if (input.text && SOFT_404_BODY_PATTERNS.some(pattern => pattern.test(input.text))) {
+    signals.push('body_pattern');
+  }
+
+  if (input.wordCount < SOFT_404_MAX_WORDS) {
+    signals.push('thin_content');
+  }
+
+  // A redirected probe's content is the redirect target's, not an error page
+  const probe = input.probe;
+  if (
+    isUsableProbe(probe) &&
+    probe.finalUrl === probe.url &&
+    probe.contentHash &&
+    probe.contentHash === input.contentHash
+  ) {
+    signals.push('matches_missing_probe');
+  }
+
+  const hasTitle = signals.includes('title_pattern');
+  const hasBody = signals.includes('body_pattern');
+  const isSoft404 =
+    signals.includes('matches_missing_probe') ||
+    ((hasTitle || hasBody) && signals.includes('thin_content')) ||
+    (hasTitle && hasBody);
+
+  return { isSoft404, signals };
+}
+
+/**
+ * Classify a redirect: a missing URL sent to the homepage, or to wherever
+ * the site sends URLs that cannot exist
+ *
+ * @param requestedUrl - Normalized URL as requested
+ * @param finalUrl - Normalized URL after redirects
+ * @param probe - Missing-page probe for the origin
+ * @returns Detection result with the signals that fired
+ */
+export function detectSoft404Redirect(
+  requestedUrl: string,
+  finalUrl: string,
+  probe: MissingPageProbe | null
+): Soft404Detection {
+  const signals: Soft404Signal[] = [];
+  if (requestedUrl === finalUrl) return { isSoft404: false, signals };
+
+  const requested = new URL(requestedUrl);
+  const final = new URL(finalUrl);
+  if (requested.pathname !== '/' && final.pathname === '/' && final.search === '') {
+    signals.push('redirect_to_homepage');
+  }
+
+  if (isUsableProbe(probe) && probe.finalUrl !== probe.url && probe.finalUrl === finalUrl) {
+    signals.push('matches_missing_probe');
+  }
+
+  return { isSoft404: signals.length > 0, signals };
+}
@@ -0,0 +1,299 @@
+/**
+ * Structured Data Extractor
+ *
+ * Parses every JSON-LD block, Microdata item and RDFa entity of a page into
+ * one normalized list of entities (types, id, properties, nested entities),
+ * whatever syntax the site used.
+ */
+
+import * as cheerio from 'cheerio';
+import type {
+  StructuredDataEntity,
+  StructuredDataFormat,
+  StructuredDataIssue,
+  StructuredDataValue,
+} from '../types/database.types';
+
+// Nesting deeper than this is dropped (guards against pathological markup)
+const MAX_DEPTH = 12;
+
+// Literal values are cut to this length (articleBody and the like)
+const MAX_TEXT_LENGTH = 2000;
+
+/**
+ * Entities and parse errors found on a page
+ */
+export interface StructuredDataExtraction {
+  entities: StructuredDataEntity[];
+  errors: StructuredDataIssue[];  // invalid_json issues
+}
+
+/**
+ * How an attribute-based syntax marks items, properties and values
+ */
+interface ItemSyntax {
+  format: StructuredDataFormat;
+  scopeAttribute: string;     // Presence starts a new item
+  propertyAttribute: string;
+  types: (el: cheerio.Element) => string[];
+  id: (el: cheerio.Element, baseUrl: string) => string | null;
+  value: ($el: cheerio.Cheerio<cheerio.Element>, baseUrl: string) => string;
+}
+
+/**
+ * Drop the schema.org prefix from a type or property name
+ */
+function normalizeTerm(term: string): string {
+  return term.trim().replace(/^https?:\/\/schema\.org\//i, '').replace(/^schema:/i, '');
+}
+
+/**
+ * Split a space-separated attribute into normalized terms
+ */
+function splitTerms(value: string | undefined): string[] {
+  return (value || '').split(/\s+/).filter(Boolean).map(normalizeTerm);
+}
+
+/**
+ * Resolve a URL attribute against the page URL
+ */
+function resolveUrl(value: string | undefined, baseUrl: string): string {
+  if (!value) return '';
+  try {
+    return new URL(value.trim(), baseUrl).toString();
+  } catch {
+    return value.trim();
+  }
+}
+
+/**
+ * Collapse whitespace and cap the length of a literal
+ */
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH);
+}
+
+function addValue(entity: StructuredDataEntity, name: string, value: StructuredDataValue): void {
+  if (!name || value === '') return;
+  if (!entity.properties[name]) entity.properties[name] = [];
+  entity.properties[name].push(value);
+}
+
+// ============================================================================
+// JSON-LD
+// ============================================================================
+
+/**
+ * Convert a JSON-LD node to entity values
+ * Value objects (@value), lists (@list / @set) and arrays are flattened;
+ * objects become entities.
+ */
+function fromJsonLd(node: unknown, depth: number): StructuredDataValue[] {
+  if (node === null || node === undefined) return [];
+  if (Array.isArray(node)) return node.flatMap(item => fromJsonLd(item, depth));
+  if (typeof node === 'string') return [node.trim().slice(0, MAX_TEXT_LENGTH)];
+  if (typeof node === 'number' || typeof node === 'boolean') return [node];
+  if (typeof node !== 'object' || depth > MAX_DEPTH) return [];
+
+  const object = node as Record<string, unknown>;
+  if ('@value' in object) return fromJsonLd(object['@value'], depth);
+  if ('@list' in object) return fromJsonLd(object['@list'], depth);
+  if ('@set' in object) return fromJsonLd(object['@set'], depth);
+
+  const types = (Array.isArray(object['@type']) ? object['@type'] : [object['@type']])
+    .filter((type): type is string => typeof type === 'string')
+    .map(normalizeTerm);
+  const entity: StructuredDataEntity = {
+    format: 'json-ld',
+    types,
+    id: typeof object['@id'] === 'string' ? object['@id'] : null,
+    properties: {},
+  };
+
+  for (const [key, value] of Object.entries(object)) {
+    if (key.startsWith('@')) continue;
+    for (const item of fromJsonLd(value, depth + 1)) addValue(entity, normalizeTerm(key), item);
+  }
+
+  return [entity];
+}
+
+/**
+ * Top-level entities of a parsed JSON-LD block
+ * A @graph contributes its nodes; the wrapper only counts when it says more than @context
+ */
+function jsonLdEntities(data: unknown): StructuredDataEntity[] {
+  if (Array.isArray(data)) return data.flatMap(jsonLdEntities);
+  if (!data || typeof data !== 'object') return [];
+
+  const object = data as Record<string, unknown>;
+  if (!('@graph' in object)) {
+    return fromJsonLd(object, 0).filter((value): value is StructuredDataEntity => typeof value === 'object');
+  }
+
+  const { '@graph': graph, ...wrapper } = object;
+  const entities = jsonLdEntities(graph);
+  if (Object.keys(wrapper).some(key => key !== '@context')) entities.unshift(...jsonLdEntities(wrapper));
+  return entities;
+}
+
+/**
+ * Parse every <script type="application/ld+json"> block
+ */
+function extractJsonLd($: cheerio.CheerioAPI): StructuredDataExtraction {
+  const entities: StructuredDataEntity[] = [];
+  const errors: StructuredDataIssue[] = [];
+
+  $('script[type="application/ld+json" i]').each((index, el) => {
+    // Some CMSs wrap the JSON in HTML comments or CDATA sections
+    const text = ($(el).html() || '')
+      .replace(/^\s*(?:<!--|(?:\/\/\s*)?<!\[CDATA\[)/, '')
+      .replace(/(?:-->|(?:\/\/\s*)?\]\]>)\s*$/, '')
+      .trim();
+    if (!text) return;
+
+    try {
+      entities.push(...jsonLdEntities(JSON.parse(text)));
+    } catch (error) {
+      errors.push({
+        type: 'invalid_json',
+        format: 'json-ld',
+        schema_type: null,
+        path: `script[${index}]`,
+        missing: [],
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  return { entities, errors };
+}
+
+// ============================================================================
+// Microdata and RDFa
+// ============================================================================
+
+const MICRODATA_URL_ATTRIBUTES: Record<string, string> = {
+  a: 'href', area: 'href', link: 'href',
+  audio: 'src', embed: 'src', iframe: 'src', img: 'src', source: 'src', track: 'src', video: 'src',
+  object: 'data',
+};
+
+/**
+ * Microdata: itemscope / itemtype / itemprop, values per the HTML spec
+ */
+const MICRODATA: ItemSyntax = {
+  format: 'microdata',
+  scopeAttribute: 'itemscope',
+  propertyAttribute: 'itemprop',
+  types: el => splitTerms(el.attribs.itemtype),
+  id: el => el.attribs.itemid?.trim() || null,
+  value: ($el, baseUrl) => {
+    const tag = $el[0].tagName.toLowerCase();
+    if (tag === 'meta') return cleanText($el.attr('content') || '');
+    if (MICRODATA_URL_ATTRIBUTES[tag]) return resolveUrl($el.attr(MICRODATA_URL_ATTRIBUTES[tag]), baseUrl);
+    if (tag === 'data' || tag === 'meter') return cleanText($el.attr('value') || '');
+    if (tag === 'time' && $el.attr('datetime')) return cleanText($el.attr('datetime')!);
+    return cleanText($el.text());
+  },
+};
+
+/**
+ * RDFa (Lite): typeof / property / resource, content overrides the element text
+ */
+const RDFA: ItemSyntax = {
+  format: 'rdfa',
+  scopeAttribute: 'typeof',
+  propertyAttribute: 'property',
+  types: el => splitTerms(el.attribs.typeof),
+  id: (el, baseUrl) => {
+    const resource = el.attribs.resource ?? el.attribs.about;
+    return resource ? resolveUrl(resource, baseUrl) : null;
+  },
+  value: ($el, baseUrl) => {
+    if ($el.attr('content') !== undefined) return cleanText($el.attr('content')!);
+    const url = $el.attr('href') ?? $el.attr('src') ?? $el.attr('resource');
+    if (url !== undefined) return resolveUrl(url, baseUrl);
+    if ($el.attr('datetime')) return cleanText($el.attr('datetime')!);
+    return cleanText($el.text());
+  },
+};
+
+/**
+ * Read an item and, recursively, the items nested in its properties
+ */
+function readItem(
+  $: cheerio.CheerioAPI,
+  el: cheerio.Element,
+  syntax: ItemSyntax,
+  baseUrl: string,
+  depth: number
+): StructuredDataEntity {
+  const entity: StructuredDataEntity = {
+    format: syntax.format,
+    types: syntax.types(el),
+    id: syntax.id(el, baseUrl),
+    properties: {},
+  };
+  collectProperties($, el, entity, syntax, baseUrl, depth);
+  return entity;
+}
+
+/**
+ * Walk an item's subtree for its properties; nested items own everything below them
+ */
+function collectProperties(
+  $: cheerio.CheerioAPI,
+  parent: cheerio.Element,
+  entity: StructuredDataEntity,
+  syntax: ItemSyntax,
+  baseUrl: string,
+  depth: number
+): void {
+  $(parent).children().each((_, child) => {
+    const names = splitTerms(child.attribs[syntax.propertyAttribute]);
+    const isItem = child.attribs[syntax.scopeAttribute] !== undefined;
+
+    if (names.length > 0 && (!isItem || depth < MAX_DEPTH)) {
+      const value = isItem ? readItem($, child, syntax, baseUrl, depth + 1) : syntax.value($(child), baseUrl);
+      for (const name of names) addValue(entity, name, value);
+    }
+
+    if (!isItem) collectProperties($, child, entity, syntax, baseUrl, depth);
+  });
+}
+
+/**
+ * Top-level items of an attribute-based syntax (items that are not a property of another)
+ */
+function extractItems($: cheerio.CheerioAPI, syntax: ItemSyntax, baseUrl: string): StructuredDataEntity[] {
+  const $items = $(`[${syntax.scopeAttribute}]`) as cheerio.Cheerio<cheerio.Element>;
+  return $items
+    .toArray()
+    .filter(el => el.attribs[syntax.propertyAttribute] === undefined)
+    .map(el => readItem($, el, syntax, baseUrl, 0));
+}
+
+/**
+ * Extract all structured data from a page
+ *
+ * @param html - Raw HTML
+ * @param baseUrl - Page URL (resolves relative URLs in Microdata / RDFa)
+ * @returns Top-level entities (JSON-LD, then Microdata, then RDFa) and JSON-LD parse errors
+ */
+export function extractStructuredData(html: string, baseUrl: string): StructuredDataExtraction {
+  const $ = cheerio.load(html);
+  const jsonLd = extractJsonLd($);
+
+  return {
+    entities: [...jsonLd.entities, ...extractItems($, MICRODATA, baseUrl), ...extractItems($, RDFA, baseUrl)],
+    errors: jsonLd.errors,
+  };
+}
+
+/**
+ * Distinct types of the top-level entities, in order of appearance
+ */
+export function getSchemaTypes(entities: StructuredDataEntity[]): string[] {
+  return [...new Set(entities.flatMap(entity => entity.types))];
+}
@@ -0,0 +1,127 @@
+/**
+ * Structured Data Validator
+ *
+ * Checks extracted schema.org entities, nested ones included, for the
+ * properties their type needs (Google's rich result requirements where
+ * Google documents the type, the schema.org essentials otherwise).
+ */
+
+import type { StructuredDataEntity, StructuredDataIssue } from '../types/database.types';
+
+/**
+ * Required properties per rule type; each entry lists alternatives, any one of which will do
+ */
+const REQUIRED_PROPERTIES: Record<string, string[][]> = {
+  Article: [['headline'], ['author'], ['datePublished'], ['image']],
+  Product: [['name'], ['offers', 'review', 'aggregateRating']],
+  LocalBusiness: [['name'], ['address']],
+  FAQPage: [['mainEntity']],
+  Question: [['name'], ['acceptedAnswer', 'suggestedAnswer']],
+  Answer: [['text']],
+  BreadcrumbList: [['itemListElement']],
+  ListItem: [['position'], ['item', 'name', 'url']],
+  MedicalProcedure: [['name'], ['description']],
+};
+
+/**
+ * Subtypes validated with their parent type's rule
+ */
+const RULE_TYPES: Record<string, string> = {
+  NewsArticle: 'Article',
+  BlogPosting: 'Article',
+  Report: 'Article',
+  ScholarlyArticle: 'Article',
+  MedicalScholarlyArticle: 'Article',
+  TechArticle: 'Article',
+
+  MedicalBusiness: 'LocalBusiness',
+  MedicalClinic: 'LocalBusiness',
+  Dentist: 'LocalBusiness',
+  Physician: 'LocalBusiness',
+  Optician: 'LocalBusiness',
+  Pharmacy: 'LocalBusiness',
+  Hospital: 'LocalBusiness',
+  EmergencyService: 'LocalBusiness',
+  HealthAndBeautyBusiness: 'LocalBusiness',
+  BeautySalon: 'LocalBusiness',
+  DaySpa: 'LocalBusiness',
+  HealthClub: 'LocalBusiness',
+  ProfessionalService: 'LocalBusiness',
+  LegalService: 'LocalBusiness',
+  Attorney: 'LocalBusiness',
+  FinancialService: 'LocalBusiness',
+  RealEstateAgent: 'LocalBusiness',
+  HomeAndConstructionBusiness: 'LocalBusiness',
+  Plumber: 'LocalBusiness',
+  Electrician: 'LocalBusiness',
+  AutomotiveBusiness: 'LocalBusiness',
+  ChildCare: 'LocalBusiness',
+  FoodEstablishment: 'LocalBusiness',
+  Restaurant: 'LocalBusiness',
+  CafeOrCoffeeShop: 'LocalBusiness',
+  LodgingBusiness: 'LocalBusiness',
+  Hotel: 'LocalBusiness',
+  Store: 'LocalBusiness',
+
+  DiagnosticProcedure: 'MedicalProcedure',
+  SurgicalProcedure: 'MedicalProcedure',
+  TherapeuticProcedure: 'MedicalProcedure',
+  MedicalTherapy: 'MedicalProcedure',
+  PhysicalTherapy: 'MedicalProcedure',
+  PalliativeProcedure: 'MedicalProcedure',
+  PsychologicalTreatment: 'MedicalProcedure',
+  RadiationTherapy: 'MedicalProcedure',
+  OccupationalTherapy: 'MedicalProcedure',
+};
+
+/**
+ * Rule types that apply to an entity (a MedicalClinic + Dentist entity is checked once)
+ */
+function ruleTypes(entity: StructuredDataEntity): string[] {
+  const rules = entity.types.map(type => RULE_TYPES[type] || type).filter(type => REQUIRED_PROPERTIES[type]);
+  return [...new Set(rules)];
+}
+
+function hasProperty(entity: StructuredDataEntity, name: string): boolean {
+  return (entity.properties[name] || []).some(value => value !== '');
+}
+
+/**
+ * Validate one entity and, recursively, the entities in its properties
+ */
+function validateEntity(entity: StructuredDataEntity, path: string, issues: StructuredDataIssue[]): void {
+  for (const ruleType of ruleTypes(entity)) {
+    for (const alternatives of REQUIRED_PROPERTIES[ruleType]) {
+      if (alternatives.some(name => hasProperty(entity, name))) continue;
+      issues.push({
+        type: 'missing_property',
+        format: entity.format,
+        schema_type: ruleType,
+        path,
+        missing: alternatives,
+        message: null,
+      });
+    }
+  }
+
+  for (const [name, values] of Object.entries(entity.properties)) {
+    for (const value of values) {
+      if (typeof value !== 'object') continue;
+      validateEntity(value, `${path} > ${name} > ${value.types.join('/') || 'Thing'}`, issues);
+    }
+  }
+}
+
+/**
+ * Report missing required properties of a page's structured data
+ *
+ * @param entities - Top-level entities (see extractStructuredData)
+ * @returns missing_property issues, in document order
+ */
+export function validateStructuredData(entities: StructuredDataEntity[]): StructuredDataIssue[] {
+  const issues: StructuredDataIssue[] = [];
+  for (const entity of entities) {
+    validateEntity(entity, entity.types.join('/') || 'Thing', issues);
+  }
+  return issues;
+}
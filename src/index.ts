@@ -7,13 +7,17 @@
 import { Command } from 'commander';
 import { v4 as uuidv4 } from 'uuid';
 import * as dotenv from 'dotenv';
-import { parseMultipleSitemaps } from './parsers/sitemapParser';
+import { parseSitemapEntries, dedupeSitemapUrls, discoverSitemaps, parseLastmod } from './parsers/sitemapParser';
 import { runCrawl } from './core/crawler';
 import { testConnection, closePool } from './config/database';
-import { createCrawlRun, updateCrawlRun, finishCrawlRun } from './db/queries';
-import { CrawlOptions } from './types/crawl.types';
+import { createCrawlRun, updateCrawlRun, finishCrawlRun, getCrawlRun, replaceRunSitemapUrls } from './db/queries';
+import { CrawlOptions, DiscoveryScope } from './types/crawl.types';
+import { FetchMode } from './types/database.types';
 import { logger } from './utils/logger';
-import { DEFAULT_MAX_PAGES, DEFAULT_FETCH_MODE } from './config/constants';
+import { DEFAULT_MAX_PAGES, DEFAULT_FETCH_MODE, DEFAULT_DISCOVERY_MAX_DEPTH } from './config/constants';
+
+const FETCH_MODES: FetchMode[] = ['cheerio', 'playwright'];
+const DISCOVERY_SCOPES: DiscoveryScope[] = ['host', 'subdomains', 'path'];
 
 // Load environment variables
 dotenv.config();
@@ -24,7 +28,8 @@ program
   .name('crawl')
   .description('Self-hosted website crawler with Markdown extraction')
   .version('1.0.0')
-  .requiredOption('-s, --sitemap <urls...>', 'Sitemap XML URL(s)')
+  .option('-s, --sitemap <urls...>', 'Sitemap XML URL(s) or local file(s)')
+  .option('-u, --url <urls...>', 'Site URL(s) - sitemaps found via robots.txt')
   .option('-m, --max-pages <number>', 'Maximum pages to crawl', String(DEFAULT_MAX_PAGES))
   .option(
     '-f, --fetch-mode <mode>',
@@ -34,6 +39,18 @@ program
   .option('-d, --debug', 'Enable debug logging')
   .option('--dry-run', 'Parse sitemap without crawling')
   .option('--recrawl', 'Force recrawl of existing pages')
+  .option('--incremental', 'Refetch only changed pages (sitemap lastmod, ETag/Last-Modified, content hash)')
+  .option('--ignore-robots', 'Ignore robots.txt rules and Crawl-delay')
+  .option('--discover', 'Also follow same-site links (nav, footer, content)')
+  .option('--max-depth <number>', 'Max link hops from a sitemap page', String(DEFAULT_DISCOVERY_MAX_DEPTH))
+  .option('--scope <scope>', 'Discovery scope (host|subdomains|path)', 'host')
+  .option('--path-prefix <prefixes...>', 'Allowed path prefixes for --scope path')
+  .option('--include <patterns...>', 'Only follow links matching one of these regexes')
+  .option('--exclude <patterns...>', 'Never follow links matching these regexes')
+  .option('--canonical-aliases', 'Store pages canonicalized to another page as aliases of their canonical')
+  .option('--check-links', 'After the crawl, check link targets that were not crawled (HEAD requests)')
+  .option('--check-external-links', 'Same, including links to other hosts')
+  .option('--resume <runId>', 'Continue an interrupted run with its original sitemaps and options')
   .action(async (options) => {
     try {
       await main(options);
@@ -47,25 +64,130 @@ program
  * Main crawl execution
  */
 async function main(cliOptions: any) {
-  const runId = uuidv4();
-
   // Set log level if debug
   if (cliOptions.debug) {
     process.env.LOG_LEVEL = 'debug';
   }
 
+  if (cliOptions.resume) {
+    const crawlOptions = await loadRunToResume(cliOptions.resume, cliOptions.debug);
+    await crawlSitemaps(crawlOptions, false);
+    return;
+  }
+
+  const runId = uuidv4();
+
   logger.info({ runId }, '🚀 A-Crawler starting');
   logger.info({ options: cliOptions }, 'Configuration');
 
+  if (!FETCH_MODES.includes(cliOptions.fetchMode)) {
+    logger.error({ fetchMode: cliOptions.fetchMode }, `Invalid fetch mode (expected ${FETCH_MODES.join('|')})`);
+    process.exit(1);
+  }
+
+  if (!DISCOVERY_SCOPES.includes(cliOptions.scope)) {
+    logger.error({ scope: cliOptions.scope }, `Invalid scope (expected ${DISCOVERY_SCOPES.join('|')})`);
+    process.exit(1);
+  }
+
+  if (!cliOptions.sitemap && !cliOptions.url) {
+    logger.error('Provide --sitemap and/or --url (or --resume <runId>)');
+    process.exit(1);
+  }
+
   // Test database connection (skip in dry-run mode)
   if (!cliOptions.dryRun) {
     logger.info('Testing database connection...');
     await testConnection();
   }
 
-  // Parse sitemaps
-  logger.info({ sitemaps: cliOptions.sitemap }, 'Parsing sitemaps');
-  const sitemapUrls = await parseMultipleSitemaps(cliOptions.sitemap);
+  // Sitemaps given directly plus those listed in the sites' robots.txt
+  const sitemaps: string[] = [...(cliOptions.sitemap || [])];
+  if (cliOptions.url) {
+    for (const sitemap of await discoverSitemaps(cliOptions.url)) {
+      if (!sitemaps.includes(sitemap)) sitemaps.push(sitemap);
+    }
+  }
+
+  // Prepare crawl options
+  const crawlOptions: CrawlOptions = {
+    sitemaps,
+    maxPages: parseInt(cliOptions.maxPages, 10),
+    fetchMode: cliOptions.fetchMode,
+    debug: cliOptions.debug,
+    recrawl: cliOptions.recrawl,
+    incremental: cliOptions.incremental,
+    ignoreRobots: cliOptions.ignoreRobots,
+    discover: cliOptions.discover,
+    maxDepth: parseInt(cliOptions.maxDepth, 10),
+    scope: cliOptions.scope,
+    pathPrefixes: cliOptions.pathPrefix,
+    includePatterns: cliOptions.include,
+    excludePatterns: cliOptions.exclude,
+    canonicalAliases: cliOptions.canonicalAliases,
+    checkLinks: cliOptions.checkLinks,
+    checkExternalLinks: cliOptions.checkExternalLinks,
+    runId,
+  };
+
+  await crawlSitemaps(crawlOptions, cliOptions.dryRun);
+}
+
+/**
+ * Load an unfinished run's seed sitemaps and options from crawl_runs
+ * Crawl options given on the command line are ignored when resuming
+ *
+ * @param runId - Run to resume
+ * @param debug - Debug logging flag from the command line
+ * @returns Crawl options of the original run
+ */
+async function loadRunToResume(runId: string, debug?: boolean): Promise<CrawlOptions> {
+  logger.info({ runId }, '🚀 A-Crawler resuming run');
+
+  logger.info('Testing database connection...');
+  await testConnection();
+
+  const run = await getCrawlRun(runId);
+  if (!run) {
+    logger.error({ runId }, 'Crawl run not found');
+    process.exit(1);
+  }
+  if (run.finished_at) {
+    logger.error({ runId, finishedAt: run.finished_at }, 'Crawl run already finished - nothing to resume');
+    process.exit(1);
+  }
+
+  // Runs created before crawl_options existed only have the basic columns
+  const stored = run.crawl_options || {
+    maxPages: run.max_pages || DEFAULT_MAX_PAGES,
+    fetchMode: run.fetch_mode_default,
+  };
+
+  const crawlOptions: CrawlOptions = {
+    ...stored,
+    sitemaps: run.seed_sitemaps,
+    debug,
+    resume: true,
+    runId,
+  };
+  logger.info({ options: crawlOptions }, 'Configuration (from crawl_runs)');
+
+  return crawlOptions;
+}
+
+/**
+ * Parse the seed sitemaps and run (or continue) the crawl
+ *
+ * @param crawlOptions - Crawl configuration
+ * @param dryRun - Only list the URLs that would be crawled
+ */
+async function crawlSitemaps(crawlOptions: CrawlOptions, dryRun: boolean) {
+  const { runId, sitemaps } = crawlOptions;
+
+  // Parse sitemaps (every entry is kept for the sitemap audit)
+  logger.info({ sitemaps }, 'Parsing sitemaps');
+  const sitemapEntries = await parseSitemapEntries(sitemaps);
+  const sitemapUrls = dedupeSitemapUrls(sitemapEntries);
 
   if (sitemapUrls.length === 0) {
     logger.error('No URLs found in sitemaps');
@@ -75,7 +197,7 @@ async function main(cliOptions: any) {
   logger.info({ totalUrls: sitemapUrls.length }, 'URLs discovered from sitemaps');
 
   // Dry run - just show what would be crawled
-  if (cliOptions.dryRun) {
+  if (dryRun) {
     logger.info('Dry run mode - showing first 10 URLs:');
     sitemapUrls.slice(0, 10).forEach((entry, i) => {
       console.log(`  ${i + 1}. ${entry.normalizedUrl}`);
@@ -88,24 +210,31 @@ async function main(cliOptions: any) {
     return;
   }
 
-  // Create crawl run record
-  logger.info({ runId }, 'Creating crawl run record');
-  await createCrawlRun({
-    run_id: runId,
-    seed_sitemaps: cliOptions.sitemap,
-    max_pages: parseInt(cliOptions.maxPages, 10),
-    fetch_mode_default: cliOptions.fetchMode,
-  });
+  // Create crawl run record (a resumed run keeps its original record)
+  if (!crawlOptions.resume) {
+    logger.info({ runId }, 'Creating crawl run record');
+    // Everything but the per-invocation fields, so --resume can rebuild the options
+    const { runId: _runId, sitemaps: _sitemaps, debug: _debug, ...storedOptions } = crawlOptions;
+    await createCrawlRun({
+      run_id: runId,
+      seed_sitemaps: sitemaps,
+      max_pages: crawlOptions.maxPages,
+      fetch_mode_default: crawlOptions.fetchMode,
+      crawl_options: storedOptions,
+    });
+  }
 
-  // Prepare crawl options
-  const crawlOptions: CrawlOptions = {
-    sitemaps: cliOptions.sitemap,
-    maxPages: parseInt(cliOptions.maxPages, 10),
-    fetchMode: cliOptions.fetchMode,
-    debug: cliOptions.debug,
-    recrawl: cliOptions.recrawl,
-    runId,
-  };
+  try {
+    await replaceRunSitemapUrls(runId, sitemapEntries.map(entry => ({
+      url: entry.normalizedUrl,
+      loc: entry.url,
+      sitemap_url: entry.sitemapSource || null,
+      lastmod: entry.lastmod || null,
+      lastmod_at: parseLastmod(entry.lastmod),
+    })));
+  } catch (error) {
+    logger.error({ error: (error as Error).message }, 'Failed to store sitemap entries - sitemap audit unavailable');
+  }
 
   // Run the crawl with full sitemap URL entries (includes type hints)
   logger.info({ totalUrls: sitemapUrls.length }, '🕷️  Starting crawl');
@@ -145,10 +274,31 @@ function displaySummary(runId: string, stats: any) {
   console.log('');
   console.log('📊 Statistics:');
   console.log(`  • Total URLs discovered:  ${stats.urlsDiscovered.toLocaleString()}`);
+  console.log(`  • Links discovered:       ${stats.linksDiscovered.toLocaleString()}`);
   console.log(`  • Pages crawled:          ${stats.pagesCrawled.toLocaleString()}`);
   console.log(`  • Pages skipped (dupes):  ${stats.pagesSkipped.toLocaleString()}`);
+  console.log(`  • Pages unchanged:        ${stats.pagesUnchanged.toLocaleString()}`);
   console.log(`  • Redirects:              ${stats.redirects.toLocaleString()}`);
+  console.log(`  • Redirect loops:         ${stats.redirectLoops.toLocaleString()}`);
+  console.log(`  • Canonical aliases:      ${stats.canonicalAliases.toLocaleString()}`);
+  console.log(`  • Browser fallbacks:      ${stats.browserFallbacks.toLocaleString()}`);
+  console.log(`  • Soft 404s:              ${stats.soft404s.toLocaleString()}`);
+  console.log(`  • Blocked by robots.txt:  ${stats.blockedByRobots.toLocaleString()}`);
+  console.log(`  • Throttled (429/503):    ${stats.throttledResponses.toLocaleString()}`);
   console.log(`  • Errors:                 ${stats.errors.toLocaleString()}`);
+
+  // Politeness waits, slowest domains first
+  const waits = Object.entries(stats.domainWaitMs as Record<string, number>)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 10);
+  if (waits.length > 0) {
+    console.log('');
+    console.log('🐢 Throttling wait by domain:');
+    for (const [domain, waitMs] of waits) {
+      console.log(`  • ${domain.padEnd(30)} ${(waitMs / 1000).toFixed(1)}s`);
+    }
+  }
+
   console.log('');
   console.log(`⏱  Duration: ${minutes}m ${seconds}s`);
   console.log(`💾  Database: ${process.env.MYSQL_DATABASE || 'crawler_db'}`);
@@ -0,0 +1,114 @@
+/**
+ * hreflang parser
+ * Reads hreflang alternates from the HTTP Link header (HTML <link> tags are read
+ * by extractMetadata, sitemap <xhtml:link> entries by the sitemap parser) and
+ * validates codes
+ */
+
+import { normalizeUrl } from '../core/urlNormalizer';
+import type { HreflangLink, HreflangSource } from '../types/database.types';
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region', fallback: 'none' });
+
+/**
+ * Check an hreflang code: ISO 639-1 language, optional script, optional
+ * ISO 3166-1 alpha-2 region, or x-default
+ *
+ * Region aliases (en-UK for en-GB) and numeric regions (es-419) are rejected,
+ * as search engines do not support them.
+ *
+ * @param code - hreflang value
+ * @returns True if the code is valid
+ */
+export function isValidHreflangCode(code: string): boolean {
+  if (code.toLowerCase() === 'x-default') return true;
+
+  const match = code.match(/^([a-z]{2,3})(?:-([a-z]{4}))?(?:-([a-z]{2}))?$/i);
+  if (!match) return false;
+
+  const [, language, , region] = match;
+  if (!languageNames.of(language)) return false;
+  if (!region) return true;
+
+  const upperRegion = region.toUpperCase();
+  const canonicalRegion = Intl.getCanonicalLocales(`und-${upperRegion}`)[0].split('-')[1];
+  return canonicalRegion === upperRegion && upperRegion !== 'ZZ' && !!regionNames.of(upperRegion);
+}
+
+/**
+ * Build an annotation with a normalized absolute URL
+ *
+ * @param hreflang - hreflang value
+ * @param href - Alternate URL (relative URLs are resolved against baseUrl)
+ * @param baseUrl - URL of the page or sitemap
+ * @param source - Where the annotation was found
+ * @returns Annotation, or null when the code or URL is empty / unusable
+ */
+export function createHreflangLink(
+  hreflang: string | null | undefined,
+  href: string | null | undefined,
+  baseUrl: string | undefined,
+  source: HreflangSource
+): HreflangLink | null {
+  const code = (hreflang || '').trim().toLowerCase();
+  if (!code || !href) return null;
+
+  try {
+    const url = normalizeUrl(new URL(href.trim(), baseUrl).toString());
+    return { hreflang: code, url, source };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse hreflang alternates from a Link header
+ * e.g. `<https://example.com/es/>; rel="alternate"; hreflang="es"`
+ *
+ * @param header - Link header value (several headers joined with ", ")
+ * @param baseUrl - Page URL
+ * @returns Annotations from the header
+ */
+export function parseLinkHeaderHreflang(header: string, baseUrl: string): HreflangLink[] {
+  const links: HreflangLink[] = [];
+
+  // Each link-value is <uri> followed by its ;-separated parameters
+  for (const match of header.matchAll(/<([^>]*)>([^<]*)/g)) {
+    const params = new Map<string, string>();
+    for (const param of match[2].split(';')) {
+      const [name, ...value] = param.split('=');
+      if (!name.trim() || value.length === 0) continue;
+      const unquoted = value.join('=').trim().replace(/,$/, '').trim().replace(/^"(.*)"$/, '$1');
+      params.set(name.trim().toLowerCase(), unquoted);
+    }
+
+    const rel = (params.get('rel') || '').toLowerCase().split(/\s+/);
+    if (!rel.includes('alternate')) continue;
+
+    const link = createHreflangLink(params.get('hreflang'), match[1], baseUrl, 'header');
+    if (link) links.push(link);
+  }
+
+  return links;
+}
+
+/**
+ * Combine annotations from several sources, keeping the first of each code/URL pair
+ *
+ * @param lists - Annotations per source, in order of preference
+ * @returns Deduplicated annotations
+ */
+export function mergeHreflangLinks(...lists: HreflangLink[][]): HreflangLink[] {
+  const seen = new Set<string>();
+  const merged: HreflangLink[] = [];
+
+  for (const link of lists.flat()) {
+    const key = `${link.hreflang} ${link.url}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(link);
+  }
+
+  return merged;
+}
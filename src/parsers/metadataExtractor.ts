@@ -4,6 +4,16 @@
  */
 
 import { JSDOM } from 'jsdom';
+import { ROBOTS_META_USER_AGENTS } from '../config/constants';
+import { createHreflangLink } from './hreflangParser';
+import type {
+  HeadingIssue,
+  HreflangLink,
+  OpenGraphImage,
+  PageHeading,
+  PageIcon,
+  SocialMetadata,
+} from '../types/database.types';
 
 /**
  * Page metadata
@@ -15,6 +25,10 @@ export interface PageMetadata {
   canonicalUrl: string | null;
   ogImage: string | null;
   language: string | null;
+  robotsMeta: Record<string, string>;  // Robots meta tag content by lowercase name (robots, googlebot, ...)
+  hreflang: HreflangLink[];            // <link rel="alternate" hreflang="..."> tags
+  social: SocialMetadata;              // Open Graph, Twitter card, icons, author, dates, keywords
+  headings: PageHeading[];             // h1-h6 in document order
 }
 
 /**
@@ -33,6 +47,10 @@ export function extractMetadata(html: string, url?: string): PageMetadata {
       canonicalUrl: null,
       ogImage: null,
       language: null,
+      robotsMeta: {},
+      hreflang: [],
+      social: emptySocialMetadata(),
+      headings: [],
     };
   }
 
@@ -40,13 +58,19 @@ export function extractMetadata(html: string, url?: string): PageMetadata {
     const dom = new JSDOM(html, { url });
     const document = dom.window.document;
 
+    const social = extractSocialMetadata(document, url);
+
     return {
       title: extractTitle(document),
       h1: extractH1(document),
       metaDescription: extractMetaDescription(document),
       canonicalUrl: extractCanonical(document, url),
-      ogImage: extractOgImage(document, url),
+      ogImage: social.og.images[0]?.url || null,
       language: extractLanguage(document),
+      robotsMeta: extractRobotsMeta(document),
+      hreflang: extractHreflang(document, url),
+      social,
+      headings: extractHeadings(document),
     };
   } catch (error) {
     console.error('Metadata extraction failed:', (error as Error).message);
@@ -57,6 +81,10 @@ export function extractMetadata(html: string, url?: string): PageMetadata {
       canonicalUrl: null,
       ogImage: null,
       language: null,
+      robotsMeta: {},
+      hreflang: [],
+      social: emptySocialMetadata(),
+      headings: [],
     };
   }
 }
@@ -147,29 +175,6 @@ function extractCanonical(document: Document, baseUrl?: string): string | null {
   return null;
 }
 
-/**
- * Extract Open Graph image
- */
-function extractOgImage(document: Document, baseUrl?: string): string | null {
-  const ogImage = document.querySelector('meta[property="og:image"]');
-  if (ogImage) {
-    const content = ogImage.getAttribute('content');
-    if (content) {
-      // Make absolute if relative
-      if (baseUrl) {
-        try {
-          return new URL(content, baseUrl).toString();
-        } catch {
-          return content;
-        }
-      }
-      return content;
-    }
-  }
-
-  return null;
-}
-
 /**
  * Extract language
  */
@@ -188,6 +193,183 @@ function extractLanguage(document: Document): string | null {
   return null;
 }
 
+/**
+ * Extract robots meta tags: <meta name="robots"> plus bot-specific ones
+ * (ROBOTS_META_USER_AGENTS); repeated tags for the same name are joined
+ */
+function extractRobotsMeta(document: Document): Record<string, string> {
+  const robotsMeta: Record<string, string> = {};
+
+  for (const meta of Array.from(document.querySelectorAll('meta[name][content]'))) {
+    const name = (meta.getAttribute('name') || '').trim().toLowerCase();
+    if (name !== 'robots' && !ROBOTS_META_USER_AGENTS.includes(name)) continue;
+
+    const content = (meta.getAttribute('content') || '').trim();
+    if (!content) continue;
+    robotsMeta[name] = robotsMeta[name] ? `${robotsMeta[name]}, ${content}` : content;
+  }
+
+  return robotsMeta;
+}
+
+/**
+ * Extract hreflang alternates: <link rel="alternate" hreflang="es" href="...">
+ */
+function extractHreflang(document: Document, baseUrl?: string): HreflangLink[] {
+  const links: HreflangLink[] = [];
+
+  for (const element of Array.from(document.querySelectorAll('link[rel~="alternate" i][hreflang]'))) {
+    const link = createHreflangLink(element.getAttribute('hreflang'), element.getAttribute('href'), baseUrl, 'html');
+    if (link) links.push(link);
+  }
+
+  return links;
+}
+
+/**
+ * Social metadata with no tags found
+ */
+function emptySocialMetadata(): SocialMetadata {
+  return {
+    og: { title: null, description: null, type: null, url: null, site_name: null, locale: null, images: [] },
+    twitter: { card: null, site: null, creator: null, title: null, description: null, image: null, image_alt: null },
+    icons: [],
+    author: null,
+    published_time: null,
+    modified_time: null,
+    keywords: [],
+  };
+}
+
+/**
+ * Resolve a URL against the page URL (returned as written when it does not parse)
+ */
+function resolveUrl(href: string, baseUrl?: string): string {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Extract Open Graph, Twitter card, icon and document metadata
+ *
+ * Meta tags are read from both `property` and `name` (sites mix them up for
+ * og: and twitter: tags); the first non-empty value of a key wins.
+ */
+function extractSocialMetadata(document: Document, baseUrl?: string): SocialMetadata {
+  const social = emptySocialMetadata();
+  const values = new Map<string, string>();
+
+  for (const meta of Array.from(document.querySelectorAll('meta[content]'))) {
+    const content = (meta.getAttribute('content') || '').trim();
+    if (!content) continue;
+
+    const keys = new Set(
+      [meta.getAttribute('property'), meta.getAttribute('name')]
+        .filter((key): key is string => !!key)
+        .map(key => key.trim().toLowerCase())
+    );
+    for (const key of keys) {
+      // Every og:image starts a new image; its structured properties follow it
+      if (key === 'og:image' || key === 'og:image:url') {
+        const previous = social.og.images[social.og.images.length - 1];
+        if (key === 'og:image:url' && previous && previous.url === resolveUrl(content, baseUrl)) continue;
+        social.og.images.push({
+          url: resolveUrl(content, baseUrl),
+          secure_url: null,
+          type: null,
+          width: null,
+          height: null,
+          alt: null,
+        });
+      } else if (key.startsWith('og:image:') && social.og.images.length > 0) {
+        applyImageProperty(social.og.images[social.og.images.length - 1], key.slice('og:image:'.length), content, baseUrl);
+      } else if (!values.has(key)) {
+        values.set(key, content);
+      }
+    }
+  }
+
+  const first = (...keys: string[]) => keys.map(key => values.get(key)).find(value => value !== undefined) || null;
+
+  social.og.title = first('og:title');
+  social.og.description = first('og:description');
+  social.og.type = first('og:type');
+  social.og.url = first('og:url');
+  social.og.site_name = first('og:site_name');
+  social.og.locale = first('og:locale');
+
+  social.twitter.card = first('twitter:card');
+  social.twitter.site = first('twitter:site');
+  social.twitter.creator = first('twitter:creator');
+  social.twitter.title = first('twitter:title');
+  social.twitter.description = first('twitter:description');
+  const twitterImage = first('twitter:image', 'twitter:image:src');
+  social.twitter.image = twitterImage ? resolveUrl(twitterImage, baseUrl) : null;
+  social.twitter.image_alt = first('twitter:image:alt');
+
+  social.author = first('author', 'article:author', 'dc.creator');
+  social.published_time = first('article:published_time', 'datepublished', 'pubdate', 'publish-date', 'dc.date.issued', 'date');
+  social.modified_time = first('article:modified_time', 'og:updated_time', 'datemodified', 'last-modified', 'dc.date.modified');
+  social.keywords = [
+    ...new Set((first('keywords') || '').split(',').map(keyword => keyword.trim()).filter(Boolean)),
+  ];
+
+  social.icons = extractIcons(document, baseUrl);
+  return social;
+}
+
+/**
+ * Apply an og:image:* property to the image it follows
+ */
+function applyImageProperty(image: OpenGraphImage, property: string, content: string, baseUrl?: string): void {
+  const size = parseInt(content, 10);
+
+  switch (property) {
+    case 'secure_url':
+      image.secure_url = resolveUrl(content, baseUrl);
+      break;
+    case 'type':
+      image.type = content;
+      break;
+    case 'width':
+      image.width = isNaN(size) ? null : size;
+      break;
+    case 'height':
+      image.height = isNaN(size) ? null : size;
+      break;
+    case 'alt':
+      image.alt = content;
+      break;
+  }
+}
+
+/**
+ * Extract favicon, apple-touch-icon and mask-icon links
+ */
+function extractIcons(document: Document, baseUrl?: string): PageIcon[] {
+  const icons: PageIcon[] = [];
+
+  for (const link of Array.from(document.querySelectorAll('link[rel][href]'))) {
+    const rel = (link.getAttribute('rel') || '').trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!/(^|\s)(icon|apple-touch-icon|apple-touch-icon-precomposed|mask-icon)(\s|$)/.test(rel)) continue;
+
+    const href = (link.getAttribute('href') || '').trim();
+    if (!href) continue;
+
+    icons.push({
+      rel,
+      href: resolveUrl(href, baseUrl),
+      sizes: link.getAttribute('sizes')?.trim() || null,
+      type: link.getAttribute('type')?.trim() || null,
+    });
+  }
+
+  return icons;
+}
+
 /**
  * Check if page has multiple H1s (SEO issue)
  */
@@ -202,26 +384,72 @@ export function hasMultipleH1s(html: string): boolean {
 }
 
 /**
- * Extract all headings with hierarchy
+ * Extract h1-h6 in document order
+ * Empty headings are kept (they are an outline issue); a heading made of an
+ * image (logo H1) takes the image's alt text
  */
-export function extractHeadingStructure(html: string): Array<{ level: number; text: string }> {
-  try {
-    const dom = new JSDOM(html);
-    const document = dom.window.document;
-    const headings: Array<{ level: number; text: string }> = [];
-
-    for (let level = 1; level <= 6; level++) {
-      const elements = document.querySelectorAll(`h${level}`);
-      elements.forEach((el) => {
-        const text = el.textContent?.trim();
-        if (text) {
-          headings.push({ level, text });
-        }
-      });
+function extractHeadings(document: Document): PageHeading[] {
+  return Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6')).map((element, position) => {
+    let text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+    if (!text) {
+      text = Array.from(element.querySelectorAll('img[alt]'))
+        .map(img => (img.getAttribute('alt') || '').trim())
+        .filter(Boolean)
+        .join(' ');
     }
 
-    return headings;
+    const anchor = element.querySelector('a[id], a[name]');
+    const id = element.getAttribute('id') || anchor?.getAttribute('id') || anchor?.getAttribute('name') || null;
+
+    return {
+      level: parseInt(element.tagName.slice(1), 10),
+      text: text.length > 500 ? text.substring(0, 500) : text,
+      position,
+      id: id?.trim() || null,
+    };
+  });
+}
+
+/**
+ * Extract all headings in document order
+ */
+export function extractHeadingStructure(html: string): PageHeading[] {
+  try {
+    const dom = new JSDOM(html);
+    return extractHeadings(dom.window.document);
   } catch {
     return [];
   }
 }
+
+/**
+ * Find outline issues: extra H1s, skipped levels, empty headings, repeated H2s
+ *
+ * @param headings - Outline in document order (see extractHeadingStructure)
+ * @returns Issues in document order
+ */
+export function findHeadingIssues(headings: PageHeading[]): HeadingIssue[] {
+  const issues: HeadingIssue[] = [];
+  const issue = (type: HeadingIssue['type'], heading: PageHeading) =>
+    issues.push({ type, level: heading.level, position: heading.position, text: heading.text });
+
+  let h1Count = 0;
+  const h2Texts = new Set<string>();
+  let previousLevel: number | null = null;
+
+  for (const heading of headings) {
+    if (heading.level === 1 && ++h1Count > 1) issue('multiple_h1', heading);
+    if (previousLevel !== null && heading.level > previousLevel + 1) issue('skipped_level', heading);
+    if (!heading.text) issue('empty_heading', heading);
+
+    if (heading.level === 2 && heading.text) {
+      const key = heading.text.toLowerCase();
+      if (h2Texts.has(key)) issue('duplicate_h2', heading);
+      h2Texts.add(key);
+    }
+
+    previousLevel = heading.level;
+  }
+
+  return issues;
+}
@@ -0,0 +1,215 @@
+/**
+ * Robots directives parser
+ * Parses <meta name="robots"> / bot-specific meta tags and the X-Robots-Tag
+ * header (noindex, nofollow, max-snippet, unavailable_after, ...)
+ */
+
+import { INDEXABILITY_USER_AGENT } from '../config/constants';
+import type { PageRobotsDirectives, RobotsDirectives } from '../types/database.types';
+
+/**
+ * Directives that take a value (`name: value`), as opposed to a user agent prefix
+ */
+const VALUE_DIRECTIVES = ['max-snippet', 'max-image-preview', 'max-video-preview', 'unavailable_after'];
+
+// max-image-preview settings, most restrictive first
+const IMAGE_PREVIEW_ORDER = ['none', 'standard', 'large'];
+
+/**
+ * Directives with nothing set (index, follow)
+ */
+export function emptyDirectives(): RobotsDirectives {
+  return {
+    noindex: false,
+    nofollow: false,
+    noarchive: false,
+    nosnippet: false,
+    noimageindex: false,
+    max_snippet: null,
+    max_image_preview: null,
+    max_video_preview: null,
+    unavailable_after: null,
+  };
+}
+
+/**
+ * Parse an integer limit (max-snippet, max-video-preview)
+ */
+function parseLimit(value: string): number | null {
+  const limit = parseInt(value, 10);
+  return isNaN(limit) ? null : limit;
+}
+
+/**
+ * Apply one directive token to a directives object
+ *
+ * @returns False when the token is not a known directive
+ */
+function applyDirective(directives: RobotsDirectives, token: string): boolean {
+  const separator = token.indexOf(':');
+  const name = (separator === -1 ? token : token.slice(0, separator)).trim().toLowerCase();
+  const value = separator === -1 ? '' : token.slice(separator + 1).trim();
+
+  switch (name) {
+    case 'all':
+    case 'index':
+    case 'follow':
+      return true;
+    case 'none':
+      directives.noindex = true;
+      directives.nofollow = true;
+      return true;
+    case 'noindex':
+    case 'nofollow':
+    case 'noarchive':
+    case 'nosnippet':
+    case 'noimageindex':
+      directives[name] = true;
+      return true;
+    case 'nocache':  // Bing's spelling of noarchive
+      directives.noarchive = true;
+      return true;
+    case 'max-snippet':
+      directives.max_snippet = parseLimit(value);
+      return true;
+    case 'max-image-preview':
+      directives.max_image_preview = value.toLowerCase() || null;
+      return true;
+    case 'max-video-preview':
+      directives.max_video_preview = parseLimit(value);
+      return true;
+    case 'unavailable_after':
+      directives.unavailable_after = value || null;
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Parse a comma-separated directive list, optionally with user agent prefixes
+ *
+ * Dates in unavailable_after may contain commas ("Friday, 25 Jun 2027 ..."):
+ * unknown tokens right after it are treated as the rest of the date.
+ *
+ * @param content - Directive list
+ * @param allowAgents - Accept `botname: directives` prefixes (X-Robots-Tag)
+ * @returns Directives per lowercase user agent ('' = all agents)
+ */
+function parseDirectiveTokens(content: string, allowAgents: boolean): Map<string, RobotsDirectives> {
+  const byAgent = new Map<string, RobotsDirectives>();
+  let agent = '';
+  let lastDirective: string | null = null;
+
+  for (const rawToken of content.split(',')) {
+    let token = rawToken.trim();
+    if (!token) continue;
+
+    const prefix = token.match(/^([a-z][\w-]*)\s*:\s*(.*)$/i);
+    if (allowAgents && prefix && !VALUE_DIRECTIVES.includes(prefix[1].toLowerCase())) {
+      agent = prefix[1].toLowerCase();
+      token = prefix[2];
+    }
+
+    if (!byAgent.has(agent)) byAgent.set(agent, emptyDirectives());
+    const directives = byAgent.get(agent)!;
+
+    if (applyDirective(directives, token)) {
+      lastDirective = token.split(':')[0].trim().toLowerCase();
+    } else if (lastDirective === 'unavailable_after' && directives.unavailable_after) {
+      directives.unavailable_after += `, ${token}`;
+    }
+  }
+
+  return byAgent;
+}
+
+/**
+ * Parse the content of a robots meta tag
+ *
+ * @param content - content attribute (e.g., "noindex, max-snippet:50")
+ * @returns Parsed directives
+ */
+export function parseRobotsMeta(content: string): RobotsDirectives {
+  return parseDirectiveTokens(content, false).get('') || emptyDirectives();
+}
+
+/**
+ * Parse an X-Robots-Tag header (several headers arrive joined with ", ")
+ *
+ * @param header - Header value (e.g., "noindex, googlebot: nofollow")
+ * @returns Directives per lowercase user agent ('' = all agents)
+ */
+export function parseXRobotsTag(header: string): Map<string, RobotsDirectives> {
+  return parseDirectiveTokens(header, true);
+}
+
+/**
+ * Smaller of two limits, where -1 means no limit
+ */
+function minLimit(a: number | null, b: number | null): number | null {
+  if (a === null || a === -1) return b ?? a;
+  if (b === null || b === -1) return a;
+  return Math.min(a, b);
+}
+
+/**
+ * Combine two sets of directives; the most restrictive value wins
+ */
+export function mergeDirectives(a: RobotsDirectives, b: RobotsDirectives): RobotsDirectives {
+  const previews = [a.max_image_preview, b.max_image_preview]
+    .filter((value): value is string => value !== null)
+    .sort((x, y) => IMAGE_PREVIEW_ORDER.indexOf(x) - IMAGE_PREVIEW_ORDER.indexOf(y));
+
+  let unavailableAfter = a.unavailable_after || b.unavailable_after;
+  if (a.unavailable_after && b.unavailable_after && Date.parse(b.unavailable_after) < Date.parse(a.unavailable_after)) {
+    unavailableAfter = b.unavailable_after;
+  }
+
+  return {
+    noindex: a.noindex || b.noindex,
+    nofollow: a.nofollow || b.nofollow,
+    noarchive: a.noarchive || b.noarchive,
+    nosnippet: a.nosnippet || b.nosnippet,
+    noimageindex: a.noimageindex || b.noimageindex,
+    max_snippet: minLimit(a.max_snippet, b.max_snippet),
+    max_image_preview: previews[0] || null,
+    max_video_preview: minLimit(a.max_video_preview, b.max_video_preview),
+    unavailable_after: unavailableAfter,
+  };
+}
+
+/**
+ * Build a page's robots directives from its meta tags and X-Robots-Tag header
+ *
+ * @param robotsMeta - Robots meta tag content by lowercase name (see extractMetadata)
+ * @param xRobotsTag - X-Robots-Tag response header (if any)
+ * @returns Directives per source, and the effective directives for
+ *   INDEXABILITY_USER_AGENT (generic sources plus its own)
+ */
+export function buildPageRobotsDirectives(
+  robotsMeta: Record<string, string>,
+  xRobotsTag: string | undefined
+): PageRobotsDirectives {
+  const sources: Record<string, RobotsDirectives> = {};
+  let effective = emptyDirectives();
+
+  const addSource = (source: string, agent: string, directives: RobotsDirectives) => {
+    sources[source] = directives;
+    if (agent === '' || agent === INDEXABILITY_USER_AGENT) {
+      effective = mergeDirectives(effective, directives);
+    }
+  };
+
+  for (const [name, content] of Object.entries(robotsMeta)) {
+    addSource(`meta:${name}`, name === 'robots' ? '' : name, parseRobotsMeta(content));
+  }
+
+  if (xRobotsTag) {
+    for (const [agent, directives] of parseXRobotsTag(xRobotsTag)) {
+      addSource(agent ? `header:${agent}` : 'header', agent, directives);
+    }
+  }
+
+  return { effective, sources };
+}
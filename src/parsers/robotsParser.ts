@@ -0,0 +1,238 @@
+/**
+ * robots.txt fetcher and parser
+ * Implements the Robots Exclusion Protocol (RFC 9309): user-agent groups,
+ * Allow/Disallow with * and $ wildcards (longest match wins), plus the
+ * non-standard Crawl-delay and Sitemap directives
+ */
+
+import { ROBOTS_USER_AGENT, USER_AGENT, MAX_CRAWL_DELAY_SECS } from '../config/constants';
+
+/**
+ * A single Allow/Disallow rule
+ */
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+/**
+ * Rules that apply to our crawler for one origin
+ */
+export interface RobotsRules {
+  origin: string;
+  rules: RobotsRule[];
+  crawlDelaySecs: number | null;
+  sitemaps: string[];             // Sitemap: directives (apply to every user agent)
+  fetchStatus: number | null;     // HTTP status of robots.txt (null = network error)
+}
+
+/**
+ * Result of checking a URL against robots.txt
+ */
+export interface RobotsCheck {
+  allowed: boolean;
+  matchedRule: RobotsRule | null;
+}
+
+/**
+ * Parse robots.txt content for a user agent
+ *
+ * Picks the group whose user-agent token equals ours (case-insensitive, RFC 9309
+ * section 2.2.1 - `bot` does not match `ACrawler`); falls back to the `*`
+ * group. Multiple groups for the same agent are merged.
+ *
+ * @param content - robots.txt body
+ * @param origin - Origin the file was served from (e.g., "https://example.com")
+ * @param userAgent - Product token to match (default: ROBOTS_USER_AGENT)
+ * @returns Parsed rules
+ */
+export function parseRobotsTxt(
+  content: string,
+  origin: string,
+  userAgent: string = ROBOTS_USER_AGENT
+): RobotsRules {
+  const agentToken = userAgent.toLowerCase();
+  const sitemaps: string[] = [];
+
+  const specific: { rules: RobotsRule[]; crawlDelay: number | null } = { rules: [], crawlDelay: null };
+  const wildcard: { rules: RobotsRule[]; crawlDelay: number | null } = { rules: [], crawlDelay: null };
+  let hasSpecificGroup = false;
+
+  // Current group state: consecutive user-agent lines start a group
+  let groupAgents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      if (inRules) {
+        groupAgents = [];
+        inRules = false;
+      }
+      groupAgents.push(value.toLowerCase());
+      continue;
+    }
+
+    if (groupAgents.length === 0) continue;
+    inRules = true;
+
+    const matchesUs = groupAgents.includes(agentToken);
+    const matchesWildcard = groupAgents.includes('*');
+    const targets = [];
+    if (matchesUs) {
+      hasSpecificGroup = true;
+      targets.push(specific);
+    } else if (matchesWildcard) {
+      targets.push(wildcard);
+    }
+
+    for (const target of targets) {
+      if (field === 'allow' || field === 'disallow') {
+        // An empty Disallow means "allow everything" and adds no rule
+        if (value) {
+          target.rules.push({ allow: field === 'allow', path: value });
+        }
+      } else if (field === 'crawl-delay') {
+        const delay = parseFloat(value);
+        if (!isNaN(delay) && delay >= 0) {
+          target.crawlDelay = Math.min(delay, MAX_CRAWL_DELAY_SECS);
+        }
+      }
+    }
+  }
+
+  const group = hasSpecificGroup ? specific : wildcard;
+
+  return {
+    origin,
+    rules: group.rules,
+    crawlDelaySecs: group.crawlDelay,
+    sitemaps,
+    fetchStatus: 200,
+  };
+}
+
+/**
+ * Check a URL against robots.txt rules
+ * The longest matching rule wins; on a tie, Allow wins
+ *
+ * @param robots - Parsed rules for the URL's origin
+ * @param url - Absolute URL to check
+ * @returns Whether the URL may be crawled and which rule decided it
+ */
+export function checkRobotsRules(robots: RobotsRules, url: string): RobotsCheck {
+  let path: string;
+  try {
+    const urlObj = new URL(url);
+    path = urlObj.pathname + urlObj.search;
+  } catch {
+    return { allowed: true, matchedRule: null };
+  }
+
+  let best: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!matchesRobotsPath(rule.path, path)) continue;
+
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow && !best.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return { allowed: best ? best.allow : true, matchedRule: best };
+}
+
+/**
+ * Match a robots.txt path pattern (supports * and trailing $)
+ */
+function matchesRobotsPath(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+
+  const regexSource = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${regexSource}${anchored ? '$' : ''}`).test(safeDecode(path));
+}
+
+/**
+ * Decode percent-encoding for comparison, keeping the original on malformed input
+ */
+function safeDecode(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Check whether a robots.txt fetch status means the file was unreachable
+ * (server error, 429 Too Many Requests or network error)
+ *
+ * @param fetchStatus - HTTP status of robots.txt (null = network error)
+ * @returns True if the origin must be treated as fully disallowed
+ */
+export function isRobotsTxtUnavailable(fetchStatus: number | null): boolean {
+  return fetchStatus === null || fetchStatus === 429 || fetchStatus >= 500;
+}
+
+/**
+ * Rules for an unreachable robots.txt: complete disallow (RFC 9309 section 2.3.1.4)
+ */
+function disallowAll(origin: string, fetchStatus: number | null): RobotsRules {
+  return { origin, rules: [{ allow: false, path: '/' }], crawlDelaySecs: null, sitemaps: [], fetchStatus };
+}
+
+/**
+ * Fetch and parse robots.txt for an origin
+ *
+ * Other 4xx responses mean "no restrictions"; 5xx, 429 and network errors
+ * mean the file is unreachable, so everything is disallowed (the caller
+ * logs it via fetchStatus and may fetch again later).
+ *
+ * @param origin - Origin (e.g., "https://example.com")
+ * @returns Parsed rules
+ */
+export async function fetchRobotsTxt(origin: string): Promise<RobotsRules> {
+  const robotsUrl = `${origin}/robots.txt`;
+
+  try {
+    const response = await fetch(robotsUrl, {
+      headers: {
+        'User-Agent': USER_AGENT,
+      },
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (isRobotsTxtUnavailable(response.status)) {
+      return disallowAll(origin, response.status);
+    }
+    if (!response.ok) {
+      return { origin, rules: [], crawlDelaySecs: null, sitemaps: [], fetchStatus: response.status };
+    }
+
+    const content = await response.text();
+    return parseRobotsTxt(content, origin);
+  } catch {
+    return disallowAll(origin, null);
+  }
+}
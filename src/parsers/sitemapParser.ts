@@ -1,10 +1,21 @@
 /**
  * Sitemap XML parser
- * Extracts URLs from sitemap.xml files
+ * Extracts URLs from sitemap.xml files (plain or gzipped, remote or local),
+ * streaming the XML and expanding sitemap indexes at any depth
  */
 
-import Sitemapper from 'sitemapper';
+import { createReadStream } from 'fs';
+import { dirname, resolve } from 'path';
+import { Readable, pipeline } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { fileURLToPath } from 'url';
+import { createGunzip } from 'zlib';
+import { Parser } from 'htmlparser2';
 import { normalizeUrl, isValidUrl } from '../core/urlNormalizer';
+import { fetchRobotsTxt } from './robotsParser';
+import { createHreflangLink } from './hreflangParser';
+import type { HreflangLink } from '../types/database.types';
+import { SITEMAP_MAX_BYTES, SITEMAP_MAX_URLS, SITEMAP_TIMEOUT_SECS, USER_AGENT } from '../config/constants';
 
 /**
  * Extract page type hint from sitemap filename
@@ -52,6 +63,38 @@ export function extractSitemapTypeHint(sitemapUrl: string): string | null {
   return null;
 }
 
+/**
+ * <image:image> entry (Google image sitemap extension)
+ */
+export interface SitemapImage {
+  loc: string;
+  title?: string;
+  caption?: string;
+}
+
+/**
+ * <video:video> entry (Google video sitemap extension)
+ */
+export interface SitemapVideo {
+  thumbnailLoc?: string;
+  title?: string;
+  description?: string;
+  contentLoc?: string;
+  playerLoc?: string;
+  duration?: number;        // Seconds
+  publicationDate?: string;
+}
+
+/**
+ * <news:news> entry (Google News sitemap extension)
+ */
+export interface SitemapNews {
+  publicationName?: string;
+  publicationLanguage?: string;
+  title?: string;
+  publicationDate?: string;
+}
+
 /**
  * Sitemap URL entry
  */
@@ -63,189 +106,457 @@ export interface SitemapUrl {
   priority?: number;
   sitemapSource?: string;  // Which sitemap this URL came from
   typeHint?: string | null; // Page type hint from sitemap filename (post/page/etc)
+  hreflang?: HreflangLink[]; // <xhtml:link rel="alternate" hreflang> entries
+  images?: SitemapImage[];
+  videos?: SitemapVideo[];
+  news?: SitemapNews;
 }
 
 /**
- * Parse a sitemap XML and extract all URLs
- *
- * @param sitemapUrl - URL to sitemap.xml
- * @returns Array of URL entries with type hints
+ * One sitemap file: a urlset, or an index of child sitemaps
  */
-export async function parseSitemap(sitemapUrl: string): Promise<SitemapUrl[]> {
-  console.log(`📋 Parsing sitemap: ${sitemapUrl}`);
+interface SitemapDocument {
+  isIndex: boolean;
+  urls: SitemapUrl[];
+  sitemaps: string[]; // Child sitemap <loc>s (index only)
+}
 
-  // Extract type hint from sitemap filename
-  const typeHint = extractSitemapTypeHint(sitemapUrl);
-  if (typeHint) {
-    console.log(`   Type hint: "${typeHint}" (from sitemap filename)`);
-  }
+/**
+ * Namespaces of the sitemap extensions, by the prefix their elements are read under
+ * Undeclared prefixes are read as they are (image:, video:, news:, xhtml:)
+ */
+const EXTENSION_NAMESPACES: Record<string, string> = {
+  'http://www.google.com/schemas/sitemap-image/1.1': 'image',
+  'http://www.google.com/schemas/sitemap-video/1.1': 'video',
+  'http://www.google.com/schemas/sitemap-news/0.9': 'news',
+  'http://www.w3.org/1999/xhtml': 'xhtml',
+};
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9';
 
-  try {
-    const sitemapper = new Sitemapper({
-      url: sitemapUrl,
-      timeout: 30000, // 30 second timeout
-      requestHeaders: {
-        'User-Agent':
-          'Mozilla/5.0 (compatible; ACrawler/1.0; +https://github.com/your-repo)',
-      },
-    });
+const CHANGEFREQ_VALUES = new Set(['always', 'hourly', 'daily', 'weekly', 'monthly', 'yearly', 'never']);
 
-    const { sites, errors } = await sitemapper.fetch();
+/**
+ * Name an element by extension and local name ("loc", "image:loc", "xhtml:link"),
+ * whatever prefix the sitemap binds the namespace to
+ */
+function elementKey(name: string, prefixes: Map<string, string>): string {
+  const separator = name.indexOf(':');
+  if (separator === -1) return name.toLowerCase();
+
+  const prefix = name.slice(0, separator);
+  const local = name.slice(separator + 1).toLowerCase();
+  const namespace = prefixes.get(prefix);
+  if (namespace === SITEMAP_NAMESPACE) return local;
+  return `${EXTENSION_NAMESPACES[namespace || ''] || prefix.toLowerCase()}:${local}`;
+}
 
-    if (errors && errors.length > 0) {
-      console.warn(`⚠️  Sitemap parsing warnings:`, errors);
-    }
+/**
+ * Check whether a sitemap source is fetched over HTTP (otherwise it is a local
+ * path or file: URL, e.g. for offline imports)
+ */
+function isRemoteSource(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
 
-    // Filter and normalize URLs
-    const urls: SitemapUrl[] = [];
-    for (const url of sites) {
-      if (!isValidUrl(url)) {
-        console.warn(`⚠️  Skipping invalid URL from sitemap: ${url}`);
-        continue;
-      }
-
-      try {
-        const normalizedUrl = normalizeUrl(url);
-        urls.push({
-          url,
-          normalizedUrl,
-          sitemapSource: sitemapUrl,
-          typeHint,
-        });
-      } catch (error) {
-        console.warn(`⚠️  Failed to normalize URL: ${url}`, (error as Error).message);
-      }
-    }
+/**
+ * Resolve a child sitemap <loc> against the location of its index
+ * (local indexes may list relative paths)
+ */
+function resolveChildSitemap(loc: string, indexSource: string): string {
+  if (/^(https?|file):/i.test(loc)) return loc;
+  if (isRemoteSource(indexSource)) return new URL(loc, indexSource).toString();
 
-    console.log(`✅ Found ${urls.length} URLs in sitemap`);
-    return urls;
-  } catch (error) {
-    throw new Error(
-      `Failed to parse sitemap "${sitemapUrl}": ${(error as Error).message}`
-    );
+  const indexPath = indexSource.startsWith('file:') ? fileURLToPath(indexSource) : indexSource;
+  return resolve(dirname(indexPath), loc);
+}
+
+/**
+ * Open a sitemap as a byte stream
+ *
+ * @param source - Sitemap URL, local path or file: URL
+ * @returns Response body or file stream (still compressed for .xml.gz)
+ */
+async function openSitemap(source: string): Promise<Readable> {
+  if (!isRemoteSource(source)) {
+    return createReadStream(source.startsWith('file:') ? fileURLToPath(source) : source);
+  }
+
+  const response = await fetch(source, {
+    headers: { 'User-Agent': USER_AGENT },
+    signal: AbortSignal.timeout(SITEMAP_TIMEOUT_SECS * 1000),
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`HTTP ${response.status}`);
   }
+  return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
 }
 
 /**
- * Check if URL is a sitemap index (contains <sitemapindex> tag)
+ * Read a sitemap's XML bytes, gunzipped when the data starts with the gzip
+ * magic bytes (servers often send .xml.gz without Content-Encoding)
  *
- * @param sitemapUrl - URL to check
- * @returns True if it's a sitemap index
+ * @param stream - Sitemap byte stream (destroyed once reading stops)
  */
-async function isSitemapIndex(sitemapUrl: string): Promise<boolean> {
+async function* readXmlChunks(stream: Readable): AsyncGenerator<Uint8Array> {
   try {
-    const response = await fetch(sitemapUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; ACrawler/1.0)',
-      },
+    const chunks = stream[Symbol.asyncIterator]() as AsyncIterator<Uint8Array>;
+    const first = await chunks.next();
+    if (first.done) return;
+
+    const all = async function* () {
+      yield first.value;
+      for (let next = await chunks.next(); !next.done; next = await chunks.next()) yield next.value;
+    };
+
+    if (first.value[0] !== 0x1f || first.value[1] !== 0x8b) {
+      yield* all();
+      return;
+    }
+
+    const gunzip = createGunzip();
+    pipeline(Readable.from(all()), gunzip, () => {
+      // Errors surface through the gunzip stream being read below
     });
-    const xmlText = await response.text();
-    return xmlText.includes('<sitemapindex');
-  } catch {
-    return false;
+    yield* gunzip;
+  } finally {
+    stream.destroy();
   }
 }
 
 /**
- * Parse sitemap index and extract child sitemap URLs
- * Must manually parse XML because Sitemapper auto-expands indexes
+ * Stream-parse one sitemap file
+ * Stops at the sitemap limits (SITEMAP_MAX_URLS entries, SITEMAP_MAX_BYTES of
+ * XML) with a warning, as search engines ignore the rest.
  *
- * @param sitemapIndexUrl - URL to sitemap_index.xml
- * @returns Array of child sitemap URLs
+ * @param source - Sitemap URL, local path or file: URL
+ * @param typeHint - Page type hint of the sitemap's URLs
+ * @returns URL entries (urlset) or child sitemaps (index)
  */
-async function parseSitemapIndex(sitemapIndexUrl: string): Promise<string[]> {
-  console.log(`📋 Parsing sitemap index: ${sitemapIndexUrl}`);
+async function readSitemap(source: string, typeHint: string | null): Promise<SitemapDocument> {
+  const document: SitemapDocument = { isIndex: false, urls: [], sitemaps: [] };
+  const prefixes = new Map<string, string>();
+
+  let text = '';
+  let entries = 0;
+  let stopped = false;
+  let entry: (Partial<SitemapUrl> & { loc: string; hreflang: HreflangLink[]; images: SitemapImage[]; videos: SitemapVideo[] }) | null = null;
+  let image: SitemapImage | null = null;
+  let video: SitemapVideo | null = null;
+  let news: SitemapNews | null = null;
+  let childLoc: string | null = null;
+
+  // False (and parsing stops) once an entry is past the limit
+  const countEntry = (): boolean => {
+    entries++;
+    if (entries <= SITEMAP_MAX_URLS) return true;
+    console.warn(`⚠️  ${source} lists more than ${SITEMAP_MAX_URLS} entries - the rest is ignored (sitemap limit)`);
+    stopped = true;
+    return false;
+  };
+
+  const finishEntry = () => {
+    if (!entry) return;
+    const { loc } = entry;
+    if (!isValidUrl(loc)) {
+      console.warn(`⚠️  Skipping invalid URL from sitemap: ${loc}`);
+      return;
+    }
 
-  try {
-    const response = await fetch(sitemapIndexUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; ACrawler/1.0)',
+    try {
+      const priority = entry.priority;
+      const changefreq = entry.changefreq?.toLowerCase();
+      document.urls.push({
+        url: loc,
+        normalizedUrl: normalizeUrl(loc),
+        lastmod: entry.lastmod || undefined,
+        changefreq: changefreq && CHANGEFREQ_VALUES.has(changefreq) ? changefreq : undefined,
+        priority: priority !== undefined && priority >= 0 && priority <= 1 ? priority : undefined,
+        sitemapSource: source,
+        typeHint,
+        hreflang: entry.hreflang.length > 0 ? entry.hreflang : undefined,
+        images: entry.images.length > 0 ? entry.images : undefined,
+        videos: entry.videos.length > 0 ? entry.videos : undefined,
+        news: entry.news,
+      });
+    } catch (error) {
+      console.warn(`⚠️  Failed to normalize URL: ${loc}`, (error as Error).message);
+    }
+  };
+
+  const parser = new Parser(
+    {
+      onopentag(name, attributes) {
+        if (stopped) return;
+        for (const [attribute, value] of Object.entries(attributes)) {
+          if (attribute.startsWith('xmlns:')) prefixes.set(attribute.slice(6), value.trim());
+        }
+
+        text = '';
+        switch (elementKey(name, prefixes)) {
+          case 'sitemapindex':
+            document.isIndex = true;
+            break;
+          case 'url':
+            entry = { loc: '', hreflang: [], images: [], videos: [] };
+            break;
+          case 'sitemap':
+            childLoc = '';
+            break;
+          case 'image:image':
+            image = { loc: '' };
+            break;
+          case 'video:video':
+            video = {};
+            break;
+          case 'news:news':
+            news = {};
+            break;
+          case 'xhtml:link': {
+            if (!entry || (attributes.rel || '').toLowerCase() !== 'alternate') break;
+            // Resolved against the page: sitemaps read from disk have no URL
+            const link = createHreflangLink(attributes.hreflang, attributes.href, entry.loc || undefined, 'sitemap');
+            if (link) entry.hreflang.push(link);
+            break;
+          }
+        }
       },
-    });
+      ontext(data) {
+        text += data;
+      },
+      onclosetag(name) {
+        if (stopped) return;
+        const key = elementKey(name, prefixes);
+        const value = text.trim();
+        text = '';
+
+        if (image) {
+          if (key === 'image:loc') image.loc = value;
+          else if (key === 'image:title') image.title = value;
+          else if (key === 'image:caption') image.caption = value;
+          else if (key === 'image:image') {
+            if (image.loc) entry?.images.push(image);
+            image = null;
+          }
+        } else if (video) {
+          if (key === 'video:thumbnail_loc') video.thumbnailLoc = value;
+          else if (key === 'video:title') video.title = value;
+          else if (key === 'video:description') video.description = value;
+          else if (key === 'video:content_loc') video.contentLoc = value;
+          else if (key === 'video:player_loc') video.playerLoc = value;
+          else if (key === 'video:duration') video.duration = parseInt(value, 10) || undefined;
+          else if (key === 'video:publication_date') video.publicationDate = value;
+          else if (key === 'video:video') {
+            entry?.videos.push(video);
+            video = null;
+          }
+        } else if (news) {
+          if (key === 'news:name') news.publicationName = value;
+          else if (key === 'news:language') news.publicationLanguage = value;
+          else if (key === 'news:title') news.title = value;
+          else if (key === 'news:publication_date') news.publicationDate = value;
+          else if (key === 'news:news') {
+            if (entry) entry.news = news;
+            news = null;
+          }
+        } else if (entry) {
+          if (key === 'loc') entry.loc = value;
+          else if (key === 'lastmod') entry.lastmod = value;
+          else if (key === 'changefreq') entry.changefreq = value;
+          else if (key === 'priority') entry.priority = value ? Number(value) : undefined;
+          else if (key === 'url') {
+            if (countEntry()) finishEntry();
+            entry = null;
+          }
+        } else if (childLoc !== null) {
+          if (key === 'loc') childLoc = value;
+          else if (key === 'sitemap') {
+            if (countEntry() && childLoc) document.sitemaps.push(resolveChildSitemap(childLoc, source));
+            childLoc = null;
+          }
+        }
+      },
+    },
+    { xmlMode: true, decodeEntities: true, recognizeCDATA: true }
+  );
+
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  for await (const chunk of readXmlChunks(await openSitemap(source))) {
+    const remaining = SITEMAP_MAX_BYTES - bytes;
+    bytes += chunk.length;
+    parser.write(decoder.decode(chunk.subarray(0, remaining), { stream: true }));
+
+    if (bytes > SITEMAP_MAX_BYTES) {
+      console.warn(`⚠️  ${source} is larger than ${SITEMAP_MAX_BYTES / 1024 / 1024} MB uncompressed - the rest is ignored (sitemap limit)`);
+      stopped = true;
+    }
+    if (stopped) break;
+  }
 
-    const xmlText = await response.text();
+  // Ending the parser closes open elements: a <url> cut off by a limit is dropped
+  stopped = true;
+  parser.end();
 
-    // Extract <loc> URLs from <sitemap> entries (not <url> entries!)
-    // Pattern: <sitemap><loc>URL</loc></sitemap>
-    const sitemapMatches = xmlText.matchAll(/<sitemap>[\s\S]*?<loc>(.*?)<\/loc>[\s\S]*?<\/sitemap>/g);
+  return document;
+}
 
-    const childSitemaps: string[] = [];
-    for (const match of sitemapMatches) {
-      const url = match[1].trim();
-      if (url) {
-        childSitemaps.push(url);
-      }
-    }
+/**
+ * Parse a sitemap and extract all URLs
+ * Sitemap indexes are expanded recursively (each sitemap is read once)
+ *
+ * @param sitemapUrl - Sitemap URL, local path or file: URL (.xml or .xml.gz)
+ * @param visited - Sitemaps already read in this parse (guards against index loops)
+ * @returns Array of URL entries with type hints
+ */
+export async function parseSitemap(
+  sitemapUrl: string,
+  visited: Set<string> = new Set()
+): Promise<SitemapUrl[]> {
+  if (visited.has(sitemapUrl)) {
+    console.warn(`⚠️  Sitemap already read, skipping: ${sitemapUrl}`);
+    return [];
+  }
+  visited.add(sitemapUrl);
 
-    console.log(`✅ Found ${childSitemaps.length} child sitemaps`);
-    childSitemaps.forEach(url => {
-      const hint = extractSitemapTypeHint(url);
-      console.log(`   - ${url} ${hint ? `[${hint}]` : ''}`);
-    });
+  console.log(`📋 Parsing sitemap: ${sitemapUrl}`);
 
-    return childSitemaps;
+  // Extract type hint from sitemap filename
+  const typeHint = extractSitemapTypeHint(sitemapUrl);
+  if (typeHint) {
+    console.log(`   Type hint: "${typeHint}" (from sitemap filename)`);
+  }
+
+  let document: SitemapDocument;
+  try {
+    document = await readSitemap(sitemapUrl, typeHint);
   } catch (error) {
     throw new Error(
-      `Failed to parse sitemap index "${sitemapIndexUrl}": ${(error as Error).message}`
+      `Failed to parse sitemap "${sitemapUrl}": ${(error as Error).message}`
     );
   }
+
+  if (!document.isIndex) {
+    console.log(`✅ Found ${document.urls.length} URLs in sitemap`);
+    return document.urls;
+  }
+
+  console.log(`   📂 Sitemap index with ${document.sitemaps.length} child sitemaps`);
+  document.sitemaps.forEach(url => {
+    const hint = extractSitemapTypeHint(url);
+    console.log(`   - ${url} ${hint ? `[${hint}]` : ''}`);
+  });
+
+  let urls: SitemapUrl[] = [];
+  for (const childSitemap of document.sitemaps) {
+    try {
+      urls = urls.concat(await parseSitemap(childSitemap, visited));
+    } catch (error) {
+      console.error(`❌ Failed to parse sitemap ${childSitemap}:`, (error as Error).message);
+      // Continue with the other child sitemaps even if one fails
+    }
+  }
+  return urls;
 }
 
 /**
- * Parse multiple sitemaps and combine results
- * Handles sitemap index files by parsing child sitemaps individually
+ * Parse multiple sitemaps into every URL entry they list
+ * Sitemap index files are expanded into their child sitemaps
  *
- * @param sitemapUrls - Array of sitemap URLs (can include sitemap_index.xml)
- * @returns Combined array of unique URL entries with type hints
+ * @param sitemapUrls - Sitemap URLs or local paths (can include sitemap_index.xml)
+ * @returns URL entries in sitemap order, duplicates included (see the sitemap audit)
  */
-export async function parseMultipleSitemaps(
+export async function parseSitemapEntries(
   sitemapUrls: string[]
 ): Promise<SitemapUrl[]> {
   console.log(`📋 Parsing ${sitemapUrls.length} sitemap(s)...`);
 
-  const allUrls: SitemapUrl[] = [];
-  const seenUrls = new Set<string>();
-  const sitemapsToParse: string[] = [];
+  const entries: SitemapUrl[] = [];
+  const visited = new Set<string>();
 
-  // Expand sitemap index files into child sitemaps
   for (const sitemapUrl of sitemapUrls) {
-    const isIndex = await isSitemapIndex(sitemapUrl);
-
-    if (isIndex) {
-      console.log(`   📂 Detected sitemap index, expanding...`);
-      try {
-        const childSitemaps = await parseSitemapIndex(sitemapUrl);
-        sitemapsToParse.push(...childSitemaps);
-      } catch (error) {
-        console.error(`❌ Failed to expand sitemap index ${sitemapUrl}:`, (error as Error).message);
-      }
-    } else {
-      sitemapsToParse.push(sitemapUrl);
+    try {
+      entries.push(...(await parseSitemap(sitemapUrl, visited)));
+    } catch (error) {
+      console.error(`❌ Failed to parse sitemap ${sitemapUrl}:`, (error as Error).message);
+      // Continue with other sitemaps even if one fails
     }
   }
 
-  console.log(`📋 Total sitemaps to parse: ${sitemapsToParse.length}`);
+  return entries;
+}
 
-  // Parse each sitemap (now with type hints preserved)
-  for (const sitemapUrl of sitemapsToParse) {
+/**
+ * Keep the first entry of every normalized URL
+ *
+ * @param entries - URL entries (see parseSitemapEntries)
+ * @returns Unique URL entries, in order
+ */
+export function dedupeSitemapUrls(entries: SitemapUrl[]): SitemapUrl[] {
+  const seenUrls = new Set<string>();
+  const unique = entries.filter(entry => {
+    if (seenUrls.has(entry.normalizedUrl)) return false;
+    seenUrls.add(entry.normalizedUrl);
+    return true;
+  });
+
+  console.log(`✅ Total unique URLs across all sitemaps: ${unique.length}`);
+  return unique;
+}
+
+/**
+ * Parse multiple sitemaps and combine results
+ *
+ * @param sitemapUrls - Array of sitemap URLs (can include sitemap_index.xml)
+ * @returns Combined array of unique URL entries with type hints
+ */
+export async function parseMultipleSitemaps(
+  sitemapUrls: string[]
+): Promise<SitemapUrl[]> {
+  return dedupeSitemapUrls(await parseSitemapEntries(sitemapUrls));
+}
+
+/**
+ * Parse a <lastmod> value (W3C datetime: "2024-05-01", "2024-05-01T10:00:00+02:00")
+ *
+ * @param lastmod - lastmod as listed
+ * @returns Date, or null when missing or not a date
+ */
+export function parseLastmod(lastmod: string | undefined): Date | null {
+  if (!lastmod || !/^\d{4}-\d{2}(-\d{2})?/.test(lastmod.trim())) return null;
+  const date = new Date(lastmod.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Find sitemaps for sites from their robots.txt Sitemap: directives
+ * Falls back to /sitemap.xml when robots.txt lists none
+ *
+ * @param siteUrls - Site URLs (any page on the site; only the origin is used)
+ * @returns Unique sitemap URLs
+ */
+export async function discoverSitemaps(siteUrls: string[]): Promise<string[]> {
+  const sitemaps = new Set<string>();
+
+  for (const siteUrl of siteUrls) {
+    let origin: string;
     try {
-      const urls = await parseSitemap(sitemapUrl);
+      origin = new URL(siteUrl).origin;
+    } catch {
+      console.error(`❌ Invalid site URL: ${siteUrl}`);
+      continue;
+    }
 
-      // Deduplicate across sitemaps
-      for (const urlEntry of urls) {
-        if (!seenUrls.has(urlEntry.normalizedUrl)) {
-          seenUrls.add(urlEntry.normalizedUrl);
-          allUrls.push(urlEntry);
-        }
-      }
-    } catch (error) {
-      console.error(`❌ Failed to parse sitemap ${sitemapUrl}:`, (error as Error).message);
-      // Continue with other sitemaps even if one fails
+    const robots = await fetchRobotsTxt(origin);
+    if (robots.sitemaps.length > 0) {
+      console.log(`🤖 ${origin}/robots.txt lists ${robots.sitemaps.length} sitemap(s)`);
+      robots.sitemaps.forEach(sitemap => sitemaps.add(sitemap));
+    } else {
+      console.log(`🤖 No sitemaps in ${origin}/robots.txt - trying ${origin}/sitemap.xml`);
+      sitemaps.add(`${origin}/sitemap.xml`);
     }
   }
 
-  console.log(`✅ Total unique URLs across all sitemaps: ${allUrls.length}`);
-  return allUrls;
+  return Array.from(sitemaps);
 }
 
 /**
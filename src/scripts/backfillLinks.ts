@@ -0,0 +1,130 @@
+#!/usr/bin/env ts-node
+/**
+ * Backfill crawler_links for existing pages
+ *
+ * Builds link edges from the stored nav_structure of pages crawled before
+ * crawler_links existed, then resolves every link target.
+ *
+ * Usage:
+ *   npx ts-node src/scripts/backfillLinks.ts [--domain HOST] [--all] [--limit N] [--batch-size N]
+ *
+ *   --all   Rebuild pages that already have links (default: only pages without any)
+ */
+
+import { pool } from '../config/database';
+import { buildLinkEdges } from '../core/linkGraph';
+import { replacePageLinks, resolveLinkTargets } from '../db/queries';
+import { RowDataPacket } from 'mysql2';
+
+interface PageRow extends RowDataPacket {
+  id: number;
+  final_url: string;
+  nav_structure: string;
+}
+
+interface BackfillOptions {
+  domain?: string;
+  all: boolean;
+  limit: number;
+  batchSize: number;
+}
+
+async function backfillLinks(options: BackfillOptions) {
+  const { domain, all, limit, batchSize } = options;
+
+  console.log('Starting crawler_links backfill...');
+  console.log(`Options: domain=${domain || 'all'}, all=${all}, limit=${limit || 'unlimited'}, batchSize=${batchSize}`);
+
+  let where = 'nav_structure IS NOT NULL AND status_code < 400';
+  const params: any[] = [];
+  if (domain) {
+    where += ' AND (final_url LIKE ? OR final_url LIKE ?)';
+    params.push(`http://${domain}/%`, `https://${domain}/%`);
+  }
+  if (!all) {
+    where += ' AND NOT EXISTS (SELECT 1 FROM crawler_links l WHERE l.source_url = crawler_pages.final_url)';
+  }
+
+  let totalProcessed = 0;
+  let totalLinks = 0;
+  let lastId = 0;
+  const startTime = Date.now();
+
+  while (true) {
+    const batch = limit > 0 ? Math.min(batchSize, limit - totalProcessed) : batchSize;
+    if (batch <= 0) {
+      console.log(`Reached limit of ${limit} pages`);
+      break;
+    }
+
+    // Walk by id so pages that produce no links are not fetched again
+    const [pages] = await pool.execute<PageRow[]>(
+      `SELECT id, final_url, nav_structure FROM crawler_pages
+       WHERE id > ? AND ${where}
+       ORDER BY id LIMIT ${batch}`,
+      [lastId, ...params]
+    );
+
+    if (pages.length === 0) break;
+
+    for (const page of pages) {
+      try {
+        const links = buildLinkEdges(page.final_url, JSON.parse(page.nav_structure));
+        await replacePageLinks(page.final_url, links);
+        totalLinks += links.length;
+      } catch (error) {
+        console.error(`Error processing page ${page.id} (${page.final_url}):`, error);
+      }
+      totalProcessed++;
+    }
+
+    lastId = pages[pages.length - 1].id;
+    const elapsed = (Date.now() - startTime) / 1000;
+    console.log(`Progress: ${totalProcessed} pages, ${totalLinks} links [${(totalProcessed / elapsed).toFixed(1)} pages/sec]`);
+  }
+
+  console.log('Resolving link targets...');
+  const resolved = await resolveLinkTargets(domain ? [domain] : []);
+
+  const elapsed = (Date.now() - startTime) / 1000;
+  console.log(`\nBackfill complete!`);
+  console.log(`Total pages processed: ${totalProcessed}`);
+  console.log(`Total links stored: ${totalLinks}`);
+  console.log(`Links resolved: ${resolved}`);
+  console.log(`Time elapsed: ${elapsed.toFixed(1)}s`);
+}
+
+// Parse CLI arguments
+function parseArgs(): BackfillOptions {
+  const args = process.argv.slice(2);
+  const options: BackfillOptions = { all: false, limit: 0, batchSize: 100 };
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--domain' && args[i + 1]) {
+      options.domain = args[i + 1];
+      i++;
+    } else if (args[i] === '--all') {
+      options.all = true;
+    } else if (args[i] === '--limit' && args[i + 1]) {
+      options.limit = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === '--batch-size' && args[i + 1]) {
+      options.batchSize = parseInt(args[i + 1], 10);
+      i++;
+    }
+  }
+
+  return options;
+}
+
+// Run
+const options = parseArgs();
+backfillLinks(options)
+  .then(() => {
+    console.log('Done');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Backfill failed:', error);
+    process.exit(1);
+  });
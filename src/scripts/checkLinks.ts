@@ -0,0 +1,78 @@
+#!/usr/bin/env ts-node
+/**
+ * Check stored link targets without recrawling
+ *
+ * Runs the link check phase of `crawl --check-links` against crawler_links
+ * as stored, then resolves every link target again.
+ *
+ * Usage:
+ *   npx ts-node src/scripts/checkLinks.ts [--domain HOST] [--external] [--ignore-robots]
+ *
+ *   --domain   Only links on pages of this host (repeatable; default: every stored link)
+ */
+
+import { closePool } from '../config/database';
+import { runLinkCheck } from '../core/linkChecker';
+import { resolveLinkTargets } from '../db/queries';
+
+interface CheckOptions {
+  domains: string[];
+  external: boolean;
+  ignoreRobots: boolean;
+}
+
+async function checkLinks(options: CheckOptions) {
+  const { domains, external, ignoreRobots } = options;
+
+  console.log('Starting link check...');
+  console.log(`Options: domains=${domains.join(', ') || 'all'}, external=${external}, ignoreRobots=${ignoreRobots}`);
+
+  const startTime = Date.now();
+  const summary = await runLinkCheck(domains, { external, ignoreRobots });
+
+  console.log('Resolving link targets...');
+  const resolved = await resolveLinkTargets(domains);
+
+  const elapsed = (Date.now() - startTime) / 1000;
+  console.log(`\nLink check complete!`);
+  console.log(`Targets to check: ${summary.targets}`);
+  console.log(`Checked: ${summary.checked}`);
+  console.log(`Broken (4xx/5xx): ${summary.broken}`);
+  console.log(`Redirected: ${summary.redirected}`);
+  console.log(`No response: ${summary.failed}`);
+  console.log(`Blocked by robots.txt: ${summary.blockedByRobots}`);
+  console.log(`Links resolved: ${resolved}`);
+  console.log(`Time elapsed: ${elapsed.toFixed(1)}s`);
+}
+
+// Parse CLI arguments
+function parseArgs(): CheckOptions {
+  const args = process.argv.slice(2);
+  const options: CheckOptions = { domains: [], external: false, ignoreRobots: false };
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--domain' && args[i + 1]) {
+      options.domains.push(args[i + 1]);
+      i++;
+    } else if (args[i] === '--external') {
+      options.external = true;
+    } else if (args[i] === '--ignore-robots') {
+      options.ignoreRobots = true;
+    }
+  }
+
+  return options;
+}
+
+// Run
+const options = parseArgs();
+checkLinks(options)
+  .then(async () => {
+    await closePool();
+    console.log('Done');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Link check failed:', error);
+    process.exit(1);
+  });
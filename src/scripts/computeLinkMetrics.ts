@@ -0,0 +1,70 @@
+#!/usr/bin/env ts-node
+/**
+ * Recompute link metrics without recrawling
+ *
+ * Recomputes internal PageRank, click depth, inlink counts and orphan status
+ * from the stored crawler_links (e.g. after backfillLinks.ts or checkLinks.ts)
+ * and stores them under the given run.
+ *
+ * Usage:
+ *   npx ts-node src/scripts/computeLinkMetrics.ts --run-id RUN_ID --domain HOST [--domain HOST2]
+ */
+
+import { closePool } from '../config/database';
+import { computeLinkMetrics } from '../core/linkMetrics';
+
+interface MetricsOptions {
+  runId?: string;
+  domains: string[];
+}
+
+async function recomputeLinkMetrics(runId: string, domains: string[]) {
+  console.log('Computing link metrics...');
+  console.log(`Options: runId=${runId}, domains=${domains.join(', ')}`);
+
+  const startTime = Date.now();
+  const summary = await computeLinkMetrics(domains, runId);
+
+  const elapsed = (Date.now() - startTime) / 1000;
+  console.log(`\nLink metrics complete!`);
+  console.log(`Pages: ${summary.pages}`);
+  console.log(`Orphans: ${summary.orphans}`);
+  console.log(`Unreachable from the homepage: ${summary.unreachable}`);
+  console.log(`Time elapsed: ${elapsed.toFixed(1)}s`);
+}
+
+// Parse CLI arguments
+function parseArgs(): MetricsOptions {
+  const args = process.argv.slice(2);
+  const options: MetricsOptions = { domains: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--run-id' && args[i + 1]) {
+      options.runId = args[i + 1];
+      i++;
+    } else if (args[i] === '--domain' && args[i + 1]) {
+      options.domains.push(args[i + 1]);
+      i++;
+    }
+  }
+
+  return options;
+}
+
+// Run
+const options = parseArgs();
+if (!options.runId || options.domains.length === 0) {
+  console.error('Usage: npx ts-node src/scripts/computeLinkMetrics.ts --run-id RUN_ID --domain HOST [--domain HOST2]');
+  process.exit(1);
+}
+
+recomputeLinkMetrics(options.runId, options.domains)
+  .then(async () => {
+    await closePool();
+    console.log('Done');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Link metrics failed:', error);
+    process.exit(1);
+  });
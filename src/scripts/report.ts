@@ -0,0 +1,868 @@
+#!/usr/bin/env node
+/**
+ * Crawl Report Tool
+ * Page history, change, canonical, language, hreflang, structured data, social tags, heading, image, link, link issue, link equity, sitemap, indexability and performance reports built from stored crawl data
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import { closePool } from '../config/database';
+import {
+  getPageVersions,
+  getPageVersionAtRun,
+  getCanonicalIssues,
+  getCanonicalStatusCounts,
+  getIndexabilityCounts,
+  getLanguageCounts,
+  getLanguageMismatches,
+  getTranslationGroups,
+  getSchemaTypeCounts,
+  getStructuredDataIssues,
+  getSocialTagCoverage,
+  getHeadingIssueCounts,
+  getHeadingIssuePages,
+  getImageAuditCounts,
+  getImagesWithIssue,
+  getDuplicateImageAlts,
+  getSharedImages,
+  getInlinks,
+  getOutlinks,
+  getLinkIssueCounts,
+  getLinkIssues,
+  getLinkMetrics,
+  getClickDepthCounts,
+  getSitemapIssueCounts,
+  getSitemapIssues,
+  getPagesMissingSocialTag,
+  getNonIndexablePages,
+  getSlowPages,
+  getUncacheablePages,
+} from '../db/queries';
+import {
+  HeadingIssueType,
+  ImageIssue,
+  ImageRegion,
+  IndexabilityReason,
+  LinkIssue,
+  LinkIssueType,
+  SitemapIssueType,
+  PagePerformance,
+  SocialTag,
+} from '../types/database.types';
+import { normalizeUrl } from '../core/urlNormalizer';
+import { unifiedDiff } from '../utils/diff';
+import { compareRuns, comparisonToCsv } from '../core/runComparison';
+
+const program = new Command();
+
+program
+  .name('report')
+  .description('Page history, change, canonical and performance reports')
+  .version('1.0.0');
+
+// List the versions of a page
+program
+  .command('versions <url>')
+  .description('List recorded versions of a page (newest first)')
+  .option('-l, --limit <number>', 'Limit results', '20')
+  .action(async (url: string, options) => {
+    try {
+      const finalUrl = normalizeUrl(url);
+      const versions = await getPageVersions(finalUrl, parseInt(options.limit, 10));
+
+      if (versions.length === 0) {
+        console.error(`No versions recorded for ${finalUrl}`);
+        process.exit(1);
+      }
+
+      console.log(`\n🕓 Versions of ${finalUrl} (${versions.length}):\n`);
+      for (const version of versions) {
+        console.log(`  #${version.id}  ${new Date(version.created_at).toISOString()}  run ${version.run_id || 'N/A'}`);
+        console.log(`    Status: ${version.crawl_status} (${version.status_code || '-'}), Words: ${version.word_count}`);
+        console.log(`    Changed: ${version.changed_fields.join(', ')}`);
+        console.log(`    Title: ${version.title || 'N/A'}`);
+        console.log(`    H1: ${version.h1 || 'N/A'}`);
+        console.log(`    Meta: ${version.meta_description || 'N/A'}`);
+        console.log('');
+      }
+    } finally {
+      await closePool();
+    }
+  });
+
+// Diff a page between two runs
+program
+  .command('diff <url> <fromRunId> <toRunId>')
+  .description('Unified diff of a page\'s markdown between two runs')
+  .option('-c, --context <lines>', 'Context lines around changes', '3')
+  .action(async (url: string, fromRunId: string, toRunId: string, options) => {
+    try {
+      const finalUrl = normalizeUrl(url);
+      const from = await getPageVersionAtRun(finalUrl, fromRunId);
+      const to = await getPageVersionAtRun(finalUrl, toRunId);
+
+      if (!from || !to) {
+        console.error(`No version of ${finalUrl} recorded for run ${!from ? fromRunId : toRunId}`);
+        process.exit(1);
+      }
+
+      // Tracked SEO fields first, then the content diff
+      for (const field of ['title', 'h1', 'meta_description'] as const) {
+        if ((from[field] || '') !== (to[field] || '')) {
+          console.log(`${field}:`);
+          console.log(`  - ${from[field] || ''}`);
+          console.log(`  + ${to[field] || ''}`);
+        }
+      }
+
+      if (from.id === to.id) {
+        console.log(`No changes between runs (both at version #${from.id})`);
+        return;
+      }
+
+      const diff = unifiedDiff(from.markdown || '', to.markdown || '', {
+        oldLabel: `${finalUrl} (run ${fromRunId}, version #${from.id})`,
+        newLabel: `${finalUrl} (run ${toRunId}, version #${to.id})`,
+        context: parseInt(options.context, 10),
+      });
+      process.stdout.write(diff || 'Markdown unchanged\n');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Compare two crawl runs
+program
+  .command('compare <fromRunId> <toRunId>')
+  .description('Compare what two crawl runs saw (added/removed, redirects, status, SEO fields, nav)')
+  .option('--domain <host>', 'Only compare pages on this host')
+  .option('--word-swing <percent>', 'Minimum word-count change to report', '30')
+  .option('-e, --export <file>', 'Also write the report to a .json or .csv file')
+  .action(async (fromRunId: string, toRunId: string, options) => {
+    try {
+      const comparison = await compareRuns(fromRunId, toRunId, {
+        host: options.domain,
+        wordSwingPct: parseFloat(options.wordSwing),
+      });
+      const { summary } = comparison;
+
+      if (summary.fromPages === 0 || summary.toPages === 0) {
+        console.error(`No pages recorded for run ${summary.fromPages === 0 ? fromRunId : toRunId}`);
+        process.exit(1);
+      }
+
+      console.log(`\n📋 Run comparison: ${fromRunId} → ${toRunId}${comparison.host ? ` (${comparison.host})` : ''}\n`);
+      console.log(`  Pages:              ${summary.fromPages} → ${summary.toPages}`);
+      console.log(`  Added:              ${summary.added}`);
+      console.log(`  Removed:            ${summary.removed}`);
+      console.log(`  New redirects:      ${summary.newRedirects}`);
+      console.log(`  Status changes:     ${summary.statusChanges}`);
+      console.log(`  Field changes:      ${summary.fieldChanges}`);
+      console.log(`  Word-count swings:  ${summary.wordCountSwings}`);
+      console.log(`  Nav changes:        ${summary.navChanges}`);
+
+      printTable('➕ Added', ['URL'], comparison.added.map(url => [url]));
+      printTable('➖ Removed', ['URL'], comparison.removed.map(url => [url]));
+      printTable(
+        '↪️  New redirects',
+        ['URL', 'Was', 'Now'],
+        comparison.newRedirects.map(r => [r.url, r.fromFinalUrl || '(page)', r.toFinalUrl])
+      );
+      printTable(
+        '🚦 Status changes',
+        ['URL', 'From', 'To'],
+        comparison.statusChanges.map(s => [
+          s.url,
+          `${s.fromStatus} (${s.fromCode ?? '-'})`,
+          `${s.toStatus} (${s.toCode ?? '-'})`,
+        ])
+      );
+      printTable(
+        '✏️  Field changes',
+        ['URL', 'Field', 'From', 'To'],
+        comparison.fieldChanges.map(f => [f.url, f.field, f.from || '', f.to || ''])
+      );
+      printTable(
+        '📏 Word-count swings',
+        ['URL', 'From', 'To', 'Change'],
+        comparison.wordCountSwings.map(w => [
+          w.url,
+          String(w.from),
+          String(w.to),
+          `${w.changePct > 0 ? '+' : ''}${w.changePct}%`,
+        ])
+      );
+      printTable(
+        '🧭 Navigation changes',
+        ['URL', 'From', 'To'],
+        comparison.navChanges.map(n => [n.url, n.fromFingerprint, n.toFingerprint])
+      );
+
+      if (options.export) {
+        const output = options.export.endsWith('.csv')
+          ? comparisonToCsv(comparison)
+          : JSON.stringify(comparison, null, 2) + '\n';
+        fs.writeFileSync(options.export, output);
+        console.log(`\n💾 Report written to ${options.export}`);
+      }
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Canonical audit
+program
+  .command('canonicals')
+  .description('Canonical audit: pages per canonical status and pages canonicalized elsewhere')
+  .option('--domain <host>', 'Only pages on this host')
+  .option('-s, --status <statuses...>', 'Only these statuses (canonicalized, to_redirect, to_not_found, cross_domain, missing)')
+  .option('-l, --limit <number>', 'Max pages listed per status', '50')
+  .action(async (options) => {
+    try {
+      const counts = await getCanonicalStatusCounts(options.domain);
+      const issues = await getCanonicalIssues(options.domain);
+      const limit = parseInt(options.limit, 10);
+
+      console.log(`\n🔗 Canonical audit${options.domain ? ` (${options.domain})` : ''}\n`);
+      for (const status of ['self', 'canonicalized', 'to_redirect', 'to_not_found', 'cross_domain', 'missing']) {
+        console.log(`  ${(status + ':').padEnd(15)} ${counts[status] || 0}`);
+      }
+
+      const statuses: string[] = options.status || ['to_redirect', 'to_not_found', 'cross_domain', 'canonicalized'];
+      for (const status of statuses) {
+        const pages = issues.filter(issue => issue.canonical_status === status);
+        printTable(
+          status,
+          ['URL', 'Canonical', 'At canonical'],
+          pages.slice(0, limit).map(issue => [
+            issue.final_url,
+            issue.canonical_url || '',
+            issue.target_redirects_to
+              ? `→ ${issue.target_redirects_to}`
+              : issue.target_crawl_status || 'not crawled',
+          ])
+        );
+        if (pages.length > limit) {
+          console.log(`  ... and ${pages.length - limit} more`);
+        }
+      }
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Declared vs detected language
+program
+  .command('languages')
+  .description('Declared vs detected page languages, and pages whose declared language is wrong')
+  .option('--domain <host>', 'Only pages on this host')
+  .option('-l, --limit <number>', 'Limit results', '50')
+  .action(async (options) => {
+    try {
+      const counts = await getLanguageCounts(options.domain);
+      if (counts.length === 0) {
+        console.log('\nNo crawled pages\n');
+        return;
+      }
+      const mismatches = await getLanguageMismatches(options.domain, parseInt(options.limit, 10));
+
+      printTable(
+        `🗣️  Languages${options.domain ? ` (${options.domain})` : ''}`,
+        ['Declared', 'Detected', 'Pages'],
+        counts.map(row => [row.declared || '(none)', row.detected || '(unknown)', String(row.pages)])
+      );
+      printTable(
+        'Declared language differs from content',
+        ['URL', 'Declared', 'Detected', 'Confidence'],
+        mismatches.map(page => [
+          page.final_url,
+          page.declared_language,
+          page.detected_language,
+          Number(page.language_confidence).toFixed(2),
+        ])
+      );
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// hreflang translation groups
+program
+  .command('hreflang')
+  .description('Translation groups built from hreflang, with missing return links and invalid codes')
+  .option('--domain <host>', 'Only groups with a page on this host')
+  .option('--groups', 'List every group with its members')
+  .option('-l, --limit <number>', 'Max issues (and groups) listed', '50')
+  .action(async (options) => {
+    try {
+      const members = await getTranslationGroups(options.domain);
+      if (members.length === 0) {
+        console.log('\nNo translation groups (pages need hreflang annotations)\n');
+        return;
+      }
+
+      const limit = parseInt(options.limit, 10);
+      const groups = new Map<string, typeof members>();
+      for (const member of members) {
+        groups.set(member.group_key, [...(groups.get(member.group_key) || []), member]);
+      }
+      const issues = members.flatMap(member => member.issues.map(issue => ({ member, issue })));
+
+      console.log(`\n🌐 Translation groups${options.domain ? ` (${options.domain})` : ''}\n`);
+      console.log(`  Groups:   ${groups.size}`);
+      console.log(`  Pages:    ${members.length}`);
+      console.log(`  Issues:   ${issues.length}`);
+      const issueCounts = new Map<string, number>();
+      issues.forEach(({ issue }) => issueCounts.set(issue.type, (issueCounts.get(issue.type) || 0) + 1));
+      for (const [type, count] of issueCounts) {
+        console.log(`    ${(type + ':').padEnd(24)} ${count}`);
+      }
+
+      if (options.groups) {
+        for (const [groupKey, groupMembers] of [...groups].slice(0, limit)) {
+          printTable(
+            `Group ${groupKey.slice(0, 8)}`,
+            ['hreflang', 'URL', 'Status', 'Issues'],
+            groupMembers.map(member => [
+              member.hreflang || '-',
+              member.final_url,
+              member.crawl_status || 'not crawled',
+              String(member.issues.length),
+            ])
+          );
+        }
+      }
+
+      printTable(
+        'Issues',
+        ['URL', 'Issue', 'hreflang', 'Alternate'],
+        issues.slice(0, limit).map(({ member, issue }) => [
+          member.final_url,
+          issue.type,
+          issue.hreflang || '',
+          issue.url || '',
+        ])
+      );
+      if (issues.length > limit) {
+        console.log(`  ... and ${issues.length - limit} more`);
+      }
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Structured data
+program
+  .command('schema')
+  .description('Structured data types per page count, and pages with invalid JSON-LD or missing required properties')
+  .option('--domain <host>', 'Only pages on this host')
+  .option('--type <type>', 'Only issues of this type (e.g., LocalBusiness, Product, Article)')
+  .option('-l, --limit <number>', 'Max pages listed', '50')
+  .action(async (options) => {
+    try {
+      const counts = await getSchemaTypeCounts(options.domain);
+      const pages = await getStructuredDataIssues(options.domain, options.type, parseInt(options.limit, 10));
+      if (Object.keys(counts).length === 0 && pages.length === 0) {
+        console.log('\nNo structured data found\n');
+        return;
+      }
+
+      printTable(
+        `🧩 Structured data types${options.domain ? ` (${options.domain})` : ''}`,
+        ['Type', 'Pages'],
+        Object.entries(counts).map(([type, count]) => [type, String(count)])
+      );
+      printTable(
+        'Issues',
+        ['URL', 'Format', 'Issue', 'Path', 'Missing'],
+        pages.flatMap(page =>
+          page.structured_data_issues
+            .filter(issue => !options.type || issue.schema_type === options.type)
+            .map(issue => [
+              page.final_url,
+              issue.format,
+              issue.type,
+              issue.path,
+              issue.type === 'invalid_json' ? issue.message || '' : issue.missing.join(' | '),
+            ])
+        )
+      );
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Heading outlines
+program
+  .command('headings')
+  .description('Heading outline issues: multiple H1s, skipped levels, empty headings, duplicate H2s')
+  .option('--domain <host>', 'Only pages on this host')
+  .option('--issue <type>', 'Only this issue (multiple_h1, skipped_level, empty_heading, duplicate_h2)')
+  .option('-l, --limit <number>', 'Max pages listed', '50')
+  .action(async (options) => {
+    try {
+      const counts = await getHeadingIssueCounts(options.domain);
+      if (counts.pages === 0) {
+        console.log('\nNo heading outlines stored\n');
+        return;
+      }
+      const type = options.issue as HeadingIssueType | undefined;
+      const pages = await getHeadingIssuePages(options.domain, type, parseInt(options.limit, 10));
+
+      console.log(`\n🔠 Heading outlines${options.domain ? ` (${options.domain})` : ''}\n`);
+      console.log(`  Pages:    ${counts.pages}`);
+      for (const [issue, count] of Object.entries(counts.issues)) {
+        console.log(`    ${(issue + ':').padEnd(24)} ${count} pages`);
+      }
+
+      printTable(
+        'Issues',
+        ['URL', 'Issue', 'Heading', 'Text'],
+        pages.flatMap(page =>
+          page.heading_issues
+            .filter(issue => !type || issue.type === type)
+            .map(issue => [page.final_url, issue.type, `h${issue.level} #${issue.position}`, issue.text || '(empty)'])
+        )
+      );
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Image inventory
+program
+  .command('images')
+  .description('Image audit: missing alt text, missing dimensions, duplicate alts and images shared across pages')
+  .option('--domain <host>', 'Only pages on this host')
+  .option('--issue <type>', 'missing_alt, missing_dimensions, duplicate_alt or shared', 'missing_alt')
+  .option('--region <region>', 'Only images in this region (main, header, nav, footer, aside, other)')
+  .option('--min-pages <number>', 'shared: minimum number of pages', '10')
+  .option('-l, --limit <number>', 'Limit results', '50')
+  .action(async (options) => {
+    try {
+      const region = options.region as ImageRegion | undefined;
+      const limit = parseInt(options.limit, 10);
+      const counts = await getImageAuditCounts(options.domain, region);
+      if (counts.images === 0) {
+        console.log('\nNo images stored\n');
+        return;
+      }
+
+      console.log(`\n🖼️  Images${options.domain ? ` (${options.domain})` : ''}${region ? ` in ${region}` : ''}\n`);
+      console.log(`  Images:               ${counts.images} on ${counts.pages} pages`);
+      console.log(`  No alt attribute:     ${counts.missingAlt}`);
+      console.log(`  Empty alt (decor.):   ${counts.emptyAlt}`);
+      console.log(`  No width/height:      ${counts.missingDimensions}`);
+      console.log(`  Lazy-loaded:          ${counts.lazy}`);
+
+      if (options.issue === 'duplicate_alt') {
+        const alts = await getDuplicateImageAlts(options.domain, limit);
+        printTable(
+          'Alt text used for different images',
+          ['Alt', 'Images', 'Pages', 'Example'],
+          alts.map(row => [row.alt, String(row.images), String(row.pages), row.example_src])
+        );
+      } else if (options.issue === 'shared') {
+        const shared = await getSharedImages(options.domain, parseInt(options.minPages, 10), limit);
+        printTable(
+          `Images on ${options.minPages}+ pages`,
+          ['Image', 'Pages', 'Regions', 'No alt'],
+          shared.map(row => [row.src, String(row.pages), row.regions, String(row.missing_alt)])
+        );
+      } else if (options.issue === 'missing_alt' || options.issue === 'missing_dimensions') {
+        const images = await getImagesWithIssue(options.issue as ImageIssue, options.domain, region, limit);
+        printTable(
+          options.issue === 'missing_alt' ? 'Images without alt attribute' : 'Images without width/height',
+          ['Page', 'Image', 'Region'],
+          images.map(image => [image.final_url, image.src, image.region])
+        );
+      } else {
+        console.error(`Unknown issue: ${options.issue}`);
+        process.exit(1);
+      }
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Inlinks / outlinks of a page
+program
+  .command('links <url>')
+  .description('Pages linking to a URL (directly or through a redirect), or the links of a page')
+  .option('--outgoing', 'List the links of the page instead')
+  .option('-l, --limit <number>', 'Limit results', '100')
+  .action(async (url: string, options) => {
+    try {
+      const finalUrl = normalizeUrl(url);
+
+      if (options.outgoing) {
+        const links = await getOutlinks(finalUrl);
+        if (links.length === 0) {
+          console.error(`No links stored for ${finalUrl}`);
+          process.exit(1);
+        }
+        printTable(
+          `🔗 Links of ${finalUrl} (${links.length})`,
+          ['Target', 'Anchor', 'Source', 'Status', 'Rel'],
+          links.map(link => [
+            link.resolved_url && link.resolved_url !== link.target_url
+              ? `${link.target_url} -> ${link.resolved_url}`
+              : link.target_url,
+            link.anchor_text,
+            link.source_type,
+            link.target_status_code ? String(link.target_status_code) : link.target_crawl_status || '-',
+            link.rel.join(' '),
+          ])
+        );
+      } else {
+        const links = await getInlinks(finalUrl, parseInt(options.limit, 10));
+        if (links.length === 0) {
+          console.error(`No inlinks stored for ${finalUrl}`);
+          process.exit(1);
+        }
+        printTable(
+          `🔗 Inlinks of ${finalUrl} (${links.length})`,
+          ['Source page', 'Anchor', 'Source', 'Via redirect', 'Nofollow'],
+          links.map(link => [
+            link.source_url,
+            link.anchor_text,
+            link.source_type,
+            link.target_redirects ? link.target_url : '',
+            link.nofollow ? 'yes' : '',
+          ])
+        );
+      }
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Broken, redirected and non-canonical links
+program
+  .command('link-issues')
+  .description('Links to broken pages, to redirects and to non-canonical pages, with the page and anchor containing them')
+  .option('--domain <host>', 'Only links on pages of this host')
+  .option('--issue <type>', 'broken, redirect or non_canonical', 'broken')
+  .option('--external', 'Include links to other hosts')
+  .option('-l, --limit <number>', 'Limit results', '100')
+  .action(async (options) => {
+    try {
+      const counts = await getLinkIssueCounts(options.domain, !!options.external);
+      if (counts.links === 0) {
+        console.log('\nNo links stored\n');
+        return;
+      }
+      if (!['broken', 'redirect', 'non_canonical'].includes(options.issue)) {
+        console.error(`Unknown issue: ${options.issue}`);
+        process.exit(1);
+      }
+
+      console.log(`\n🔗 Links${options.domain ? ` (${options.domain})` : ''}${options.external ? ' incl. external' : ''}\n`);
+      console.log(`  Links:                ${counts.links}`);
+      console.log(`  Target unknown:       ${counts.unresolved}  (not crawled or checked - see --check-links)`);
+      console.log(`  To broken pages:      ${counts.broken}`);
+      console.log(`  To redirects:         ${counts.redirect}`);
+      console.log(`  To non-canonical:     ${counts.non_canonical}`);
+
+      const issue = options.issue as LinkIssueType;
+      const links = await getLinkIssues(issue, options.domain, !!options.external, parseInt(options.limit, 10));
+      const target = (link: LinkIssue): string => {
+        if (issue === 'redirect') return `${link.resolved_url} (${link.target_status_code || '-'})`;
+        if (issue === 'non_canonical') return `${link.resolved_url} (canonical: ${link.canonical_url})`;
+        return link.check_error || String(link.target_status_code || link.target_crawl_status || '');
+      };
+
+      printTable(
+        { broken: 'Links to broken pages', redirect: 'Links to redirects', non_canonical: 'Links to non-canonical pages' }[issue],
+        ['Page', 'Anchor', 'Source', 'Target', issue === 'broken' ? 'Status' : 'Resolves to'],
+        links.map(link => [link.source_url, link.anchor_text, link.source_type, link.target_url, target(link)])
+      );
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Internal PageRank, click depth and orphans
+program
+  .command('link-metrics <runId>')
+  .description('Internal PageRank, click depth distribution, inlinks and orphan pages of a run')
+  .option('--domain <host>', 'Only pages on this host')
+  .option('--sort <field>', 'pagerank, inlinks or depth', 'pagerank')
+  .option('--orphans', 'Only sitemap pages no other page links to')
+  .option('-l, --limit <number>', 'Limit results', '50')
+  .action(async (runId: string, options) => {
+    try {
+      if (!['pagerank', 'inlinks', 'depth'].includes(options.sort)) {
+        console.error(`Unknown sort: ${options.sort}`);
+        process.exit(1);
+      }
+
+      const { depths, orphans } = await getClickDepthCounts(runId, options.domain);
+      if (depths.length === 0) {
+        console.error(`No link metrics stored for run ${runId}`);
+        process.exit(1);
+      }
+
+      printTable(
+        `🕸️  Click depth${options.domain ? ` (${options.domain})` : ''} - ${orphans} orphan pages`,
+        ['Depth', 'Pages'],
+        depths.map(row => [row.click_depth === null ? 'unreachable' : String(row.click_depth), String(row.pages)])
+      );
+
+      const pages = await getLinkMetrics(runId, {
+        host: options.domain,
+        orphansOnly: !!options.orphans,
+        sort: options.sort,
+        limit: parseInt(options.limit, 10),
+      });
+      printTable(
+        options.orphans ? 'Orphan pages' : `Pages by ${options.sort}`,
+        ['URL', 'Score', 'Depth', 'Inlinks', 'By type', 'Outlinks'],
+        pages.map(page => [
+          page.final_url,
+          page.pagerank_score.toFixed(2),
+          page.click_depth === null ? '-' : String(page.click_depth),
+          String(page.inlinks),
+          Object.entries(page.inlinks_by_type).map(([type, count]) => `${type}:${count}`).join(' '),
+          String(page.outlinks),
+        ])
+      );
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Sitemap hygiene
+program
+  .command('sitemap <runId>')
+  .description('Sitemap audit of a run: listed URLs that redirect, 404, are noindex, canonicalized or duplicated, wrong lastmod, pages missing from the sitemaps')
+  .option(
+    '--issue <type>',
+    'redirect, not_found, noindex, canonicalized, duplicate, future_lastmod, invalid_lastmod, stale_lastmod or missing_from_sitemap',
+    'redirect'
+  )
+  .option('-l, --limit <number>', 'Limit results', '100')
+  .action(async (runId: string, options) => {
+    try {
+      const counts = await getSitemapIssueCounts(runId);
+      if (counts.entries === 0) {
+        console.error(`No sitemap entries stored for run ${runId}`);
+        process.exit(1);
+      }
+      if (!(options.issue in counts.issues)) {
+        console.error(`Unknown issue: ${options.issue}`);
+        process.exit(1);
+      }
+
+      printTable(
+        `🗺️  Sitemap audit - ${counts.entries} entries, ${counts.urls} unique URLs`,
+        ['Issue', 'Entries'],
+        Object.entries(counts.issues).map(([issue, count]) => [issue, String(count)])
+      );
+
+      const issue = options.issue as SitemapIssueType;
+      const entries = await getSitemapIssues(runId, issue, parseInt(options.limit, 10));
+      const detail: Record<SitemapIssueType, string> = {
+        redirect: 'Redirects to',
+        not_found: 'Status',
+        noindex: 'Status',
+        canonicalized: 'Canonical',
+        duplicate: 'Listed as',
+        future_lastmod: 'lastmod',
+        invalid_lastmod: 'lastmod',
+        stale_lastmod: 'lastmod',
+        missing_from_sitemap: 'Status',
+      };
+      printTable(
+        issue,
+        ['URL', detail[issue], 'Sitemap'],
+        entries.map(entry => {
+          let value = String(entry.status_code || entry.crawl_status || '');
+          if (issue === 'redirect') value = `${entry.final_url} (${entry.status_code || '-'})`;
+          if (issue === 'canonicalized') value = entry.canonical_url || '';
+          if (issue === 'duplicate') value = entry.loc || '';
+          if (issue.endsWith('_lastmod')) value = entry.lastmod || '';
+          return [entry.url, value, entry.sitemap_url || ''];
+        })
+      );
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Social previews
+program
+  .command('social')
+  .description('Open Graph / Twitter card coverage, and pages missing a social tag')
+  .option('--domain <host>', 'Only pages on this host')
+  .option('--missing <tag>', 'List pages missing og_title, og_description, og_image, og_image_size, og_url, twitter_card or icon', 'og_image')
+  .option('-l, --limit <number>', 'Limit results', '50')
+  .action(async (options) => {
+    try {
+      const coverage = await getSocialTagCoverage(options.domain);
+      if (coverage.pages === 0) {
+        console.log('\nNo pages with social metadata\n');
+        return;
+      }
+      if (!(options.missing in coverage.tags)) {
+        console.error(`Unknown tag: ${options.missing}`);
+        process.exit(1);
+      }
+
+      const tag = options.missing as SocialTag;
+      const pages = await getPagesMissingSocialTag(tag, options.domain, parseInt(options.limit, 10));
+
+      printTable(
+        `📣 Social tags${options.domain ? ` (${options.domain})` : ''} - ${coverage.pages} pages`,
+        ['Tag', 'Pages', 'Coverage'],
+        Object.entries(coverage.tags).map(([name, count]) => [
+          name,
+          String(count),
+          `${((count / coverage.pages) * 100).toFixed(1)}%`,
+        ])
+      );
+      printTable(
+        `Missing ${tag}`,
+        ['URL', 'og:title', 'twitter:card'],
+        pages.map(page => [
+          page.final_url,
+          page.social_metadata.og.title || '',
+          page.social_metadata.twitter.card || '',
+        ])
+      );
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Indexability
+program
+  .command('indexability')
+  .description('Pages per indexability reason and the non-indexable pages')
+  .option('--domain <host>', 'Only pages on this host')
+  .option('-r, --reason <reasons...>', 'Only these reasons (noindex, canonicalized, blocked_robots_txt, ...)')
+  .option('-l, --limit <number>', 'Limit results', '100')
+  .action(async (options) => {
+    try {
+      const counts = await getIndexabilityCounts(options.domain);
+      const pages = await getNonIndexablePages(
+        options.domain,
+        options.reason as IndexabilityReason[] | undefined,
+        parseInt(options.limit, 10)
+      );
+
+      console.log(`\n🔎 Indexability${options.domain ? ` (${options.domain})` : ''}\n`);
+      for (const [verdict, count] of Object.entries(counts).sort((a, b) => b[1] - a[1])) {
+        console.log(`  ${(verdict + ':').padEnd(20)} ${count}`);
+      }
+
+      printTable(
+        'Non-indexable pages',
+        ['URL', 'Reason', 'Status', 'Canonical'],
+        pages.map(page => [
+          page.final_url,
+          page.indexability_reason,
+          `${page.crawl_status} (${page.status_code ?? '-'})`,
+          page.indexability_reason === 'canonicalized' ? page.canonical_url || '' : '',
+        ])
+      );
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Slow pages
+program
+  .command('slow')
+  .description('Pages with a slow time to first byte or download')
+  .option('--min-ms <ms>', 'Minimum TTFB or download time', '1000')
+  .option('--domain <host>', 'Only pages on this host')
+  .option('-l, --limit <number>', 'Limit results', '50')
+  .action(async (options) => {
+    try {
+      const pages = await getSlowPages(parseInt(options.minMs, 10), options.domain, parseInt(options.limit, 10));
+      if (pages.length === 0) {
+        console.log(`\nNo pages slower than ${options.minMs}ms\n`);
+        return;
+      }
+      printPerformanceTable(`🐌 Pages slower than ${options.minMs}ms`, pages);
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+// Uncacheable pages
+program
+  .command('uncacheable')
+  .description('Pages with Cache-Control no-store/no-cache/private/max-age=0 or no caching headers')
+  .option('--domain <host>', 'Only pages on this host')
+  .option('-l, --limit <number>', 'Limit results', '50')
+  .action(async (options) => {
+    try {
+      const pages = await getUncacheablePages(options.domain, parseInt(options.limit, 10));
+      if (pages.length === 0) {
+        console.log('\nNo uncacheable pages\n');
+        return;
+      }
+      printPerformanceTable('🚫 Uncacheable pages', pages);
+      console.log('');
+    } finally {
+      await closePool();
+    }
+  });
+
+/**
+ * Print pages with their timings, size and caching headers
+ */
+function printPerformanceTable(heading: string, pages: PagePerformance[]): void {
+  const ms = (value: number | null) => (value === null ? '-' : `${value}ms`);
+  printTable(
+    heading,
+    ['URL', 'Status', 'TTFB', 'Download', 'KB', 'Cache-Control'],
+    pages.map(page => [
+      page.final_url,
+      String(page.status_code ?? '-'),
+      ms(page.ttfb_ms),
+      ms(page.download_ms),
+      page.content_bytes === null ? '-' : (page.content_bytes / 1024).toFixed(1),
+      page.cache_control || (page.expires ? `(Expires: ${page.expires})` : '(none)'),
+    ])
+  );
+}
+
+/**
+ * Print a section as a padded console table (long cells are truncated)
+ */
+function printTable(heading: string, columns: string[], rows: string[][]): void {
+  if (rows.length === 0) return;
+
+  const maxWidth = 70;
+  const cell = (value: string) => (value.length > maxWidth ? value.slice(0, maxWidth - 1) + '…' : value);
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...rows.map(row => cell(row[i]).length))
+  );
+  const line = (values: string[]) => '  ' + values.map((value, i) => cell(value).padEnd(widths[i])).join('  ');
+
+  console.log(`\n${heading} (${rows.length}):\n`);
+  console.log(line(columns));
+  console.log('  ' + widths.map(width => '-'.repeat(width)).join('  '));
+  for (const row of rows) {
+    console.log(line(row));
+  }
+}
+
+program.parse();
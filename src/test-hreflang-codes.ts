@@ -0,0 +1,56 @@
+/**
+ * Test hreflang Code Validation
+ *
+ * Verifies that isValidHreflangCode accepts language, language-script and
+ * language-region codes in any case plus x-default, and rejects region
+ * aliases (en-UK), numeric regions (es-419), underscores and unknown codes.
+ */
+
+import { isValidHreflangCode } from './parsers/hreflangParser';
+
+const testCases: Array<{ code: string; valid: boolean }> = [
+  { code: 'en', valid: true },
+  { code: 'en-GB', valid: true },
+  { code: 'EN-gb', valid: true },
+  { code: 'pt-BR', valid: true },
+  { code: 'zh-Hant', valid: true },
+  { code: 'zh-Hant-TW', valid: true },
+  { code: 'x-default', valid: true },
+  { code: 'X-Default', valid: true },
+  { code: 'x-default-us', valid: false },
+  { code: 'en-UK', valid: false },
+  { code: 'es-419', valid: false },
+  { code: 'en_GB', valid: false },
+  { code: 'english', valid: false },
+  { code: 'xx', valid: false },
+  { code: 'en-ZZ', valid: false },
+  { code: 'en-XY', valid: false },
+  { code: '', valid: false },
+];
+
+async function testHreflangCodes() {
+  console.log('🧪 Testing hreflang Code Validation\n');
+
+  let failures = 0;
+  testCases.forEach(testCase => {
+    const valid = isValidHreflangCode(testCase.code);
+    const passed = valid === testCase.valid;
+
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} "${testCase.code}": ${valid ? 'valid' : 'invalid'}`);
+  });
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${testCases.length} cases failed\n`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Test complete!\n');
+}
+
+testHreflangCodes()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,111 @@
+/**
+ * Test Content Language Detection
+ *
+ * Verifies detectLanguage on short texts (below LANGUAGE_DETECTION_MIN_WORDS
+ * nothing is classified), on texts mixing two languages (the dominant one wins,
+ * an even mix stays below the mismatch confidence), on scripts that decide on
+ * their own, and the declared/detected comparison of isLanguageMismatch.
+ */
+
+import { detectLanguage, isLanguageMismatch } from './extraction/languageDetector';
+import { LANGUAGE_MISMATCH_MIN_CONFIDENCE } from './config/constants';
+
+const ENGLISH =
+  'This is the page where you can find out more about our services and how they work. ' +
+  'We have been in business for a long time, and we would like to help you with your project.';
+
+const SPANISH =
+  'Esta es la página donde puede encontrar más información sobre nuestros servicios y cómo funcionan. ' +
+  'Tenemos muchos años de experiencia y nos gustaría ayudarle con su proyecto.';
+
+const GERMAN =
+  'Auf dieser Seite finden Sie mehr über unsere Leistungen und wie sie funktionieren. ' +
+  'Wir sind schon lange im Geschäft und helfen Ihnen gern bei Ihrem Projekt, wenn Sie das wollen.';
+
+const JAPANESE = 'このページでは、私たちのサービスとその仕組みについて詳しく説明しています。お気軽にお問い合わせください。';
+
+interface DetectionTestCase {
+  name: string;
+  text: string;
+  language: string | null;
+  confident?: boolean;  // Confidence at least LANGUAGE_MISMATCH_MIN_CONFIDENCE
+}
+
+const detectionTestCases: DetectionTestCase[] = [
+  { name: 'English paragraph', text: ENGLISH, language: 'en', confident: true },
+  { name: 'Spanish paragraph', text: SPANISH, language: 'es', confident: true },
+  { name: 'German paragraph', text: GERMAN, language: 'de', confident: true },
+  { name: 'Short English text (below minimum words)', text: 'Contact us for a free quote today.', language: null },
+  { name: 'Short Spanish text (below minimum words)', text: 'Póngase en contacto con nosotros hoy.', language: null },
+  { name: 'Empty content', text: '', language: null },
+  { name: 'Japanese (kana and kanji mixed)', text: JAPANESE, language: 'ja', confident: true },
+  { name: 'Short Japanese text (below minimum characters)', text: 'お問い合わせ', language: null },
+  {
+    name: 'English page quoting a Spanish sentence',
+    text: `${ENGLISH} ${ENGLISH} As the sign said: "Es la mejor tienda de la ciudad."`,
+    language: 'en',
+    confident: true,
+  },
+  {
+    name: 'English and Spanish in equal parts',
+    text: `${ENGLISH} ${SPANISH}`,
+    language: 'en',
+    confident: false,
+  },
+  {
+    name: 'Markdown links, URLs and code carry no signal',
+    text: `${SPANISH}\n\n[Read the docs](https://example.com/the/and/of/to) https://example.com/the-and-of-to\n\n\`\`\`\nthe and of to in is that for it with\n\`\`\``,
+    language: 'es',
+    confident: true,
+  },
+];
+
+const mismatchTestCases: Array<{ name: string; declared: string | null; text: string; expected: boolean | null }> = [
+  { name: 'lang="en-US" on English content', declared: 'en-US', text: ENGLISH, expected: false },
+  { name: 'lang="en" on Spanish content', declared: 'en', text: SPANISH, expected: true },
+  { name: 'lang="de_DE" (underscore) on German content', declared: 'de_DE', text: GERMAN, expected: false },
+  { name: 'No lang attribute', declared: null, text: ENGLISH, expected: null },
+  { name: 'lang="es" on an even English/Spanish mix', declared: 'es', text: `${ENGLISH} ${SPANISH}`, expected: null },
+  { name: 'lang="en" on a short text', declared: 'en', text: 'Hola, ¿qué tal?', expected: null },
+];
+
+async function testLanguageDetector() {
+  console.log('🧪 Testing Content Language Detection\n');
+
+  let failures = 0;
+
+  console.log('=== detectLanguage() ===\n');
+  detectionTestCases.forEach(testCase => {
+    const detection = detectLanguage(testCase.text);
+    const confident = detection.confidence >= LANGUAGE_MISMATCH_MIN_CONFIDENCE;
+    const passed =
+      detection.language === testCase.language &&
+      (testCase.confident === undefined || confident === testCase.confident);
+
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${testCase.name}: ${detection.language} (${detection.confidence})`);
+  });
+
+  console.log('\n=== isLanguageMismatch() ===\n');
+  mismatchTestCases.forEach(testCase => {
+    const mismatch = isLanguageMismatch(testCase.declared, detectLanguage(testCase.text));
+    const passed = mismatch === testCase.expected;
+
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${testCase.name}: ${mismatch}`);
+  });
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${detectionTestCases.length + mismatchTestCases.length} cases failed\n`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Test complete!\n');
+}
+
+testLanguageDetector()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,139 @@
+/**
+ * Test Client-Side Redirect Detection
+ *
+ * Verifies that detectClientRedirect finds <meta http-equiv="refresh"> and
+ * JavaScript `location` redirects (the latter only on stub pages), resolves
+ * relative targets, and ignores refreshes to the page itself; plus the loop
+ * check of isRedirectLoop.
+ */
+
+import { detectClientRedirect, isRedirectLoop, ClientRedirect } from './extraction/redirectDetector';
+import type { RedirectHop } from './types/database.types';
+
+const PAGE_URL = 'https://example.com/old/page';
+
+interface RedirectTestCase {
+  name: string;
+  html: string;
+  wordCount: number;
+  expected: ClientRedirect | null;
+}
+
+const testCases: RedirectTestCase[] = [
+  {
+    name: 'Meta refresh with a relative URL',
+    html: '<html><head><meta http-equiv="refresh" content="0; url=/new-page"></head><body></body></html>',
+    wordCount: 0,
+    expected: { type: 'meta_refresh', target: 'https://example.com/new-page' },
+  },
+  {
+    name: 'Meta refresh, upper-case attribute, quoted URL, delay',
+    html: `<meta HTTP-EQUIV="Refresh" content="5;URL='https://other.example.com/landing#top'">`,
+    wordCount: 0,
+    expected: { type: 'meta_refresh', target: 'https://other.example.com/landing' },
+  },
+  {
+    name: 'Meta refresh on a full page still counts',
+    html: '<meta http-equiv="refresh" content="3; url=moved">',
+    wordCount: 500,
+    expected: { type: 'meta_refresh', target: 'https://example.com/old/moved' },
+  },
+  {
+    name: 'Meta refresh without a URL (reload) is ignored',
+    html: '<meta http-equiv="refresh" content="30">',
+    wordCount: 0,
+    expected: null,
+  },
+  {
+    name: 'Meta refresh to the page itself is ignored',
+    html: `<meta http-equiv="refresh" content="0; url=${PAGE_URL}">`,
+    wordCount: 0,
+    expected: null,
+  },
+  {
+    name: 'window.location.href assignment on a stub page',
+    html: `<script>window.location.href = "/new-page";</script>`,
+    wordCount: 3,
+    expected: { type: 'javascript', target: 'https://example.com/new-page' },
+  },
+  {
+    name: 'location.replace() on a stub page',
+    html: `<script>location.replace('https://example.com/target?x=1');</script>`,
+    wordCount: 0,
+    expected: { type: 'javascript', target: 'https://example.com/target?x=1' },
+  },
+  {
+    name: 'JavaScript redirect on a full page is ignored',
+    html: `<script>if (loggedOut) { location.href = '/login'; }</script>`,
+    wordCount: 500,
+    expected: null,
+  },
+  {
+    name: 'javascript: target is ignored',
+    html: `<script>location.href = 'javascript:void(0)';</script>`,
+    wordCount: 0,
+    expected: null,
+  },
+  {
+    name: 'External script is not read',
+    html: `<script src="/app.js">location.href = '/elsewhere';</script>`,
+    wordCount: 0,
+    expected: null,
+  },
+];
+
+function hops(...urls: string[]): RedirectHop[] {
+  return urls.map((url, i) => ({
+    url,
+    status_code: 301,
+    redirect_type: 'http',
+    target: urls[i + 1] ?? null,
+  }));
+}
+
+const loopTestCases: Array<{ name: string; hops: RedirectHop[]; nextUrl?: string; expected: boolean }> = [
+  { name: 'Straight chain', hops: hops('https://example.com/a', 'https://example.com/b'), expected: false },
+  { name: 'URL repeated in the chain', hops: hops('https://example.com/a', 'https://example.com/b', 'https://example.com/a'), expected: true },
+  { name: 'Next hop goes back to the start', hops: hops('https://example.com/a', 'https://example.com/b'), nextUrl: 'https://example.com/a', expected: true },
+];
+
+async function testRedirectDetector() {
+  console.log('🧪 Testing Client-Side Redirect Detection\n');
+
+  let failures = 0;
+
+  console.log('=== detectClientRedirect() ===\n');
+  testCases.forEach(testCase => {
+    const redirect = detectClientRedirect(testCase.html, PAGE_URL, testCase.wordCount);
+    const passed = JSON.stringify(redirect) === JSON.stringify(testCase.expected);
+
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${testCase.name}: ${redirect ? `${redirect.type} -> ${redirect.target}` : 'none'}`);
+    if (!passed) {
+      console.log(`   Expected: ${JSON.stringify(testCase.expected)}`);
+    }
+  });
+
+  console.log('\n=== isRedirectLoop() ===\n');
+  loopTestCases.forEach(testCase => {
+    const isLoop = isRedirectLoop(testCase.hops, testCase.nextUrl);
+    const passed = isLoop === testCase.expected;
+
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${testCase.name}: ${isLoop}`);
+  });
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${testCases.length + loopTestCases.length} cases failed\n`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Test complete!\n');
+}
+
+testRedirectDetector()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,99 @@
+/**
+ * Test Resuming a Half-Handled Request Queue
+ *
+ * Verifies that a crawler opened on a named request queue that earlier passes
+ * (or an interrupted run) already partly handled still gets its --max-pages
+ * budget: Crawlee counts the queue's handled requests against maxRequestsPerCrawl,
+ * so crawlRequestLimit adds that count on top of the budget.
+ * Runs against a local server, with Crawlee storage in a temporary directory.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CheerioCrawler, RequestQueue, log } from 'crawlee';
+import { crawlRequestLimit } from './core/crawler';
+
+const QUEUE_NAME = 'test-resume-queue';
+const TOTAL_REQUESTS = 6;
+
+/**
+ * Run one crawler pass over the queue and return how many requests it handled
+ */
+async function runPass(maxRequestsPerCrawl: number | undefined): Promise<number> {
+  const requestQueue = await RequestQueue.open(QUEUE_NAME);
+  let handled = 0;
+  const crawler = new CheerioCrawler({
+    requestQueue,
+    maxConcurrency: 1,
+    maxRequestsPerCrawl,
+    requestHandler: async () => {
+      handled++;
+    },
+  });
+  await crawler.run();
+  return handled;
+}
+
+async function testResumeQueue() {
+  console.log('🧪 Testing Resume of a Half-Handled Request Queue\n');
+
+  const storageDir = mkdtempSync(join(tmpdir(), 'crawlee-resume-'));
+  process.env.CRAWLEE_STORAGE_DIR = storageDir;
+  log.setLevel(log.LEVELS.WARNING);
+
+  const server = createServer((req, res) => {
+    res.setHeader('content-type', 'text/html');
+    res.end(`<html><head><title>${req.url}</title></head><body><p>${req.url}</p></body></html>`);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  let failures = 0;
+  const check = (name: string, actual: number, expected: number) => {
+    const passed = actual === expected;
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${name}: ${actual}${passed ? '' : ` (expected ${expected})`}`);
+  };
+
+  try {
+    const requestQueue = await RequestQueue.open(QUEUE_NAME);
+    for (let i = 1; i <= TOTAL_REQUESTS; i++) {
+      await requestQueue.addRequest({ url: `${origin}/page-${i}` });
+    }
+
+    // First pass stops halfway, as an interrupted run or an exhausted pass would
+    check('First pass, budget 3', await runPass(await crawlRequestLimit(requestQueue, 3)), 3);
+    check('Handled after first pass', await requestQueue.handledCount(), 3);
+
+    // The bare budget is already used up by the 3 handled requests
+    check('Resumed pass, bare budget 2 as limit', await runPass(2), 0);
+
+    // Reopened by name, the queue still holds 3 pending requests
+    const resumedQueue = await RequestQueue.open(QUEUE_NAME);
+    check('Resumed pass, budget 2', await runPass(await crawlRequestLimit(resumedQueue, 2)), 2);
+    check('Unlimited pass takes the rest', await runPass(await crawlRequestLimit(resumedQueue, undefined)), 1);
+    check('Handled in total', await resumedQueue.handledCount(), TOTAL_REQUESTS);
+
+    await resumedQueue.drop();
+  } finally {
+    server.close();
+    rmSync(storageDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} checks failed\n`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Test complete!\n');
+}
+
+testResumeQueue()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
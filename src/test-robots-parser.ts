@@ -0,0 +1,125 @@
+/**
+ * Test robots.txt User-agent Group Matching
+ *
+ * Verifies that parseRobotsTxt picks the group whose User-agent equals our
+ * product token (case-insensitive), and that groups whose name is only a
+ * substring of the token fall through to the `*` group (RFC 9309 section 2.2.1).
+ * Also checks that an unreachable robots.txt (5xx, 429, network error) means
+ * complete disallow and other 4xx responses mean no restrictions (section 2.3.1),
+ * against a local server.
+ */
+
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { parseRobotsTxt, checkRobotsRules, fetchRobotsTxt } from './parsers/robotsParser';
+
+interface GroupTestCase {
+  name: string;
+  robotsTxt: string;
+  blockedPath: string;   // Disallowed for us by the group that should apply
+  allowedPath: string;   // Only disallowed by the group that should NOT apply
+}
+
+const ORIGIN = 'https://example.com';
+
+const testCases: GroupTestCase[] = [
+  {
+    name: 'Exact token, other case',
+    robotsTxt: 'User-agent: acrawler\nDisallow: /private\n\nUser-agent: *\nDisallow: /wildcard',
+    blockedPath: '/private',
+    allowedPath: '/wildcard',
+  },
+  {
+    name: 'Substring of the token ("Crawler") falls back to *',
+    robotsTxt: 'User-agent: Crawler\nDisallow: /substring\n\nUser-agent: *\nDisallow: /wildcard',
+    blockedPath: '/wildcard',
+    allowedPath: '/substring',
+  },
+  {
+    name: 'Single-letter group ("a") falls back to *',
+    robotsTxt: 'User-agent: a\nDisallow: /\n\nUser-agent: *\nDisallow: /wildcard',
+    blockedPath: '/wildcard',
+    allowedPath: '/page',
+  },
+  {
+    name: 'Group shared with other bots',
+    robotsTxt: 'User-agent: Googlebot\nUser-agent: ACrawler\nDisallow: /shared\n\nUser-agent: *\nDisallow: /wildcard',
+    blockedPath: '/shared',
+    allowedPath: '/wildcard',
+  },
+];
+
+/**
+ * robots.txt status code -> whether a page of the site may be crawled
+ */
+const fetchTestCases: Array<{ status: number; allowed: boolean }> = [
+  { status: 404, allowed: true },
+  { status: 410, allowed: true },
+  { status: 429, allowed: false },
+  { status: 500, allowed: false },
+  { status: 503, allowed: false },
+];
+
+async function testRobotsFetch(): Promise<number> {
+  console.log('\n=== robots.txt fetch status ===\n');
+
+  // The first path segment is the status robots.txt is served with
+  const server = createServer((req, res) => {
+    res.statusCode = parseInt((req.url || '').split('/')[1], 10) || 200;
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  let failures = 0;
+  const check = async (name: string, origin: string, expected: boolean) => {
+    const robots = await fetchRobotsTxt(origin);
+    const allowed = checkRobotsRules(robots, `${origin}/page`).allowed;
+    const passed = allowed === expected;
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${name}: ${allowed ? 'allowed' : 'disallowed'}`);
+  };
+
+  for (const testCase of fetchTestCases) {
+    await check(`HTTP ${testCase.status}`, `http://127.0.0.1:${port}/${testCase.status}`, testCase.allowed);
+  }
+  server.close();
+
+  // Nothing listens on the closed server's port any more
+  await check('Network error', `http://127.0.0.1:${port}`, false);
+  return failures;
+}
+
+async function testRobotsParser() {
+  console.log('🧪 Testing robots.txt User-agent Group Matching\n');
+
+  let failures = 0;
+  testCases.forEach(testCase => {
+    const robots = parseRobotsTxt(testCase.robotsTxt, ORIGIN);
+    const blocked = !checkRobotsRules(robots, `${ORIGIN}${testCase.blockedPath}`).allowed;
+    const allowed = checkRobotsRules(robots, `${ORIGIN}${testCase.allowedPath}`).allowed;
+    const passed = blocked && allowed;
+
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${testCase.name}`);
+    if (!passed) {
+      console.log(`   ${testCase.blockedPath} blocked: ${blocked}, ${testCase.allowedPath} allowed: ${allowed}`);
+    }
+  });
+
+  failures += await testRobotsFetch();
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${testCases.length + fetchTestCases.length + 1} cases failed\n`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Test complete!\n');
+}
+
+testRobotsParser()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
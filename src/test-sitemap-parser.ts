@@ -0,0 +1,153 @@
+/**
+ * Test Sitemap Parsing
+ *
+ * Verifies that parseSitemap expands nested sitemap indexes (relative locs,
+ * gzipped children, an index that links back to its parent), fills in
+ * lastmod/changefreq/priority and the image/news extensions, and stops at the
+ * 50,000-entry sitemap limit with a warning.
+ * Uses the local fixtures in src/test-fixtures/sitemaps; the oversized sitemap
+ * is generated into a temporary directory.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseSitemap, SitemapUrl } from './parsers/sitemapParser';
+import { SITEMAP_MAX_URLS } from './config/constants';
+
+const FIXTURES_DIR = join(__dirname, 'test-fixtures', 'sitemaps');
+
+let failures = 0;
+
+function check(name: string, passed: boolean, details?: unknown) {
+  if (!passed) failures++;
+  console.log(`${passed ? '✅' : '❌'} ${name}`);
+  if (!passed && details !== undefined) {
+    console.log(`   Got: ${JSON.stringify(details)}`);
+  }
+}
+
+/**
+ * Run fn and collect what it passed to console.warn
+ */
+async function captureWarnings<T>(fn: () => Promise<T>): Promise<{ result: T; warnings: string[] }> {
+  const warnings: string[] = [];
+  const originalWarn = console.warn;
+  console.warn = (...args: unknown[]) => {
+    warnings.push(args.map(String).join(' '));
+  };
+  try {
+    return { result: await fn(), warnings };
+  } finally {
+    console.warn = originalWarn;
+  }
+}
+
+async function testNestedIndex() {
+  console.log('\n=== Test 1: Nested sitemap index ===\n');
+
+  const { result: urls, warnings } = await captureWarnings(() =>
+    parseSitemap(join(FIXTURES_DIR, 'sitemap_index.xml'))
+  );
+  const byUrl = new Map<string, SitemapUrl>(urls.map(entry => [entry.url, entry]));
+
+  check(
+    'Index -> index -> gzipped sitemap expanded',
+    urls.length === 3 && byUrl.has('https://example.com/blog/launch'),
+    urls.map(entry => entry.url)
+  );
+  check(
+    'Index linking back to its parent is read once',
+    warnings.some(warning => warning.includes('Sitemap already read')),
+    warnings
+  );
+
+  const about = byUrl.get('https://example.com/about');
+  check(
+    'lastmod, changefreq and priority filled in',
+    about?.lastmod === '2024-05-01' && about?.changefreq === 'weekly' && about?.priority === 0.8,
+    about && { lastmod: about.lastmod, changefreq: about.changefreq, priority: about.priority }
+  );
+  check(
+    'Type hint taken from the sitemap filename',
+    about?.typeHint === 'page' && byUrl.get('https://example.com/blog/launch')?.typeHint === 'post',
+    urls.map(entry => entry.typeHint)
+  );
+
+  const contact = byUrl.get('https://example.com/contact');
+  check(
+    'Optional fields left out when absent',
+    contact !== undefined && contact.lastmod === undefined && contact.priority === undefined && !contact.images,
+    contact
+  );
+
+  console.log('\n=== Test 2: Sitemap extensions ===\n');
+
+  check(
+    'image:image entry',
+    about?.images?.length === 1 &&
+      about.images[0].loc === 'https://example.com/images/team.jpg' &&
+      about.images[0].title === 'Team & office',
+    about?.images
+  );
+
+  const news = byUrl.get('https://example.com/blog/launch')?.news;
+  check(
+    'news:news entry (from the .xml.gz sitemap)',
+    news?.publicationName === 'Example News' &&
+      news?.publicationLanguage === 'en' &&
+      news?.title === 'We launched' &&
+      news?.publicationDate === '2024-06-10',
+    news
+  );
+}
+
+async function testUrlLimit() {
+  console.log(`\n=== Test 3: ${SITEMAP_MAX_URLS} URL limit ===\n`);
+
+  const dir = mkdtempSync(join(tmpdir(), 'sitemap-limit-'));
+  const sitemapPath = join(dir, 'big-sitemap.xml');
+
+  try {
+    const entries: string[] = [];
+    for (let i = 1; i <= SITEMAP_MAX_URLS + 10; i++) {
+      entries.push(`<url><loc>https://example.com/p/${i}</loc></url>`);
+    }
+    writeFileSync(
+      sitemapPath,
+      `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${entries.join('\n')}\n</urlset>\n`
+    );
+
+    const { result: urls, warnings } = await captureWarnings(() => parseSitemap(sitemapPath));
+
+    check(`Only the first ${SITEMAP_MAX_URLS} entries kept`, urls.length === SITEMAP_MAX_URLS, urls.length);
+    check(
+      'Limit warning logged',
+      warnings.some(warning => warning.includes(`more than ${SITEMAP_MAX_URLS} entries`)),
+      warnings
+    );
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function testSitemapParser() {
+  console.log('🧪 Testing Sitemap Parsing');
+
+  await testNestedIndex();
+  await testUrlLimit();
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} checks failed\n`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Test complete!\n');
+}
+
+testSitemapParser()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,150 @@
+/**
+ * Test Soft-404 Detection
+ *
+ * Verifies the title/body heuristics of detectSoft404 (fuzzy patterns only
+ * count on thin pages or when both match), the missing-page probe match, and
+ * the redirect checks of detectSoft404Redirect.
+ */
+
+import { detectSoft404, detectSoft404Redirect, MissingPageProbe, Soft404Input } from './extraction/soft404Detector';
+
+interface ContentTestCase {
+  name: string;
+  input: Partial<Soft404Input>;
+  isSoft404: boolean;
+}
+
+const LONG_ARTICLE = Array(200).fill('word').join(' ');
+
+/**
+ * Probe of a site that answers missing URLs with its error template and a 200
+ */
+const CATCH_ALL_PROBE: MissingPageProbe = {
+  url: 'https://example.com/a-crawler-probe-x1y2z3',
+  statusCode: 200,
+  finalUrl: 'https://example.com/a-crawler-probe-x1y2z3',
+  contentHash: 'error-template-hash',
+};
+
+const contentTestCases: ContentTestCase[] = [
+  {
+    name: '"Page Not Found" title on a thin page',
+    input: { title: 'Page Not Found - Example', text: 'Try the search box.', wordCount: 4 },
+    isSoft404: true,
+  },
+  {
+    name: 'Body pattern only, on a thin page',
+    input: { title: 'Example', text: "Sorry, the page you were looking for was not found.", wordCount: 10 },
+    isSoft404: true,
+  },
+  {
+    name: 'Long article about HTTP 404 (title match only)',
+    input: { title: 'How to fix 404 errors in WordPress', text: LONG_ARTICLE, wordCount: 200 },
+    isSoft404: false,
+  },
+  {
+    name: 'Long page whose title and body both match',
+    input: { title: 'Not Found', text: `404 error. ${LONG_ARTICLE}`, wordCount: 202 },
+    isSoft404: true,
+  },
+  {
+    name: 'Thin page without any pattern',
+    input: { title: 'Contact us', text: 'Call us on 555-0100.', wordCount: 5 },
+    isSoft404: false,
+  },
+  {
+    name: 'Same content as the missing-page probe',
+    input: { title: 'Example', text: LONG_ARTICLE, wordCount: 200, contentHash: 'error-template-hash', probe: CATCH_ALL_PROBE },
+    isSoft404: true,
+  },
+  {
+    name: 'Probe answered 404 (site reports missing pages properly)',
+    input: {
+      title: 'Example',
+      text: LONG_ARTICLE,
+      wordCount: 200,
+      contentHash: 'error-template-hash',
+      probe: { ...CATCH_ALL_PROBE, statusCode: 404 },
+    },
+    isSoft404: false,
+  },
+];
+
+interface RedirectTestCase {
+  name: string;
+  requestedUrl: string;
+  finalUrl: string;
+  probe: MissingPageProbe | null;
+  isSoft404: boolean;
+}
+
+const redirectTestCases: RedirectTestCase[] = [
+  {
+    name: 'Deep URL redirected to the homepage',
+    requestedUrl: 'https://example.com/old/product',
+    finalUrl: 'https://example.com/',
+    probe: null,
+    isSoft404: true,
+  },
+  {
+    name: 'Moved page redirected to its new URL',
+    requestedUrl: 'https://example.com/old/product',
+    finalUrl: 'https://example.com/products/widget',
+    probe: null,
+    isSoft404: false,
+  },
+  {
+    name: 'Redirected where the probe was redirected too',
+    requestedUrl: 'https://example.com/old/product',
+    finalUrl: 'https://example.com/search',
+    probe: { ...CATCH_ALL_PROBE, finalUrl: 'https://example.com/search' },
+    isSoft404: true,
+  },
+];
+
+async function testSoft404Detector() {
+  console.log('🧪 Testing Soft-404 Detection\n');
+
+  let failures = 0;
+
+  console.log('=== detectSoft404() ===\n');
+  contentTestCases.forEach(testCase => {
+    const input: Soft404Input = {
+      title: null,
+      h1: null,
+      text: '',
+      wordCount: 0,
+      contentHash: 'page-hash',
+      probe: null,
+      ...testCase.input,
+    };
+    const detection = detectSoft404(input);
+    const passed = detection.isSoft404 === testCase.isSoft404;
+
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${testCase.name}: ${detection.isSoft404} [${detection.signals.join(', ')}]`);
+  });
+
+  console.log('\n=== detectSoft404Redirect() ===\n');
+  redirectTestCases.forEach(testCase => {
+    const detection = detectSoft404Redirect(testCase.requestedUrl, testCase.finalUrl, testCase.probe);
+    const passed = detection.isSoft404 === testCase.isSoft404;
+
+    if (!passed) failures++;
+    console.log(`${passed ? '✅' : '❌'} ${testCase.name}: ${detection.isSoft404} [${detection.signals.join(', ')}]`);
+  });
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} of ${contentTestCases.length + redirectTestCases.length} cases failed\n`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Test complete!\n');
+}
+
+testSoft404Detector()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Test failed:', error);
+    process.exit(1);
+  });
@@ -2,7 +2,14 @@
  * Crawl-related type definitions
  */
 
-import { FetchMode } from './database.types';
+import { FetchMode, RedirectHop } from './database.types';
+
+/**
+ * Which discovered links stay in scope
+ * host: same hostname as a seed, subdomains: seed domain and its subdomains,
+ * path: same hostname and under one of the path prefixes
+ */
+export type DiscoveryScope = 'host' | 'subdomains' | 'path';
 
 /**
  * Crawl options
@@ -14,6 +21,18 @@ export interface CrawlOptions {
   debug?: boolean;
   dryRun?: boolean;
   recrawl?: boolean;
+  incremental?: boolean;        // Refetch only pages that changed (sitemap lastmod, ETag/Last-Modified, content hash)
+  ignoreRobots?: boolean;       // Skip robots.txt rules and Crawl-delay
+  discover?: boolean;           // Follow same-site links in addition to sitemap seeds
+  maxDepth?: number;            // Max link hops from a sitemap page
+  scope?: DiscoveryScope;
+  pathPrefixes?: string[];      // For scope 'path'
+  includePatterns?: string[];   // Regex; discovered URL must match one
+  excludePatterns?: string[];   // Regex; discovered URL must match none
+  canonicalAliases?: boolean;   // Store pages canonicalized elsewhere as aliases of their canonical
+  checkLinks?: boolean;         // Check link targets the crawl did not fetch (HEAD requests)
+  checkExternalLinks?: boolean; // ...including links to other hosts
+  resume?: boolean;             // Continue an unfinished run (same runId, persisted queues)
   runId: string;
 }
 
@@ -22,15 +41,50 @@ export interface CrawlOptions {
  */
 export interface CrawlStats {
   urlsDiscovered: number;
+  linksDiscovered: number;   // URLs enqueued from links (discovery mode)
   pagesCrawled: number;
   pagesSkipped: number;
+  pagesUnchanged: number;    // Incremental mode: lastmod not newer, 304, or same content hash
   redirects: number;
+  redirectLoops: number;     // Redirect chains that revisit a URL (stored as REDIRECT_LOOP)
+  canonicalAliases: number;  // Canonicalized pages stored as aliases (--canonical-aliases)
   errors: number;
+  browserFallbacks: number;  // Pages re-fetched with Playwright after looking JS-rendered
+  soft404s: number;          // Pages (or redirects) classified as SOFT_404
+  blockedByRobots: number;   // URLs not fetched because robots.txt disallows them
+  throttledResponses: number; // 429/503 responses that triggered a backoff
+  domainWaitMs: Record<string, number>; // Time requests were held back per domain (politeness)
   startTime: Date;
   endTime?: Date;
   durationMs?: number;
 }
 
+/**
+ * Timing and size of the final response (null = not measured)
+ */
+export interface ResponseMetrics {
+  ttfbMs: number | null;        // Request start to first byte
+  downloadMs: number | null;    // Request start to last byte
+  contentBytes: number | null;  // Decoded body size
+}
+
+/**
+ * A fetched page handed to the shared processing pipeline
+ * Produced by either the Cheerio or the Playwright crawler
+ */
+export interface FetchedPage {
+  url: string;              // Queued request URL (normalized)
+  requestedUrl: string;     // URL as originally requested (before redirects)
+  loadedUrl: string;        // URL the response was loaded from
+  statusCode: number;
+  redirectHops: RedirectHop[]; // HTTP redirects followed by this fetch (before loadedUrl)
+  headers: Record<string, string>; // Response headers (lowercase names)
+  metrics: ResponseMetrics;
+  html: string;
+  fetchMode: FetchMode;     // Which crawler fetched this page
+  userData: Record<string, any>;
+}
+
 /**
  * Page crawl result
  */
@@ -38,7 +92,7 @@ export interface PageCrawlResult {
   url: string;
   finalUrl: string;
   statusCode: number;
-  redirectChain: string[];
+  redirectChain: RedirectHop[];
   html: string;
   error?: string;
 }
@@ -3,11 +3,240 @@
  * Corresponds to MySQL schema in src/db/schema.sql
  */
 
-import type { NavStructure, StructuralStats } from './navigation.types';
+import type { LinkSourceType, NavStructure, StructuralStats } from './navigation.types';
 
-export type CrawlStatus = 'OK' | 'REDIRECT_ALIAS' | 'NOT_FOUND' | 'SOFT_404' | 'ERROR';
+export type CrawlStatus =
+  | 'OK'
+  | 'REDIRECT_ALIAS'
+  | 'REDIRECT_LOOP'
+  | 'NOT_FOUND'
+  | 'SOFT_404'
+  | 'ERROR'
+  | 'BLOCKED_ROBOTS';
 export type FetchMode = 'cheerio' | 'playwright';
 export type ExtractionMethod = 'readability' | 'semantic' | 'cms_pattern' | 'fallback';
+export type DiscoverySource = 'sitemap' | 'link';
+export type CanonicalStatus = 'self' | 'canonicalized' | 'to_redirect' | 'to_not_found' | 'cross_domain' | 'missing';
+export type Indexability = 'indexable' | 'non_indexable';
+export type IndexabilityReason =
+  | 'blocked_robots_txt'
+  | 'redirect'
+  | 'not_found'
+  | 'soft_404'
+  | 'redirect_loop'
+  | 'error'
+  | 'noindex'
+  | 'unavailable_after'
+  | 'canonicalized';
+
+export type HreflangSource = 'html' | 'header' | 'sitemap';
+export type HreflangIssueType =
+  | 'invalid_code'            // Not ISO 639-1 language (+ ISO 3166-1 alpha-2 region) or x-default
+  | 'duplicate_code'          // Same code announced for two URLs
+  | 'missing_self_reference'  // Annotations do not include the page itself
+  | 'missing_return_link'     // Alternate does not annotate this page back
+  | 'target_redirects'        // Alternate URL redirects
+  | 'target_not_ok';          // Alternate URL was crawled with a non-OK status
+
+export type HeadingIssueType =
+  | 'multiple_h1'     // A second (third, ...) H1
+  | 'skipped_level'   // Heading more than one level below the previous one (h2 -> h4)
+  | 'empty_heading'   // No text (nor image alt)
+  | 'duplicate_h2';   // H2 text repeated on the page
+
+export type ImageRegion = 'main' | 'header' | 'nav' | 'footer' | 'aside' | 'other';
+export type ImageIssue =
+  | 'missing_alt'           // No alt attribute (alt="" is fine: decorative)
+  | 'missing_dimensions';   // No width or height attribute (layout shift)
+
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+export type StructuredDataIssueType =
+  | 'invalid_json'      // JSON-LD block that does not parse
+  | 'missing_property'; // Entity lacks a property its type requires
+
+/**
+ * One hreflang annotation: the page names `url` as its version for `hreflang`
+ */
+export interface HreflangLink {
+  hreflang: string;   // As written, lowercased (e.g., "en-us", "x-default")
+  url: string;        // Normalized
+  source: HreflangSource;
+}
+
+/**
+ * A problem with a page's hreflang annotations
+ */
+export interface HreflangIssue {
+  type: HreflangIssueType;
+  hreflang: string | null;
+  url: string | null;  // Alternate the issue is about (null = the page itself)
+}
+
+/**
+ * Robots directives from meta robots tags and the X-Robots-Tag header
+ * (`none` sets noindex + nofollow; null limits = not given)
+ */
+export interface RobotsDirectives {
+  noindex: boolean;
+  nofollow: boolean;
+  noarchive: boolean;
+  nosnippet: boolean;
+  noimageindex: boolean;
+  max_snippet: number | null;         // -1 = no limit
+  max_image_preview: string | null;   // none | standard | large
+  max_video_preview: number | null;   // Seconds, -1 = no limit
+  unavailable_after: string | null;   // Date as written
+}
+
+/**
+ * Robots directives of a page, per source and combined
+ */
+export interface PageRobotsDirectives {
+  effective: RobotsDirectives;                // Generic + INDEXABILITY_USER_AGENT sources, most restrictive wins
+  sources: Record<string, RobotsDirectives>;  // 'meta:robots', 'meta:googlebot', 'header', 'header:bingbot', ...
+}
+
+/**
+ * One heading of a page outline
+ */
+export interface PageHeading {
+  level: number;        // 1-6
+  text: string;         // Whitespace collapsed; image alt when the heading has no text
+  position: number;     // 0-based index in document order
+  id: string | null;    // Anchor: the heading's id, or the id / name of an anchor inside it
+}
+
+/**
+ * A problem with a page's heading outline
+ */
+export interface HeadingIssue {
+  type: HeadingIssueType;
+  level: number;
+  position: number;     // Heading the issue is about
+  text: string;
+}
+
+/**
+ * One og:image with its structured properties (og:image:width, ...)
+ */
+export interface OpenGraphImage {
+  url: string;                 // Absolute
+  secure_url: string | null;
+  type: string | null;
+  width: number | null;
+  height: number | null;
+  alt: string | null;
+}
+
+/**
+ * A favicon / apple-touch-icon / mask-icon link
+ */
+export interface PageIcon {
+  rel: string;                 // Lowercased rel (e.g., "icon", "apple-touch-icon")
+  href: string;                // Absolute
+  sizes: string | null;
+  type: string | null;
+}
+
+/**
+ * Social preview and document metadata of a page (as written, null = tag absent)
+ */
+export interface SocialMetadata {
+  og: {
+    title: string | null;
+    description: string | null;
+    type: string | null;
+    url: string | null;
+    site_name: string | null;
+    locale: string | null;
+    images: OpenGraphImage[];
+  };
+  twitter: {
+    card: string | null;
+    site: string | null;
+    creator: string | null;
+    title: string | null;
+    description: string | null;
+    image: string | null;
+    image_alt: string | null;
+  };
+  icons: PageIcon[];
+  author: string | null;
+  published_time: string | null;  // article:published_time and equivalents
+  modified_time: string | null;   // article:modified_time, og:updated_time and equivalents
+  keywords: string[];
+}
+
+/**
+ * Social tags audited across a site (social report)
+ */
+export type SocialTag =
+  | 'og_title'
+  | 'og_description'
+  | 'og_image'
+  | 'og_image_size'   // og:image:width / og:image:height on the first image
+  | 'og_url'
+  | 'twitter_card'
+  | 'icon';
+
+/**
+ * A property value of a structured data entity: a literal or a nested entity
+ */
+export type StructuredDataValue = string | number | boolean | StructuredDataEntity;
+
+/**
+ * One schema.org entity from JSON-LD, Microdata or RDFa
+ * Types and property names drop the schema.org prefix ("Product", not
+ * "https://schema.org/Product"); other vocabularies keep theirs.
+ */
+export interface StructuredDataEntity {
+  format: StructuredDataFormat;
+  types: string[];                                     // Empty for untyped nodes (e.g., {"@id": ...} references)
+  id: string | null;                                   // @id, itemid or RDFa resource
+  properties: Record<string, StructuredDataValue[]>;  // Every property is a list, in document order
+}
+
+/**
+ * A problem with a page's structured data
+ */
+export interface StructuredDataIssue {
+  type: StructuredDataIssueType;
+  format: StructuredDataFormat;
+  schema_type: string | null;   // Type the rule belongs to (null for invalid_json)
+  path: string;                 // Entity location, e.g. "FAQPage > mainEntity > Question"
+  missing: string[];            // Alternatives, any one of which would do (empty for invalid_json)
+  message: string | null;       // JSON parse error
+}
+
+/**
+ * How a hop in a redirect chain sent the client on
+ * canonical = not a redirect, the final page names another URL as canonical
+ */
+export type RedirectType = 'http' | 'meta_refresh' | 'javascript' | 'canonical';
+
+/**
+ * One URL in a redirect chain
+ * Every hop but the last says how (redirect_type) and where (target) it led;
+ * the last hop is the final page (redirect_type null, or 'canonical')
+ */
+export interface RedirectHop {
+  url: string;
+  status_code: number;
+  redirect_type: RedirectType | null;
+  target: string | null;
+}
+
+/**
+ * A single fetch attempt for a page
+ * Cheerio first; a second playwright attempt is added when the page looks JS-rendered
+ */
+export interface FetchAttempt {
+  fetch_mode: FetchMode;
+  status_code: number;
+  word_count: number;
+  render_signals?: string[];  // JS-rendering signals that triggered the browser fallback
+  attempted_at: string;       // ISO timestamp
+}
 
 /**
  * crawler_pages table
@@ -18,20 +247,48 @@ export interface CrawlerPage {
   requested_url_original: string | null;
   status_code: number | null;
   crawl_status: CrawlStatus;
-  redirect_chain: string[] | null;
+  soft_404_signals: string[] | null;      // Why the page was classified as SOFT_404
+  redirect_chain: RedirectHop[] | null;
   html_content: string | null;
   clean_html: string | null;
   markdown: string | null;
   markdown_enhanced: string | null;       // Markdown with STRUCT markers for link classification
   structural_stats: StructuralStats | null; // Detection counts (faq_modules, toc_sections, etc.)
   nav_structure: NavStructure | null;
+  nav_fingerprint: string | null;         // generateNavFingerprint(primary_nav)
   title: string | null;
   h1: string | null;
   meta_description: string | null;
+  canonical_url: string | null;           // rel=canonical (normalized)
+  canonical_status: CanonicalStatus | null;
+  declared_language: string | null;       // html lang, Content-Language or self-referencing hreflang
+  detected_language: string | null;       // From the content (languageDetector), ISO 639-1
+  language_confidence: number | null;     // 0..1
+  language_mismatch: boolean | null;      // Declared and detected differ (null = either unknown)
+  hreflang: HreflangLink[] | null;        // Alternates from <link>, Link header and sitemap
+  structured_data: StructuredDataEntity[] | null; // JSON-LD, Microdata and RDFa entities
+  schema_types: string[] | null;          // Distinct top-level entity types
+  structured_data_issues: StructuredDataIssue[] | null;
+  social_metadata: SocialMetadata | null; // Open Graph, Twitter card, icons, author, dates, keywords
+  heading_outline: PageHeading[] | null;  // h1-h6 in document order
+  heading_issues: HeadingIssue[] | null;
+  robots_directives: PageRobotsDirectives | null;
+  indexability: Indexability | null;
+  indexability_reason: IndexabilityReason | null; // Why the page is non_indexable (null when indexable)
   word_count: number;
   content_hash: string | null;
+  etag: string | null;                    // ETag response header (conditional recrawl)
+  last_modified: string | null;           // Last-Modified response header (conditional recrawl)
+  response_headers: Record<string, string> | null; // STORED_RESPONSE_HEADERS present on the response
+  ttfb_ms: number | null;
+  download_ms: number | null;
+  content_bytes: number | null;
   sitemap_type_hint: string | null;
-  fetch_mode: FetchMode | null;
+  discovered_via: DiscoverySource | null;
+  discovered_from: string | null;         // Referring page (link discovery)
+  discovery_depth: number | null;         // Link hops from a sitemap page (0 = sitemap)
+  fetch_mode: FetchMode | null;           // Fetch mode that produced the stored content
+  fetch_attempts: FetchAttempt[] | null;  // Every fetch attempt in the last crawl
   extraction_method: ExtractionMethod | null;
   junk_score: number | null;
   last_crawled_at: Date;
@@ -47,24 +304,426 @@ export interface CrawlerPageInsert {
   requested_url_original?: string;
   status_code?: number;
   crawl_status: CrawlStatus;
-  redirect_chain?: string[];
+  soft_404_signals?: string[];       // Soft-404 signals (see soft404Detector)
+  redirect_chain?: RedirectHop[];
   html_content?: string;
   clean_html?: string;
   markdown?: string;
   markdown_enhanced?: string;       // Markdown with STRUCT markers for link classification
   structural_stats?: StructuralStats; // Detection counts (faq_modules, toc_sections, etc.)
   nav_structure?: NavStructure;
+  nav_fingerprint?: string;
   title?: string;
   h1?: string;
   meta_description?: string;
+  canonical_url?: string;
+  canonical_status?: CanonicalStatus;
+  declared_language?: string;
+  detected_language?: string;
+  language_confidence?: number;
+  language_mismatch?: boolean | null;
+  hreflang?: HreflangLink[];
+  structured_data?: StructuredDataEntity[];
+  schema_types?: string[];
+  structured_data_issues?: StructuredDataIssue[];
+  social_metadata?: SocialMetadata;
+  heading_outline?: PageHeading[];
+  heading_issues?: HeadingIssue[];
+  robots_directives?: PageRobotsDirectives;
+  indexability?: Indexability;
+  indexability_reason?: IndexabilityReason | null;
   word_count?: number;
   content_hash?: string;
+  etag?: string;
+  last_modified?: string;
+  response_headers?: Record<string, string>;
+  ttfb_ms?: number;
+  download_ms?: number;
+  content_bytes?: number;
   sitemap_type_hint?: string | null;
+  discovered_via?: DiscoverySource;
+  discovered_from?: string;
+  discovery_depth?: number;
   fetch_mode?: FetchMode;
+  fetch_attempts?: FetchAttempt[];
   extraction_method?: ExtractionMethod;
   junk_score?: number;
   last_error?: string;
   run_id?: string;
+  served?: boolean;                 // Not stored: the server returned the page (status < 400) and it was
+                                    // extracted; only such writes replace the page-describing columns
+}
+
+/**
+ * Stored state of a page used to decide whether it changed (incremental recrawl)
+ */
+export interface PageValidators {
+  crawl_status: CrawlStatus;
+  content_hash: string | null;
+  etag: string | null;
+  last_modified: string | null;
+  last_crawled_at: Date;
+}
+
+/**
+ * Fields compared between page versions
+ */
+export type TrackedPageField = 'content_hash' | 'title' | 'h1' | 'meta_description' | 'crawl_status';
+
+/**
+ * crawler_page_versions table
+ */
+export interface CrawlerPageVersion {
+  id: number;
+  final_url: string;
+  run_id: string | null;
+  status_code: number | null;
+  crawl_status: CrawlStatus;
+  title: string | null;
+  h1: string | null;
+  meta_description: string | null;
+  word_count: number;
+  content_hash: string | null;
+  markdown: string | null;
+  changed_fields: Array<TrackedPageField | 'created'>;
+  created_at: Date;
+}
+
+/**
+ * Insert type for crawler_page_versions
+ */
+export interface CrawlerPageVersionInsert {
+  final_url: string;
+  run_id?: string;
+  status_code?: number;
+  crawl_status: CrawlStatus;
+  title?: string;
+  h1?: string;
+  meta_description?: string;
+  word_count?: number;
+  content_hash?: string;
+  markdown?: string;
+  changed_fields: Array<TrackedPageField | 'created'>;
+}
+
+/**
+ * crawler_run_pages table (what one run saw for one URL)
+ */
+export interface CrawlerRunPage {
+  run_id: string;
+  url: string;
+  final_url: string;
+  status_code: number | null;
+  crawl_status: CrawlStatus;
+  title: string | null;
+  h1: string | null;
+  meta_description: string | null;
+  word_count: number;
+  content_hash: string | null;
+  nav_fingerprint: string | null;
+  created_at: Date;
+}
+
+/**
+ * A page whose canonical is not itself (canonical audit)
+ */
+export interface CanonicalIssue {
+  final_url: string;
+  canonical_url: string | null;
+  canonical_status: CanonicalStatus;
+  target_crawl_status: CrawlStatus | null;  // Stored row at the canonical URL (null = not crawled)
+  target_redirects_to: string | null;       // Where the canonical URL redirects (url_aliases)
+}
+
+/**
+ * A page's hreflang annotations (translation group building)
+ */
+export interface HreflangPage {
+  final_url: string;
+  crawl_status: CrawlStatus;
+  declared_language: string | null;
+  hreflang: HreflangLink[];
+}
+
+/**
+ * What the crawl stored for a URL: a page, or a redirect (url_aliases)
+ */
+export interface StoredUrlStatus {
+  crawl_status: CrawlStatus | null;   // null = redirect
+  declared_language: string | null;
+  redirects_to: string | null;
+}
+
+/**
+ * translation_groups table: pages linked as translations of each other by hreflang
+ */
+export interface TranslationGroupMember {
+  final_url: string;
+  group_key: string;                  // MD5 of the group's first URL (sorted)
+  hreflang: string | null;            // Code the group uses for this page
+  declared_language: string | null;
+  crawl_status: CrawlStatus | null;   // null = not crawled
+  issues: HreflangIssue[];
+  run_id: string | null;
+  updated_at: Date;
+}
+
+/**
+ * Insert type for translation_groups
+ */
+export interface TranslationGroupMemberInsert {
+  final_url: string;
+  group_key: string;
+  hreflang: string | null;
+  declared_language: string | null;
+  crawl_status: CrawlStatus | null;
+  issues: HreflangIssue[];
+  run_id: string;
+}
+
+/**
+ * A page whose declared language differs from its content (language report)
+ */
+export interface LanguageMismatch {
+  final_url: string;
+  declared_language: string;
+  detected_language: string;
+  language_confidence: number;
+}
+
+/**
+ * A page's structured data types and issues (schema report)
+ */
+export interface StructuredDataSummary {
+  final_url: string;
+  schema_types: string[];
+  structured_data_issues: StructuredDataIssue[];
+}
+
+/**
+ * A page's social preview tags (social report)
+ */
+export interface SocialPreview {
+  final_url: string;
+  title: string | null;
+  meta_description: string | null;
+  social_metadata: SocialMetadata;
+}
+
+/**
+ * One srcset candidate ("hero-640.jpg 640w")
+ */
+export interface ImageSrcsetCandidate {
+  url: string;                // Absolute
+  descriptor: string | null;  // "640w", "2x" (null = 1x)
+}
+
+/**
+ * An <img> of a page, as extracted
+ */
+export interface PageImage {
+  position: number;                       // 0-based index among the page's images
+  src: string;                            // Absolute; the lazy-load source when src is a placeholder
+  srcset: ImageSrcsetCandidate[];         // img srcset plus <picture> <source> srcsets
+  alt: string | null;                     // null = no alt attribute, '' = decorative
+  title: string | null;
+  width: number | null;                   // width / height attributes
+  height: number | null;
+  loading: string | null;                 // loading attribute (lazy / eager)
+  lazy_attribute: string | null;          // Attribute src came from (data-src, ...), null = src
+  region: ImageRegion;                    // main = inside the extracted main content
+}
+
+/**
+ * crawler_page_images table: every image of the latest served version of a page
+ */
+export interface CrawlerPageImage extends PageImage {
+  id: number;
+  final_url: string;
+  src_hash: string;                       // MD5 of src (images shared across pages)
+  run_id: string | null;
+  created_at: Date;
+}
+
+/**
+ * An alt text used for different images (images report)
+ */
+export interface DuplicateImageAlt {
+  alt: string;
+  images: number;                         // Distinct srcs
+  pages: number;
+  example_src: string;
+}
+
+/**
+ * An image used on many pages (images report)
+ */
+export interface SharedImage {
+  src: string;
+  pages: number;
+  regions: string;                        // Comma-separated regions it appears in
+  missing_alt: number;                    // Occurrences without an alt attribute
+}
+
+/**
+ * A link of a page, as built from its nav_structure (see buildLinkEdges)
+ */
+export interface PageLink {
+  target_url: string;                     // Normalized href
+  anchor_text: string;
+  source_type: LinkSourceType;            // primary_nav, footer and breadcrumb for template links
+  nearest_heading: string | null;         // Content links only
+  body_position_pct: number | null;       // Content links only (0-100)
+  rel: string[];                          // rel tokens, empty when none
+  nofollow: boolean;                      // rel contains nofollow, sponsored or ugc
+  is_external: boolean;
+}
+
+/**
+ * crawler_links table: one row per link of the latest served version of a page
+ */
+export interface CrawlerLink extends PageLink {
+  id: number;
+  source_url: string;                     // Linking page (final URL)
+  resolved_url: string | null;            // Target after url_aliases / link check; null until the target is known
+  target_redirects: boolean | null;       // Target URL redirects (resolved_url differs)
+  target_status_code: number | null;      // Status of the resolved page
+  target_crawl_status: CrawlStatus | null; // ERROR also when a link check got no response
+  resolved_at: Date | null;
+  run_id: string | null;
+  created_at: Date;
+}
+
+/**
+ * link_checks table row: status of a link target checked outside the crawl
+ */
+export interface LinkCheckInsert {
+  url: string;
+  status_code: number | null;             // After redirects; null = no response
+  final_url: string | null;               // After redirects (normalized)
+  method: 'HEAD' | 'GET';
+  error: string | null;
+  response_ms: number | null;
+}
+
+/**
+ * Link problems reported by the links-check report
+ * broken: target is 4xx/5xx, a (soft) 404 or unreachable; redirect: target redirects;
+ * non_canonical: target page declares another page as canonical
+ */
+export type LinkIssueType = 'broken' | 'redirect' | 'non_canonical';
+
+/**
+ * A link with a problem, with the page and anchor that contain it
+ */
+export interface LinkIssue {
+  source_url: string;
+  anchor_text: string;
+  source_type: LinkSourceType;
+  target_url: string;
+  resolved_url: string | null;
+  target_status_code: number | null;
+  target_crawl_status: CrawlStatus | null;
+  canonical_url: string | null;           // Canonical of the target page (non_canonical)
+  check_error: string | null;             // Link check error (no response)
+}
+
+/**
+ * Internal link metrics of a page (see computeLinkMetrics)
+ */
+export interface PageLinkMetrics {
+  final_url: string;
+  pagerank: number;                       // Sums to 1 per host
+  pagerank_score: number;                 // 0-100, relative to the host's top page
+  click_depth: number | null;             // Clicks from the homepage; null = unreachable
+  inlinks: number;                        // Linking pages (followed links)
+  inlinks_by_type: Partial<Record<LinkSourceType, number>>; // Linking pages per source type
+  outlinks: number;                       // Linked pages (followed links)
+  in_sitemap: boolean;                    // Listed in the run's sitemaps (crawl_run_sitemap_urls)
+  is_orphan: boolean;                     // In a sitemap, but no page links to it
+}
+
+/**
+ * crawl_run_sitemap_urls table row: one <url> entry of a run's sitemaps
+ */
+export interface RunSitemapUrlInsert {
+  url: string;                            // normalizeUrl(loc)
+  loc: string;                            // As listed
+  sitemap_url: string | null;             // Sitemap the entry is listed in
+  lastmod: string | null;                 // As listed
+  lastmod_at: Date | null;                // Parsed; null = missing or unparseable
+}
+
+/**
+ * Sitemap audit findings
+ * Entry issues judge a listed URL by what the crawl stored for it; missing_from_sitemap
+ * lists pages the run reached through links only
+ */
+export type SitemapIssueType =
+  | 'redirect'              // Listed URL redirects (url_aliases)
+  | 'not_found'             // 4xx/5xx or soft 404
+  | 'noindex'
+  | 'canonicalized'         // Declares another URL as canonical
+  | 'duplicate'             // Listed more than once after normalizeUrl
+  | 'future_lastmod'
+  | 'invalid_lastmod'       // Present but not a W3C datetime
+  | 'stale_lastmod'         // Older than a content change the crawler observed
+  | 'missing_from_sitemap';
+
+/**
+ * A sitemap audit finding (sitemap report)
+ */
+export interface SitemapIssue {
+  url: string;                            // Normalized URL (the page, for missing_from_sitemap)
+  loc: string | null;                     // As listed (null for missing_from_sitemap)
+  sitemap_url: string | null;
+  lastmod: string | null;
+  final_url: string | null;               // Where the URL ends up (redirect)
+  status_code: number | null;
+  crawl_status: CrawlStatus | null;
+  canonical_url: string | null;
+}
+
+/**
+ * crawler_link_metrics table: link metrics per run and page
+ */
+export interface CrawlerLinkMetrics extends PageLinkMetrics {
+  id: number;
+  run_id: string;
+  created_at: Date;
+}
+
+/**
+ * A page's heading issues (headings report)
+ */
+export interface HeadingIssuePage {
+  final_url: string;
+  h1: string | null;
+  heading_issues: HeadingIssue[];
+}
+
+/**
+ * A non-indexable page and why (indexability report)
+ */
+export interface NonIndexablePage {
+  final_url: string;
+  status_code: number | null;
+  crawl_status: CrawlStatus;
+  indexability_reason: IndexabilityReason;
+  canonical_url: string | null;
+}
+
+/**
+ * Timing, size and caching headers of a page (performance reports)
+ */
+export interface PagePerformance {
+  final_url: string;
+  status_code: number | null;
+  ttfb_ms: number | null;
+  download_ms: number | null;
+  content_bytes: number | null;
+  cache_control: string | null;
+  expires: string | null;
 }
 
 /**
@@ -74,7 +733,7 @@ export interface UrlAlias {
   requested_url: string;
   final_url: string;
   status_code: number | null;
-  redirect_chain: string[] | null;
+  redirect_chain: RedirectHop[] | null;
   first_seen_at: Date;
   last_seen_at: Date;
   run_id: string | null;
@@ -87,7 +746,7 @@ export interface UrlAliasInsert {
   requested_url: string;
   final_url: string;
   status_code?: number;
-  redirect_chain?: string[];
+  redirect_chain?: RedirectHop[];
   run_id?: string;
 }
 
@@ -99,6 +758,7 @@ export interface CrawlRun {
   seed_sitemaps: string[];
   max_pages: number | null;
   fetch_mode_default: FetchMode;
+  crawl_options: Record<string, any> | null;  // CLI options snapshot (for --resume)
   started_at: Date;
   finished_at: Date | null;
   total_urls_discovered: number;
@@ -116,6 +776,7 @@ export interface CrawlRunInsert {
   seed_sitemaps: string[];
   max_pages?: number;
   fetch_mode_default?: FetchMode;
+  crawl_options?: Record<string, any>;
   notes?: string;
 }
 
@@ -130,6 +791,17 @@ export interface CrawlRunUpdate {
   total_errors?: number;
 }
 
+/**
+ * Progress already stored for a crawl run (used to resume it)
+ */
+export interface CrawlRunProgress {
+  urls: string[];          // Requested and final URLs stored for the run
+  pagesCrawled: number;
+  redirects: number;
+  errors: number;
+  blockedByRobots: number;
+}
+
 /**
  * domain_overrides table
  */
@@ -139,6 +811,8 @@ export interface DomainOverride {
   main_content_selectors: string[] | null;
   remove_selectors: string[] | null;
   force_fetch_mode: FetchMode | null;
+  max_concurrency: number | null;
+  max_requests_per_minute: number | null;
   notes: string | null;
   updated_at: Date;
 }
@@ -152,5 +826,7 @@ export interface DomainOverrideUpsert {
   main_content_selectors?: string[];
   remove_selectors?: string[];
   force_fetch_mode?: FetchMode;
+  max_concurrency?: number;
+  max_requests_per_minute?: number;
   notes?: string;
 }
@@ -33,6 +33,7 @@ export interface NavItem {
   parent_labels?: string[];       // ["Body", "Liposuction"] for nested items
   is_external: boolean;           // External link?
   link_type: 'text' | 'image' | 'icon';  // Type of link
+  rel?: string[];                 // rel tokens (nofollow, sponsored, ugc, ...), omitted when none
 }
 
 /**
@@ -46,6 +47,7 @@ export interface ContentLink {
   nearest_heading?: string;       // Closest H2/H3 above this link
   body_position_pct: number;      // 0-100, where in content this appears
   is_external: boolean;           // External link?
+  rel?: string[];                 // rel tokens (nofollow, sponsored, ugc, ...), omitted when none
 }
 
 /**
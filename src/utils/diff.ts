@@ -0,0 +1,173 @@
+/**
+ * Line diff utilities
+ * Myers diff algorithm with unified diff output (as produced by `diff -u`)
+ */
+
+/**
+ * A single line in a diff
+ */
+export interface DiffLine {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+/**
+ * Compute a minimal line diff between two texts (Myers O(ND))
+ *
+ * @param oldLines - Lines of the old text
+ * @param newLines - Lines of the new text
+ * @returns Lines in order, tagged equal / delete / insert
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // Common prefix/suffix never need the search
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  const result: DiffLine[] = oldLines.slice(0, prefix).map(line => ({ type: 'equal' as const, line }));
+  result.push(...myers(a, b));
+  result.push(...oldLines.slice(oldLines.length - suffix).map(line => ({ type: 'equal' as const, line })));
+  return result;
+}
+
+/**
+ * Myers shortest edit script
+ * Keeps only the diagonals reachable at each step, so memory is O(D²)
+ */
+function myers(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = max === 0;
+  for (let d = 0; d <= max && !found; d++) {
+    // Diagonals -d-1..d+1 as they were before step d
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards from (n, m)
+  const ops: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', line: b[y - 1] });
+      } else {
+        ops.push({ type: 'delete', line: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Produce a unified diff of two texts
+ *
+ * @param oldText - Old text
+ * @param newText - New text
+ * @param options - File labels and number of context lines (default 3)
+ * @returns Unified diff, or an empty string if the texts are identical
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  options: { oldLabel?: string; newLabel?: string; context?: number } = {}
+): string {
+  const { oldLabel = 'a', newLabel = 'b', context = 3 } = options;
+  const lines = diffLines(oldText.split('\n'), newText.split('\n'));
+
+  // Old/new line numbers (1-based) at each diff line
+  const positions: Array<{ oldLine: number; newLine: number }> = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    positions.push({ oldLine, newLine });
+    if (line.type !== 'insert') oldLine++;
+    if (line.type !== 'delete') newLine++;
+  }
+
+  const changes = lines
+    .map((line, index) => (line.type === 'equal' ? -1 : index))
+    .filter(index => index !== -1);
+  if (changes.length === 0) return '';
+
+  // Group changes whose context windows touch into hunks
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const index of changes) {
+    const start = Math.max(index - context, 0);
+    const end = Math.min(index + context, lines.length - 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const hunk of hunks) {
+    const slice = lines.slice(hunk.start, hunk.end + 1);
+    const oldCount = slice.filter(line => line.type !== 'insert').length;
+    const newCount = slice.filter(line => line.type !== 'delete').length;
+    const { oldLine: oldStart, newLine: newStart } = positions[hunk.start];
+
+    output.push(
+      `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`
+    );
+    for (const line of slice) {
+      const marker = line.type === 'equal' ? ' ' : line.type === 'delete' ? '-' : '+';
+      output.push(`${marker}${line.line}`);
+    }
+  }
+
+  return output.join('\n') + '\n';
+}